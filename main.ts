@@ -1,20 +1,31 @@
-import { Notice, Plugin, type TAbstractFile, type TFile } from "obsidian";
+import { Notice, Plugin, type ObsidianProtocolData, type TAbstractFile, type TFile } from "obsidian";
 import { OmniSwitchSettings, migrateSettings } from "./src/settings";
 import { SearchCoordinator } from "./src/search";
 import { JournalStore } from "./src/search/persist-journal";
+import { FrecencyStore, type FrecencyData } from "./src/search/frecency";
 import { OmniSwitchModal, type OmniSwitchModalOptions } from "./src/omni-switch-modal";
 import { OmniSwitchSettingTab } from "./src/settings/tab";
-import { collectFileLeaves } from "./src/search/utils";
+import { createDefaultActionRegistry, type ActionRegistry } from "./src/actions";
+import { ProviderRegistry, providerMode, type OmniSwitchProvider } from "./src/search/providers";
+import { parseOmniSwitchUri } from "./src/uri";
+import { collectFileLeaves, getLeafLocation } from "./src/search/utils";
 
 interface PersistedState {
 	settings: OmniSwitchSettings;
+	frecency?: FrecencyData;
 }
 
 export default class OmniSwitchPlugin extends Plugin {
 	settings: OmniSwitchSettings;
+	private frecency: FrecencyStore = new FrecencyStore();
+	/** Actions offered with Tab in the switcher; other plugins may register their own. */
+	readonly actions: ActionRegistry = createDefaultActionRegistry();
+	private readonly providers = new ProviderRegistry();
 	private search: SearchCoordinator | null = null;
 	private searchInitPromise: Promise<void> | null = null;
 	private searchInitialized = false;
+	private frecencySaveTimer: number | null = null;
+	private static readonly FRECENCY_SAVE_MS = 5000;
 
 	private readonly handleVaultCreate = (file: TAbstractFile): void => {
 		this.search?.handleVaultCreate(file);
@@ -45,6 +56,9 @@ export default class OmniSwitchPlugin extends Plugin {
 		this.registerEvent(this.app.vault.on("rename", this.handleVaultRename));
 		this.registerEvent(this.app.vault.on("modify", this.handleVaultModify));
 		this.registerEvent(this.app.metadataCache.on("changed", this.handleMetadataChange));
+		this.registerObsidianProtocolHandler("omniswitch", (params) => {
+			void this.handleUri(params);
+		});
 
 		this.addCommand({
 			id: "omniswitch-open",
@@ -55,6 +69,37 @@ export default class OmniSwitchPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "omniswitch-insert-link",
+			name: "Insert link via OmniSwitch",
+			editorCallback: async (editor, ctx) => {
+				await this.openOmniSwitch({ initialMode: "files", defaultMode: "files", insertLink: { editor, sourcePath: ctx.file?.path ?? "" } });
+			},
+		});
+
+		this.addCommand({
+			id: "omniswitch-move-file",
+			name: "Move current file to…",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
+				}
+				if (!checking) {
+					void this.openOmniSwitch({ moveFiles: [file] });
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "omniswitch-open-everything",
+			name: "Search notes, headings and commands",
+			callback: async () => {
+				await this.openOmniSwitch({ initialMode: "everything" });
+			},
+		});
+
 		this.addCommand({
 			id: "omniswitch-open-files",
 			name: "Search vault notes",
@@ -87,15 +132,45 @@ export default class OmniSwitchPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "omniswitch-open-tags",
+			name: "Search vault tags",
+			callback: async () => {
+				await this.openOmniSwitch({ initialMode: "tags" });
+			},
+		});
+
+		this.addCommand({
+			id: "omniswitch-open-content",
+			name: "Search note contents",
+			callback: async () => {
+				await this.openOmniSwitch({ initialMode: "content" });
+			},
+		});
+
+		this.addCommand({
+			id: "omniswitch-open-blocks",
+			name: "Search block references",
+			callback: async () => {
+				await this.openOmniSwitch({ initialMode: "blocks" });
+			},
+		});
+
+		this.addCommand({
+			id: "omniswitch-open-tabs",
+			name: "Switch between open tabs",
+			callback: async () => {
+				await this.openOmniSwitch({ initialMode: "tabs" });
+			},
+		});
+
 		this.addCommand({
 			id: "omniswitch-debug-log-open-tabs",
 			name: "Omni Switch: Log open tabs",
 			callback: async () => {
 				await this.ensureLayoutReady();
-				const mainRoot = this.app.workspace.rootSplit;
 				const entries = collectFileLeaves(this.app).map((entry) => {
-					const root = entry.leaf.getRoot();
-					const location = root === mainRoot ? "main" : "aux";
+					const location = getLeafLocation(this.app, entry.leaf);
 					return {
 						viewType: `${entry.viewType} (${location})`,
 						path: entry.path,
@@ -106,17 +181,30 @@ export default class OmniSwitchPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "omniswitch-clear-frecency",
+			name: "Clear learned ranking history",
+			callback: async () => {
+				await this.clearFrecency();
+			},
+		});
+
 		this.addSettingTab(new OmniSwitchSettingTab(this.app, this));
 	}
 
 	async onunload(): Promise<void> {
+		if (this.frecencySaveTimer !== null) {
+			window.clearTimeout(this.frecencySaveTimer);
+			this.frecencySaveTimer = null;
+			await this.persistState();
+		}
 		// Save corpus state before unload
 		if (this.search) {
 			await this.search.shutdown();
 		}
 	}
 
-    private async openOmniSwitch(options?: OmniSwitchModalOptions): Promise<void> {
+    private async openOmniSwitch(options?: OmniSwitchModalOptions, openFirst = false): Promise<void> {
         try {
             await this.ensureSearchInitialized();
             if (!this.search) {
@@ -124,7 +212,25 @@ export default class OmniSwitchPlugin extends Plugin {
                 return;
             }
             console.info("[OmniSwitch] UI: opening modal…");
-            const modal = new OmniSwitchModal(this.app, this.search, options);
+            const modal = new OmniSwitchModal(this.app, this.search, {
+                showPreview: this.settings.showPreview,
+                onPreviewToggled: (visible) => {
+                    this.settings.showPreview = visible;
+                    void this.saveSettings();
+                },
+                actions: this.actions,
+                providers: this.providers,
+                newNoteFolder: this.settings.newNoteFolder,
+                newNoteTemplate: this.settings.newNoteTemplate,
+                defaultMode: this.settings.defaultMode,
+                onMoveFiles: (files) => {
+                    void this.openOmniSwitch({ moveFiles: files });
+                },
+                ...options,
+            });
+            if (openFirst && await modal.openFirstResult()) {
+                return;
+            }
             modal.open();
         } catch (e) {
             console.error("[OmniSwitch] UI: failed to open modal", e);
@@ -141,6 +247,39 @@ export default class OmniSwitchPlugin extends Plugin {
 		});
 	}
 
+	private async handleUri(params: ObsidianProtocolData): Promise<void> {
+		const { openFirst, ...options } = parseOmniSwitchUri(params, (id) => Boolean(this.providers.get(id)));
+		console.info(`[OmniSwitch] URI: mode=${options.initialMode ?? this.settings.defaultMode ?? "files"} query="${options.initialQuery ?? ""}" open=${openFirst ? "first" : "modal"}`);
+		await this.openOmniSwitch(options, openFirst);
+	}
+
+	/**
+	 * Public API: add a search mode entered by typing `provider.prefix`. Returns a function that removes it;
+	 * call it from the other plugin's onunload. Throws if the id or prefix is taken.
+	 */
+	registerProvider<T>(provider: OmniSwitchProvider<T>): () => void {
+		const unregister = this.providers.register(provider as OmniSwitchProvider);
+		console.info(`[OmniSwitch] Providers: registered "${provider.id}" (${provider.prefix})`);
+		return unregister;
+	}
+
+	/**
+	 * Public API: open OmniSwitch directly in a registered provider's mode.
+	 */
+	async openProvider(id: string, query = ""): Promise<void> {
+		if (!this.providers.get(id)) {
+			new Notice(`OmniSwitch: no search provider "${id}".`);
+			return;
+		}
+		await this.openOmniSwitch({ initialMode: providerMode(id), initialQuery: query });
+	}
+
+	async clearFrecency(): Promise<void> {
+		this.frecency.clear();
+		await this.persistState();
+		new Notice("OmniSwitch ranking history cleared.");
+	}
+
 	async rebuildIndex(): Promise<void> {
 		await this.ensureSearchInitialized();
 		await this.search?.rebuild();
@@ -163,6 +302,8 @@ export default class OmniSwitchPlugin extends Plugin {
 			initialSettings: this.settings,
 			journal,
 			createNotice: (message) => new Notice(message),
+			frecency: this.frecency,
+			providers: this.providers,
 		});
 
 		await this.search.initialize();
@@ -185,14 +326,30 @@ export default class OmniSwitchPlugin extends Plugin {
 		if (raw && typeof raw === "object" && "settings" in (raw as Record<string, unknown>)) {
 			const record = raw as Record<string, unknown>;
 			this.settings = migrateSettings(record.settings);
+			this.frecency = new FrecencyStore(record.frecency, () => this.scheduleFrecencySave());
 			return;
 		}
 		this.settings = migrateSettings(raw);
+		this.frecency = new FrecencyStore(null, () => this.scheduleFrecencySave());
+	}
+
+	/**
+	 * Every selection records a visit; write them at most once per FRECENCY_SAVE_MS instead of each time
+	 */
+	private scheduleFrecencySave(): void {
+		if (this.frecencySaveTimer !== null) {
+			return;
+		}
+		this.frecencySaveTimer = window.setTimeout(() => {
+			this.frecencySaveTimer = null;
+			void this.persistState();
+		}, OmniSwitchPlugin.FRECENCY_SAVE_MS);
 	}
 
 	private async persistState(): Promise<void> {
 		const state: PersistedState = {
 			settings: this.settings,
+			frecency: this.frecency.toJSON(),
 		};
 		await this.saveData(state);
 	}
@@ -0,0 +1,85 @@
+import { FuzzySuggestModal, Notice, type App } from "obsidian";
+import type { SearchItem } from "../search";
+import { describeItem, type ActionContext, type BatchAction, type ItemAction } from "./registry";
+
+/**
+ * Secondary menu listing the actions available for one result.
+ */
+export class ActionMenuModal extends FuzzySuggestModal<ItemAction> {
+	constructor(
+		app: App,
+		private readonly item: SearchItem,
+		private readonly actions: ItemAction[],
+		private readonly context: ActionContext,
+	) {
+		super(app);
+		this.setPlaceholder(`Actions for ${describeItem(item)}`);
+		this.setInstructions([
+			{ command: "↑↓", purpose: "navigate" },
+			{ command: "enter", purpose: "run" },
+			{ command: "esc", purpose: "dismiss" },
+		]);
+	}
+
+	getItems(): ItemAction[] {
+		return this.actions;
+	}
+
+	getItemText(action: ItemAction): string {
+		return action.name;
+	}
+
+	onChooseItem(action: ItemAction): void {
+		void this.runAction(action);
+	}
+
+	private async runAction(action: ItemAction): Promise<void> {
+		try {
+			await action.run(this.item, this.context);
+		} catch (error) {
+			console.error(`[OmniSwitch] Actions: ${action.id} failed`, error);
+			new Notice(`${action.name} failed. Check console for details.`);
+		}
+	}
+}
+
+/**
+ * Menu of actions applied to every item of a multi-selection.
+ */
+export class BatchActionMenuModal extends FuzzySuggestModal<BatchAction> {
+	constructor(
+		app: App,
+		private readonly items: SearchItem[],
+		private readonly actions: BatchAction[],
+		private readonly context: ActionContext,
+	) {
+		super(app);
+		this.setPlaceholder(`Actions for ${items.length} selected items`);
+		this.setInstructions([
+			{ command: "↑↓", purpose: "navigate" },
+			{ command: "enter", purpose: "run" },
+			{ command: "esc", purpose: "dismiss" },
+		]);
+	}
+
+	getItems(): BatchAction[] {
+		return this.actions;
+	}
+
+	getItemText(action: BatchAction): string {
+		return action.name;
+	}
+
+	onChooseItem(action: BatchAction): void {
+		void this.runAction(action);
+	}
+
+	private async runAction(action: BatchAction): Promise<void> {
+		try {
+			await action.run(this.items, this.context);
+		} catch (error) {
+			console.error(`[OmniSwitch] Actions: ${action.id} failed`, error);
+			new Notice(`${action.name} failed. Check console for details.`);
+		}
+	}
+}
@@ -0,0 +1,369 @@
+import { Notice, Platform, TFile, TFolder, type App, type TAbstractFile, type WorkspaceLeaf } from "obsidian";
+import type { SearchItem } from "../search";
+import { getCommandManager, revealInFileExplorer } from "../obsidian-helpers";
+import { ConfirmModal, TextPromptModal } from "../prompt-modals";
+import { FolderPickerModal } from "../folder-picker-modal";
+import { isInside, joinPath, moveToFolder, relocate } from "./file-ops";
+import { generateItemLink, resolveLinkTarget, type LinkTarget } from "./links";
+import { ActionRegistry, addFrontmatterTag, formatMarkdownLink, formatWikiLink, type ActionContext, type BatchAction, type ItemAction, type SearchItemType } from "./registry";
+
+const LINKABLE: readonly SearchItemType[] = ["file", "heading", "block", "content", "tab"];
+const EMBEDDABLE: readonly SearchItemType[] = ["file", "heading", "block", "tab"];
+const MOVABLE: readonly SearchItemType[] = ["file", "folder"];
+
+/**
+ * Registry pre-filled with the built-in actions for every item type and for multi-selections.
+ */
+export function createDefaultActionRegistry(): ActionRegistry {
+	const registry = new ActionRegistry();
+	for (const action of defaultActions()) {
+		registry.register(action);
+	}
+	for (const action of defaultBatchActions()) {
+		registry.registerBatch(action);
+	}
+	return registry;
+}
+
+function defaultActions(): ItemAction[] {
+	return [
+		{
+			id: "open-split-right",
+			name: "Open to the right",
+			types: LINKABLE,
+			run: (item, { app }) => openInLeaf(app, item, app.workspace.getLeaf("split", "vertical")),
+		},
+		{
+			id: "open-split-down",
+			name: "Open below",
+			types: LINKABLE,
+			run: (item, { app }) => openInLeaf(app, item, app.workspace.getLeaf("split", "horizontal")),
+		},
+		{
+			id: "open-window",
+			name: "Open in new window",
+			types: LINKABLE,
+			isAvailable: () => Platform.isDesktopApp,
+			run: (item, { app }) => openInLeaf(app, item, app.workspace.getLeaf("window")),
+		},
+		{
+			id: "copy-wikilink",
+			name: "Copy wiki link",
+			types: LINKABLE,
+			run: (item, { app, sourcePath }) => withTarget(app, item, (target) => {
+				const linktext = app.metadataCache.fileToLinktext(target.file, sourcePath, true);
+				return copyToClipboard(formatWikiLink(linktext, target.subpath), "Wiki link copied");
+			}),
+		},
+		{
+			id: "copy-markdown-link",
+			name: "Copy Markdown link",
+			types: LINKABLE,
+			run: (item, { app, sourcePath }) => withTarget(app, item, (target) => {
+				const linkpath = app.metadataCache.fileToLinktext(target.file, sourcePath, false);
+				return copyToClipboard(formatMarkdownLink(target.display, linkpath, target.subpath), "Markdown link copied");
+			}),
+		},
+		{
+			id: "insert-link",
+			name: "Insert link at cursor",
+			types: LINKABLE,
+			isAvailable: (_item, { app }) => Boolean(app.workspace.activeEditor?.editor),
+			run: (item, context) => insertAtCursor(context, item, false),
+		},
+		{
+			id: "insert-embed",
+			name: "Embed at cursor",
+			types: EMBEDDABLE,
+			isAvailable: (_item, { app }) => Boolean(app.workspace.activeEditor?.editor),
+			run: (item, context) => insertAtCursor(context, item, true),
+		},
+		{
+			id: "reveal",
+			name: "Reveal in file explorer",
+			types: [...LINKABLE, "folder"],
+			run: (item, { app }) => {
+				const file = abstractFileOf(app, item);
+				if (file && !revealInFileExplorer(app, file)) {
+					new Notice("File explorer is not enabled.");
+				}
+			},
+		},
+		{
+			id: "rename",
+			name: "Rename…",
+			types: MOVABLE,
+			run: (item, { app }) => promptRename(app, item),
+		},
+		{
+			id: "move",
+			name: "Move to folder…",
+			types: MOVABLE,
+			run: (item, context) => {
+				const file = abstractFileOf(context.app, item);
+				if (file?.parent) {
+					pickMoveTarget(context, [file]);
+				}
+			},
+		},
+		{
+			id: "delete",
+			name: "Delete…",
+			types: MOVABLE,
+			isAvailable: (item) => !(item.type === "folder" && item.folder.isRoot()),
+			run: (item, { app }) => confirmDelete(app, item),
+		},
+		{
+			id: "close-tab",
+			name: "Close tab",
+			types: ["tab"],
+			run: (item) => {
+				if (item.type === "tab") {
+					item.leaf.detach();
+				}
+			},
+		},
+		{
+			id: "run-command",
+			name: "Run command",
+			types: ["command"],
+			run: (item, { app }) => {
+				if (item.type === "command") {
+					getCommandManager(app)?.executeCommandById(item.command.id);
+				}
+			},
+		},
+		{
+			id: "copy-command-id",
+			name: "Copy command ID",
+			types: ["command"],
+			run: (item) => item.type === "command" ? copyToClipboard(item.command.id, "Command ID copied") : undefined,
+		},
+		{
+			id: "copy-tag",
+			name: "Copy tag",
+			types: ["tag"],
+			run: (item) => item.type === "tag" ? copyToClipboard(`#${item.tag}`, "Tag copied") : undefined,
+		},
+		{
+			id: "copy-path",
+			name: "Copy path",
+			types: [...LINKABLE, "folder"],
+			run: (item, { app }) => {
+				const file = abstractFileOf(app, item);
+				return file ? copyToClipboard(file.path || "/", "Path copied") : undefined;
+			},
+		},
+	];
+}
+
+function defaultBatchActions(): BatchAction[] {
+	return [
+		{
+			id: "open-all",
+			name: "Open all in new tabs",
+			isAvailable: (items, { app }) => items.some((item) => resolveLinkTarget(app, item)),
+			run: async (items, { app }) => {
+				for (const item of items) {
+					if (resolveLinkTarget(app, item)) {
+						await openInLeaf(app, item, app.workspace.getLeaf("tab"));
+					}
+				}
+			},
+		},
+		{
+			id: "move-all",
+			name: "Move all to folder…",
+			run: (items, context) => pickMoveTarget(context, topLevelFilesOf(context.app, items)),
+		},
+		{
+			id: "add-tag",
+			name: "Add tag to all…",
+			isAvailable: (items, { app }) => markdownFilesOf(app, items).length > 0,
+			run: (items, { app }) => promptAddTag(app, items),
+		},
+		{
+			id: "copy-links",
+			name: "Copy as list of links",
+			isAvailable: (items, { app }) => items.some((item) => resolveLinkTarget(app, item)),
+			run: (items, { app, sourcePath }) => {
+				const links = items
+					.map((item) => generateItemLink(app, item, sourcePath))
+					.filter((link): link is string => link !== null);
+				return copyToClipboard(links.map((link) => `- ${link}`).join("\n"), `Copied ${links.length} links`);
+			},
+		},
+		{
+			id: "delete-all",
+			name: "Delete all…",
+			run: (items, { app }) => confirmBatchDelete(app, items),
+		},
+	];
+}
+
+function abstractFileOf(app: App, item: SearchItem): TAbstractFile | null {
+	if (item.type === "folder") {
+		return item.folder;
+	}
+	return resolveLinkTarget(app, item)?.file ?? null;
+}
+
+/**
+ * Distinct files and folders behind the items, leaving out anything inside another selected folder.
+ */
+function topLevelFilesOf(app: App, items: SearchItem[]): TAbstractFile[] {
+	const files = new Map<string, TAbstractFile>();
+	for (const item of items) {
+		const file = abstractFileOf(app, item);
+		if (file && !(file instanceof TFolder && file.isRoot())) {
+			files.set(file.path, file);
+		}
+	}
+	const folders = [...files.values()].filter((file): file is TFolder => file instanceof TFolder);
+	return [...files.values()].filter((file) => !folders.some((folder) => folder !== file && file.path.startsWith(`${folder.path}/`)));
+}
+
+function markdownFilesOf(app: App, items: SearchItem[]): TFile[] {
+	return topLevelFilesOf(app, items).filter((file): file is TFile => file instanceof TFile && file.extension === "md");
+}
+
+function withTarget(app: App, item: SearchItem, fn: (target: LinkTarget) => void | Promise<void>): void | Promise<void> {
+	const target = resolveLinkTarget(app, item);
+	if (!target) {
+		new Notice("This item has no file to link to.");
+		return;
+	}
+	return fn(target);
+}
+
+async function openInLeaf(app: App, item: SearchItem, leaf: WorkspaceLeaf): Promise<void> {
+	const target = resolveLinkTarget(app, item);
+	if (!target) {
+		leaf.detach();
+		return;
+	}
+	const eState = target.eState ?? (target.subpath ? { subpath: target.subpath } : undefined);
+	await leaf.openFile(target.file, eState ? { eState } : undefined);
+	app.workspace.setActiveLeaf(leaf, { focus: true });
+}
+
+async function copyToClipboard(text: string, message: string): Promise<void> {
+	try {
+		await navigator.clipboard.writeText(text);
+		new Notice(message);
+	} catch (error) {
+		console.error("[OmniSwitch] Actions: clipboard write failed", error);
+		new Notice("Could not copy to the clipboard.");
+	}
+}
+
+/**
+ * Insert a link using the vault's link preferences (wiki vs markdown, link format).
+ */
+function insertAtCursor({ app, sourcePath }: ActionContext, item: SearchItem, embed: boolean): void {
+	const editor = app.workspace.activeEditor?.editor;
+	const link = generateItemLink(app, item, sourcePath, { embed });
+	if (!editor || !link) {
+		new Notice("No active editor to insert into.");
+		return;
+	}
+	editor.replaceSelection(link);
+	editor.focus();
+}
+
+function promptRename(app: App, item: SearchItem): void {
+	const file = abstractFileOf(app, item);
+	if (!file || !file.parent) {
+		return;
+	}
+	const parent = file.parent;
+	const isFile = file instanceof TFile;
+	const current = isFile ? file.basename : file.name;
+	new TextPromptModal(app, `Rename ${isFile ? "file" : "folder"}`, current, async (name) => {
+		if (name === current) {
+			return;
+		}
+		const fileName = isFile ? `${name}.${file.extension}` : name;
+		await relocate(app, file, joinPath(parent, fileName));
+	}, "Rename").open();
+}
+
+/**
+ * Let the user choose a destination folder: the switcher's folder mode when available, else a plain picker.
+ */
+function pickMoveTarget(context: ActionContext, files: TAbstractFile[]): void {
+	if (files.length === 0) {
+		return;
+	}
+	if (context.moveFiles) {
+		context.moveFiles(files);
+		return;
+	}
+	const folders = files.filter((file): file is TFolder => file instanceof TFolder);
+	new FolderPickerModal(
+		context.app,
+		async (folder) => {
+			await moveToFolder(context.app, files, folder);
+		},
+		files.length === 1 ? `Move "${files[0].name}" to…` : `Move ${files.length} items to…`,
+		(folder) => (files.length === 1 && folder === files[0].parent) || folders.some((selected) => isInside(folder, selected)),
+	).open();
+}
+
+function promptAddTag(app: App, items: SearchItem[]): void {
+	const files = markdownFilesOf(app, items);
+	new TextPromptModal(app, `Add tag to ${files.length} notes`, "", async (value) => {
+		const tag = value.replace(/^#/, "");
+		if (!tag || /[\s#]/.test(tag)) {
+			new Notice(`"${value}" is not a valid tag.`);
+			return;
+		}
+		for (const file of files) {
+			try {
+				await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+					frontmatter.tags = addFrontmatterTag(frontmatter.tags, tag);
+				});
+			} catch (error) {
+				console.error(`[OmniSwitch] Actions: failed to tag ${file.path}`, error);
+			}
+		}
+		new Notice(`Tagged ${files.length} notes with #${tag}.`);
+	}, "Add").open();
+}
+
+function confirmBatchDelete(app: App, items: SearchItem[]): void {
+	const files = topLevelFilesOf(app, items);
+	if (files.length === 0) {
+		return;
+	}
+	const names = files.slice(0, 5).map((file) => file.name).join(", ");
+	const message = `Delete ${files.length} items (${names}${files.length > 5 ? ", …" : ""})?`;
+	new ConfirmModal(app, "Delete", message, "Delete all", async () => {
+		for (const file of files) {
+			try {
+				await app.fileManager.trashFile(file);
+			} catch (error) {
+				console.error(`[OmniSwitch] Actions: failed to delete ${file.path}`, error);
+				new Notice(`Could not delete "${file.name}".`);
+			}
+		}
+	}).open();
+}
+
+function confirmDelete(app: App, item: SearchItem): void {
+	const file = abstractFileOf(app, item);
+	if (!file) {
+		return;
+	}
+	const message = file instanceof TFolder
+		? `Delete the folder "${file.path}" and everything in it?`
+		: `Delete "${file.path}"?`;
+	new ConfirmModal(app, "Delete", message, "Delete", async () => {
+		try {
+			await app.fileManager.trashFile(file);
+		} catch (error) {
+			console.error("[OmniSwitch] Actions: delete failed", error);
+			new Notice(`Could not delete "${file.name}".`);
+		}
+	}).open();
+}
@@ -0,0 +1,73 @@
+import { Notice, TFolder, normalizePath, type App, type TAbstractFile } from "obsidian";
+
+/**
+ * Rename or move through the file manager so links to the file are updated.
+ */
+export async function relocate(app: App, file: TAbstractFile, newPath: string): Promise<boolean> {
+	if (newPath === file.path) {
+		return false;
+	}
+	if (app.vault.getAbstractFileByPath(newPath)) {
+		new Notice(`"${newPath}" already exists.`);
+		return false;
+	}
+	try {
+		await app.fileManager.renameFile(file, newPath);
+		return true;
+	} catch (error) {
+		console.error("[OmniSwitch] Actions: rename failed", error);
+		new Notice(`Could not move "${file.name}".`);
+		return false;
+	}
+}
+
+/**
+ * Move files and folders into `folder`, skipping any already there; returns how many moved.
+ */
+export async function moveToFolder(app: App, files: TAbstractFile[], folder: TFolder): Promise<number> {
+	let moved = 0;
+	for (const file of files) {
+		if (file.parent !== folder && await relocate(app, file, joinPath(folder, file.name))) {
+			moved++;
+		}
+	}
+	const target = folder.isRoot() ? "/" : folder.path;
+	new Notice(files.length === 1 && moved === 1
+		? `Moved "${files[0].name}" to "${target}".`
+		: `Moved ${moved} of ${files.length} items to "${target}".`);
+	return moved;
+}
+
+/**
+ * Folder at `path`, creating it and any missing parents.
+ */
+export async function ensureFolder(app: App, path: string): Promise<TFolder> {
+	let current = "";
+	for (const segment of normalizePath(path).split("/").filter(Boolean)) {
+		current = current ? `${current}/${segment}` : segment;
+		const entry = app.vault.getAbstractFileByPath(current);
+		if (!entry) {
+			await app.vault.createFolder(current);
+		} else if (!(entry instanceof TFolder)) {
+			throw new Error(`"${current}" is a file, not a folder`);
+		}
+	}
+	const folder = current ? app.vault.getAbstractFileByPath(current) : app.vault.getRoot();
+	if (!(folder instanceof TFolder)) {
+		throw new Error(`Could not create folder "${path}"`);
+	}
+	return folder;
+}
+
+export function joinPath(folder: TFolder, name: string): string {
+	return normalizePath(folder.isRoot() ? name : `${folder.path}/${name}`);
+}
+
+export function isInside(folder: TFolder, ancestor: TFolder): boolean {
+	for (let current: TFolder | null = folder; current; current = current.parent) {
+		if (current === ancestor) {
+			return true;
+		}
+	}
+	return false;
+}
@@ -0,0 +1,5 @@
+export * from "./registry";
+export { createDefaultActionRegistry } from "./default-actions";
+export { ActionMenuModal, BatchActionMenuModal } from "./action-menu-modal";
+export { generateItemLink, resolveLinkTarget, type LinkTarget } from "./links";
+export { ensureFolder, isInside, moveToFolder } from "./file-ops";
@@ -0,0 +1,43 @@
+import { TFile, type App } from "obsidian";
+import type { SearchItem } from "../search";
+
+export interface LinkTarget {
+	file: TFile;
+	subpath: string; // "", "#Heading" or "#^block"
+	display: string;
+	eState?: Record<string, unknown>;
+}
+
+/**
+ * File (and heading/block subpath) an item points at, or null for items that aren't files.
+ */
+export function resolveLinkTarget(app: App, item: SearchItem): LinkTarget | null {
+	switch (item.type) {
+		case "file":
+			return { file: item.file, subpath: "", display: item.file.basename };
+		case "heading":
+			return { file: item.file, subpath: `#${item.heading.heading}`, display: item.heading.heading };
+		case "block":
+			return { file: item.file, subpath: `#^${item.blockId}`, display: item.file.basename };
+		case "content":
+			return { file: item.file, subpath: "", display: item.file.basename, eState: { line: item.line } };
+		case "tab": {
+			const file = app.vault.getAbstractFileByPath(item.path);
+			return file instanceof TFile ? { file, subpath: "", display: file.basename } : null;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Link text for an item following the vault's "use [[Wikilinks]]" and "new link format" preferences.
+ */
+export function generateItemLink(app: App, item: SearchItem, sourcePath: string, options: { alias?: string | null; embed?: boolean } = {}): string | null {
+	const target = resolveLinkTarget(app, item);
+	if (!target) {
+		return null;
+	}
+	const link = app.fileManager.generateMarkdownLink(target.file, sourcePath, target.subpath, options.alias ?? undefined);
+	return options.embed && !link.startsWith("!") ? `!${link}` : link;
+}
@@ -0,0 +1,156 @@
+// Action registry: contextual actions offered for a result (Tab in the switcher)
+
+import type { App, TAbstractFile } from "obsidian";
+import type { SearchItem } from "../search";
+
+export type SearchItemType = SearchItem["type"];
+
+export interface ActionContext {
+	app: App;
+	sourcePath: string; // note that was active when the menu opened; links are generated relative to it
+	moveFiles?: (files: TAbstractFile[]) => void; // opens the switcher's folder picker to move files
+}
+
+export interface ItemAction {
+	id: string;
+	name: string;
+	types: readonly SearchItemType[];
+	isAvailable?(item: SearchItem, context: ActionContext): boolean;
+	run(item: SearchItem, context: ActionContext): void | Promise<void>;
+}
+
+// Action applied to every item of a multi-selection
+export interface BatchAction {
+	id: string;
+	name: string;
+	isAvailable?(items: SearchItem[], context: ActionContext): boolean;
+	run(items: SearchItem[], context: ActionContext): void | Promise<void>;
+}
+
+/**
+ * Ordered set of item and batch actions. Registering an existing id replaces it in place.
+ */
+export class ActionRegistry {
+	private readonly actions = new Map<string, ItemAction>();
+	private readonly batchActions = new Map<string, BatchAction>();
+
+	/**
+	 * Add an action; returns a function that removes it again.
+	 */
+	register(action: ItemAction): () => void {
+		this.actions.set(action.id, action);
+		return () => {
+			if (this.actions.get(action.id) === action) {
+				this.actions.delete(action.id);
+			}
+		};
+	}
+
+	registerBatch(action: BatchAction): () => void {
+		this.batchActions.set(action.id, action);
+		return () => {
+			if (this.batchActions.get(action.id) === action) {
+				this.batchActions.delete(action.id);
+			}
+		};
+	}
+
+	get(id: string): ItemAction | undefined {
+		return this.actions.get(id);
+	}
+
+	getActions(item: SearchItem, context: ActionContext): ItemAction[] {
+		const result: ItemAction[] = [];
+		for (const action of this.actions.values()) {
+			if (!action.types.includes(item.type)) {
+				continue;
+			}
+			try {
+				if (action.isAvailable && !action.isAvailable(item, context)) {
+					continue;
+				}
+			} catch (error) {
+				console.error(`[OmniSwitch] Actions: availability check failed for ${action.id}`, error);
+				continue;
+			}
+			result.push(action);
+		}
+		return result;
+	}
+
+	getBatchActions(items: SearchItem[], context: ActionContext): BatchAction[] {
+		const result: BatchAction[] = [];
+		for (const action of this.batchActions.values()) {
+			try {
+				if (action.isAvailable && !action.isAvailable(items, context)) {
+					continue;
+				}
+			} catch (error) {
+				console.error(`[OmniSwitch] Actions: availability check failed for ${action.id}`, error);
+				continue;
+			}
+			result.push(action);
+		}
+		return result;
+	}
+}
+
+/**
+ * Short label for an item, used in the action menu placeholder.
+ */
+export function describeItem(item: SearchItem): string {
+	switch (item.type) {
+		case "file":
+			return item.file.path;
+		case "heading":
+			return `${item.file.basename} › ${item.heading.heading}`;
+		case "block":
+			return `${item.file.basename} › ^${item.blockId}`;
+		case "content":
+			return `${item.file.path}:${item.line + 1}`;
+		case "tab":
+			return item.title;
+		case "command":
+			return item.command.name;
+		case "folder":
+			return item.folder.path || "/";
+		case "tag":
+			return `#${item.tag}`;
+		case "create":
+			return item.path;
+		case "provider":
+			return item.result.title;
+	}
+}
+
+export function formatWikiLink(linktext: string, subpath = "", embed = false): string {
+	return `${embed ? "!" : ""}[[${linktext}${subpath}]]`;
+}
+
+/**
+ * Markdown link with the destination escaped so spaces and parentheses don't end it early.
+ */
+export function formatMarkdownLink(display: string, linkpath: string, subpath = "", embed = false): string {
+	const text = display.replace(/([[\]])/g, "\\$1");
+	return `${embed ? "!" : ""}[${text}](${encodeLinkDestination(linkpath + subpath)})`;
+}
+
+function encodeLinkDestination(destination: string): string {
+	return destination.replace(/[\s()<>%]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+}
+
+/**
+ * Frontmatter `tags` with `tag` added. Accepts the list form, a comma/space separated string, or nothing.
+ */
+export function addFrontmatterTag(existing: unknown, tag: string): string[] {
+	const tags = Array.isArray(existing)
+		? existing.filter((entry) => entry !== null && entry !== undefined).map(String)
+		: typeof existing === "string"
+			? existing.split(/[,\s]+/).filter(Boolean)
+			: [];
+	const clean = tag.replace(/^#/, "");
+	if (!tags.some((entry) => entry.replace(/^#/, "").toLowerCase() === clean.toLowerCase())) {
+		tags.push(clean);
+	}
+	return tags;
+}
@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal, TFolder } from "obsidian";
+
+/**
+ * Fuzzy picker over every vault folder.
+ */
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+	constructor(
+		app: App,
+		private readonly onChoose: (folder: TFolder) => void | Promise<void>,
+		placeholder = "Choose a folder",
+		private readonly exclude: (folder: TFolder) => boolean = () => false,
+	) {
+		super(app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFolder[] {
+		const folders: TFolder[] = [];
+		for (const entry of this.app.vault.getAllLoadedFiles()) {
+			if (entry instanceof TFolder && !this.exclude(entry)) {
+				folders.push(entry);
+			}
+		}
+		return folders.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		void this.onChoose(folder);
+	}
+}
@@ -1,4 +1,4 @@
-import type { App, Command } from "obsidian";
+import type { App, Command, Hotkey, TAbstractFile } from "obsidian";
 
 export interface CommandManagerLike {
 	listCommands(): Command[];
@@ -9,3 +9,63 @@ export function getCommandManager(app: App): CommandManagerLike | null {
 	const manager = (app as unknown as { commands?: CommandManagerLike }).commands;
 	return manager ?? null;
 }
+
+interface PluginRegistryLike {
+	manifests?: Record<string, { name?: string }>;
+}
+
+interface InternalPluginRegistryLike {
+	plugins?: Record<string, { instance?: { name?: string } }>;
+}
+
+interface HotkeyManagerLike {
+	getHotkeys?(id: string): Hotkey[] | undefined;
+	getDefaultHotkeys?(id: string): Hotkey[] | undefined;
+}
+
+/**
+ * Name of the core or community plugin that registered a command (ids are "<plugin>:<command>").
+ */
+export function getCommandSource(app: App, commandId: string): string | null {
+	const colon = commandId.indexOf(":");
+	if (colon <= 0) {
+		return null;
+	}
+	const pluginId = commandId.slice(0, colon);
+	const plugins = (app as unknown as { plugins?: PluginRegistryLike }).plugins;
+	const community = plugins?.manifests?.[pluginId]?.name;
+	if (community) {
+		return community;
+	}
+	const internal = (app as unknown as { internalPlugins?: InternalPluginRegistryLike }).internalPlugins;
+	return internal?.plugins?.[pluginId]?.instance?.name ?? null;
+}
+
+/**
+ * Hotkeys bound to a command: the user's own bindings, else the command's defaults.
+ */
+export function getCommandHotkeys(app: App, commandId: string): Hotkey[] {
+	const manager = (app as unknown as { hotkeyManager?: HotkeyManagerLike }).hotkeyManager;
+	const custom = manager?.getHotkeys?.(commandId);
+	if (custom && custom.length > 0) {
+		return custom;
+	}
+	return manager?.getDefaultHotkeys?.(commandId) ?? [];
+}
+
+interface FileExplorerLike {
+	revealInFolder?(file: TAbstractFile): void;
+}
+
+/**
+ * Reveal a file or folder in the core file explorer. Returns false when the explorer is disabled.
+ */
+export function revealInFileExplorer(app: App, file: TAbstractFile): boolean {
+	const internal = (app as unknown as { internalPlugins?: { getPluginById?(id: string): { instance?: FileExplorerLike } | null } }).internalPlugins;
+	const explorer = internal?.getPluginById?.("file-explorer")?.instance;
+	if (!explorer || typeof explorer.revealInFolder !== "function") {
+		return false;
+	}
+	explorer.revealInFolder(file);
+	return true;
+}
@@ -1,5 +1,6 @@
 import {
 	App,
+	Editor,
 	FileView,
 	FuzzyMatch,
 	FuzzySuggestModal,
@@ -8,20 +9,40 @@ import {
 	TFile,
 	TFolder,
 	WorkspaceLeaf,
+	normalizePath,
+	type TAbstractFile,
 	prepareFuzzySearch,
+	renderMatches,
 	type Instruction,
 	type SearchResult,
 } from "obsidian";
-import { SearchCoordinator } from "./search";
-import type { SearchHit, SearchItem, HeadingSearchItem, FileSearchItem, FolderSearchItem } from "./search";
+import { SearchCoordinator, providerIdOf, type OmniSwitchProvider, type ProviderRegistry, type ProviderResult } from "./search";
+import type { MatchRange } from "./search/types";
+import { highlightRanges } from "./search/highlight";
+import { EVERYTHING_GROUPS, everythingGroupOf } from "./search/everything";
+import { frecencyKey } from "./search/frecency";
+import type { DefaultMode } from "./settings";
+import type { SearchHit, SearchItem, HeadingSearchItem, FileSearchItem, FolderSearchItem, TagSearchItem, ContentSearchItem, BlockSearchItem, TabSearchItem, CreateSearchItem } from "./search";
 import { getCommandManager } from "./obsidian-helpers";
+import { PreviewPane } from "./preview-pane";
+import { isUriOpenable } from "./uri";
+import { ActionMenuModal, BatchActionMenuModal, ensureFolder, generateItemLink, isInside, moveToFolder, type ActionRegistry } from "./actions";
 import {
+	applyTemplateVariables,
 	collectFileLeaves,
+	collectOpenTabs,
 	detectPrefix,
+	FILTERABLE_MODES,
 	getLeafFilePath,
 	isNoteExtension,
+	itemKey,
 	matchesAttachmentExtension,
+	parseQuery,
 	resolveAttachmentCategory,
+	resolveNewFolderPath,
+	resolveNewNotePath,
+	splitLinkAlias,
+	type QueryFilter,
 	type OmniSwitchMode,
 	type PrefixDetectionResult,
 } from "./search/utils";
@@ -31,16 +52,58 @@ export interface OmniSwitchModalOptions {
 	extensionFilter?: string | null;
 	initialQuery?: string;
 	initialDirectoryTrail?: string[];
+	showPreview?: boolean;
+	onPreviewToggled?: (visible: boolean) => void;
+	actions?: ActionRegistry;
+	insertLink?: LinkInsertionTarget;
+	newNoteFolder?: string;
+	newNoteTemplate?: string;
+	moveFiles?: TAbstractFile[]; // open as a folder picker that moves these files
+	onMoveFiles?: (files: TAbstractFile[]) => void;
+	providers?: ProviderRegistry;
+	defaultMode?: DefaultMode; // mode to open in and return to on Escape/Backspace
+}
+
+// Editor that chosen items are linked into instead of being opened
+export interface LinkInsertionTarget {
+	editor: Editor;
+	sourcePath: string;
+}
+
+// Engine hits keep their match info so rows can be highlighted when rendered
+interface HitSearchResult extends SearchResult {
+	titleMatches?: MatchRange[];
+	terms?: string[];
 }
 
 export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 	private mode: OmniSwitchMode;
+	private readonly defaultMode: DefaultMode;
 	private extensionFilter: string | null;
 	private readonly initialQuery: string;
 	private isProgrammaticInput = false;
 	private pendingNewLeaf = false;
 	private directoryStack: TFolder[] = [];
+	private tagStack: string[] = [];
 	private modeLabelEl: HTMLSpanElement | null = null;
+	private filterChipsEl: HTMLDivElement | null = null;
+	private selectionBadgeEl: HTMLSpanElement | null = null;
+	// Multi-selection (Shift+Space), kept across queries and modes
+	private readonly selection = new Map<string, SearchItem>();
+	private preview: PreviewPane | null = null;
+	private previewVisible: boolean;
+	private previewTimer: number | null = null;
+	private readonly onPreviewToggled?: (visible: boolean) => void;
+	private readonly actions: ActionRegistry | null;
+	private readonly insertLink: LinkInsertionTarget | null;
+	private readonly newNoteFolder: string;
+	private readonly newNoteTemplate: string;
+	private readonly moveFiles: TAbstractFile[] | null;
+	private readonly onMoveFiles?: (files: TAbstractFile[]) => void;
+	private readonly providers: ProviderRegistry | null;
+	// First row of each section in everything mode -> section header
+	private readonly groupHeaders = new Map<SearchItem, string>();
+    private static readonly PREVIEW_DEBOUNCE_MS = 50;
 	private clearButtonObserver: MutationObserver | null = null;
     private refreshTimer: number | null = null;
     private statusTimer: number | null = null;
@@ -91,6 +154,14 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 	private readonly handleKeyDown = (event: KeyboardEvent): void => {
 		const key = event.key.toLowerCase();
 
+		if (this.mode === "tabs" && this.isNewLeafShortcut(event)) {
+			event.preventDefault();
+			event.stopPropagation();
+			event.stopImmediatePropagation?.();
+			this.closeSelectedTab();
+			return;
+		}
+
 		if (this.isNewLeafShortcut(event)) {
 			this.pendingNewLeaf = true;
 			event.preventDefault();
@@ -111,7 +182,17 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 				this.exitDirectoryLevel(true);
 				return;
 			}
-			if ((this.mode !== "files" || this.extensionFilter)
+			if (this.mode === "tags"
+				&& this.inputEl.selectionStart === 0
+				&& this.inputEl.selectionEnd === 0
+				&& this.inputEl.value.length === 0) {
+				event.preventDefault();
+				event.stopPropagation();
+				event.stopImmediatePropagation?.();
+				this.exitTagLevel(true);
+				return;
+			}
+			if ((this.mode !== this.defaultMode || this.extensionFilter)
 				&& this.inputEl.selectionStart === 0
 				&& this.inputEl.selectionEnd === 0
 				&& this.inputEl.value.length === 0) {
@@ -123,6 +204,41 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			}
 		}
 
+		if (event.key === "Enter" && event.shiftKey && !event.ctrlKey && !event.metaKey && !event.altKey) {
+			const create = this.getCreateNoteItem(this.currentQuery());
+			if (create) {
+				event.preventDefault();
+				event.stopPropagation();
+				event.stopImmediatePropagation?.();
+				this.close();
+				void this.createNote(create.path, false);
+				return;
+			}
+		}
+
+		if (event.code === "Space" && event.shiftKey && !event.ctrlKey && !event.metaKey && !event.altKey && this.toggleSelectedItem()) {
+			event.preventDefault();
+			event.stopPropagation();
+			event.stopImmediatePropagation?.();
+			return;
+		}
+
+		if (event.key === "Tab" && !event.shiftKey && !event.ctrlKey && !event.metaKey && !event.altKey && this.actions) {
+			event.preventDefault();
+			event.stopPropagation();
+			event.stopImmediatePropagation?.();
+			this.openActionMenu();
+			return;
+		}
+
+		if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === "KeyP") {
+			event.preventDefault();
+			event.stopPropagation();
+			event.stopImmediatePropagation?.();
+			this.togglePreview();
+			return;
+		}
+
 		if (event.ctrlKey && !event.metaKey && !event.altKey) {
 			if (key === "j") {
 				event.preventDefault();
@@ -140,7 +256,7 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			}
 		}
 
-		if (event.key === "Escape" && (this.mode !== "files" || this.extensionFilter)) {
+		if (event.key === "Escape" && !this.moveFiles && (this.mode !== this.defaultMode || this.extensionFilter)) {
 			event.preventDefault();
 			event.stopPropagation();
 			event.stopImmediatePropagation?.();
@@ -151,9 +267,19 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 
 	constructor(app: App, private readonly search: SearchCoordinator, options: OmniSwitchModalOptions = {}) {
 		super(app);
-		this.mode = options.initialMode ?? "files";
+		this.moveFiles = options.moveFiles && options.moveFiles.length > 0 ? options.moveFiles : null;
+		this.defaultMode = options.defaultMode ?? "files";
+		this.mode = this.moveFiles ? "directories" : options.initialMode ?? this.defaultMode;
 		this.extensionFilter = options.extensionFilter ?? null;
 		this.initialQuery = options.initialQuery ?? "";
+		this.previewVisible = options.showPreview ?? false;
+		this.onPreviewToggled = options.onPreviewToggled;
+		this.actions = options.actions ?? null;
+		this.insertLink = options.insertLink ?? null;
+		this.newNoteFolder = options.newNoteFolder ?? "";
+		this.newNoteTemplate = options.newNoteTemplate ?? "";
+		this.onMoveFiles = options.onMoveFiles;
+		this.providers = options.providers ?? null;
 		if (this.mode === "directories") {
 			this.initializeDirectoryTrail(options.initialDirectoryTrail);
 		}
@@ -164,6 +290,7 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		this.modalEl.classList.add("omniswitch-modal");
 		this.removeCloseButton();
 		this.setupInputChrome();
+		this.setupPreviewPane();
 
 		// Status ribbon
 		this.statusEl = this.contentEl.createDiv({ cls: "omniswitch-status" });
@@ -193,6 +320,9 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		this.clearButtonObserver?.disconnect();
 		this.clearButtonObserver = null;
         if (this.statusTimer) { window.clearInterval(this.statusTimer); this.statusTimer = null; }
+		if (this.previewTimer !== null) { window.clearTimeout(this.previewTimer); this.previewTimer = null; }
+		this.preview?.destroy();
+		this.preview = null;
 		super.onClose();
 	}
 
@@ -202,11 +332,32 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 
 	getSuggestions(query: string): FuzzyMatch<SearchItem>[] {
 		const t0 = performance.now();
+		if (this.insertLink) {
+			query = splitLinkAlias(query).query;
+		}
+		this.updateFilterChips(query);
+		this.schedulePreview();
+		this.groupHeaders.clear();
 
 		if (this.mode === "directories") {
 			const matches = this.getDirectorySuggestions(query);
 			const limit = this.search.getMaxResults ? this.search.getMaxResults() : 20;
-			return matches.slice(0, limit);
+			if (this.moveFiles) {
+				return this.withMoveTargets(query, matches, limit);
+			}
+			return matches.length > 0 ? this.withFrecency(matches, query.trim().length > 0).slice(0, limit) : this.createNoteSuggestions(query);
+		}
+
+		if (this.mode === "tags") {
+			const matches = this.getTagSuggestions(query);
+			const limit = this.search.getMaxResults ? this.search.getMaxResults() : 20;
+			return this.withFrecency(matches, query.trim().length > 0).slice(0, limit);
+		}
+
+		if (this.mode === "tabs") {
+			const matches = this.getTabSuggestions(query);
+			const limit = this.search.getMaxResults ? this.search.getMaxResults() : 20;
+			return this.withFrecency(matches, query.trim().length > 0).slice(0, limit);
 		}
 
 		const normalizedQuery = query.trim();
@@ -220,6 +371,10 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			return suggestions;
 		}
 
+		if (this.mode === "everything") {
+			return this.getEverythingSuggestions(query);
+		}
+
 		console.log(`[Modal] ${this.mode} mode: Starting search for "${normalizedQuery}"`);
 		const tSearch0 = performance.now();
 		const hits = this.search.search(this.mode, normalizedQuery, this.extensionFilter);
@@ -236,8 +391,8 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			}
 			return true;
 		});
-		if (hits.length === 0) {
-			return [];
+		if (filtered.length === 0) {
+			return this.createNoteSuggestions(query);
 		}
 
 		const tSort0 = performance.now();
@@ -267,6 +422,27 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		return results;
 	}
 
+	/**
+	 * Hits come back grouped (notes, headings, commands) and already ordered, so they are not re-sorted here;
+	 * the first row of each group gets a section header.
+	 */
+	private getEverythingSuggestions(query: string): FuzzyMatch<SearchItem>[] {
+		const hits = this.search.search("everything", query.trim(), null).filter((hit) =>
+			hit.item.type !== "file" || isNoteExtension(hit.item.file.extension));
+		if (hits.length === 0) {
+			return this.createNoteSuggestions(query);
+		}
+		let previous: string | null = null;
+		for (const hit of hits) {
+			const group = everythingGroupOf(hit.item);
+			if (group && group !== previous) {
+				this.groupHeaders.set(hit.item, EVERYTHING_GROUPS.find((entry) => entry.id === group)?.label ?? group);
+			}
+			previous = group;
+		}
+		return hits.map((hit) => this.toFuzzyMatch(hit));
+	}
+
     private scheduleRefreshSuggestions(): void {
         const delay = this.mode === "headings" ? OmniSwitchModal.DEBOUNCE_MS_HEADINGS : OmniSwitchModal.DEBOUNCE_MS_FILES;
 
@@ -319,6 +495,31 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
         }, delay);
     }
 
+	/**
+	 * Frecency for lists the modal builds itself. Notes and tabs are re-ranked within the rows they already
+	 * hold, so folders and tags stay put; in a `ranked` list position is the relevance, otherwise all tie.
+	 */
+	private withFrecency(matches: FuzzyMatch<SearchItem>[], ranked: boolean): FuzzyMatch<SearchItem>[] {
+		const slots: number[] = [];
+		matches.forEach((entry, index) => {
+			if (frecencyKey(entry.item) !== null) slots.push(index);
+		});
+		if (slots.length < 2) {
+			return matches;
+		}
+		const rows = slots.map((index, rank) => ({
+			item: matches[index]!.item,
+			score: ranked ? 1 - rank / slots.length : 1,
+			entry: matches[index]!,
+		}));
+		const blended = this.search.rankByFrecency(rows);
+		const result = [...matches];
+		slots.forEach((index, rank) => {
+			result[index] = blended[rank]!.entry;
+		});
+		return result;
+	}
+
 	private getDirectorySuggestions(query: string): FuzzyMatch<SearchItem>[] {
 		const candidates = this.getDirectoryCandidates();
 		if (candidates.length === 0) {
@@ -356,6 +557,90 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		return matches;
 	}
 
+	private getTagSuggestions(query: string): FuzzyMatch<SearchItem>[] {
+		const candidates = this.getTagCandidates();
+		const normalizedQuery = query.trim();
+		if (normalizedQuery.length === 0) {
+			return candidates.map((item) => ({ item, match: this.emptyMatch() }));
+		}
+
+		const fuzzy = prepareFuzzySearch(normalizedQuery);
+		const matches: FuzzyMatch<SearchItem>[] = [];
+		for (const item of candidates) {
+			const text = item.type === "file" ? item.file.basename : this.getItemText(item);
+			const match = fuzzy(text);
+			if (match) {
+				matches.push({ item, match });
+			}
+		}
+		matches.sort((a, b) => {
+			const priorityDiff = this.getDirectoryItemPriority(a.item) - this.getDirectoryItemPriority(b.item);
+			if (priorityDiff !== 0) {
+				return priorityDiff;
+			}
+			const scoreDiff = b.match.score - a.match.score;
+			if (scoreDiff !== 0) {
+				return scoreDiff;
+			}
+			return this.getItemText(a.item).localeCompare(this.getItemText(b.item));
+		});
+		return matches;
+	}
+
+	/**
+	 * Open tabs are read live from the workspace; ties keep most-recently-used order.
+	 */
+	private getTabSuggestions(query: string): FuzzyMatch<SearchItem>[] {
+		const candidates: TabSearchItem[] = collectOpenTabs(this.app).map((entry) => ({
+			type: "tab",
+			leaf: entry.leaf,
+			path: entry.path,
+			title: entry.leaf.getDisplayText(),
+			location: entry.location,
+		}));
+		const normalizedQuery = query.trim();
+		if (normalizedQuery.length === 0) {
+			return candidates.map((item) => ({ item, match: this.emptyMatch() }));
+		}
+
+		const fuzzy = prepareFuzzySearch(normalizedQuery);
+		const matches: FuzzyMatch<SearchItem>[] = [];
+		for (const item of candidates) {
+			const match = fuzzy(item.title) ?? fuzzy(item.path);
+			if (match) {
+				matches.push({ item, match });
+			}
+		}
+		return matches.sort((a, b) => b.match.score - a.match.score);
+	}
+
+	/**
+	 * At the root: every tag. Inside a tag: the tags one level below it (counts include their own nested
+	 * tags), then the notes using it.
+	 */
+	private getTagCandidates(): SearchItem[] {
+		const allTags = this.search.getTags();
+		const current = this.getCurrentTag();
+		if (!current) {
+			return allTags;
+		}
+		const prefix = `${current.toLowerCase()}/`;
+		const children: SearchItem[] = allTags.filter((item) => {
+			const tag = item.tag.toLowerCase();
+			return tag.startsWith(prefix) && !tag.includes("/", prefix.length);
+		});
+		const files = this.search.getFilesForTag(current)
+			.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
+		return [...children, ...files];
+	}
+
+	private getCurrentTag(): string | null {
+		if (this.tagStack.length === 0) {
+			return null;
+		}
+		return this.tagStack[this.tagStack.length - 1] ?? null;
+	}
+
 	getItemText(item: SearchItem): string {
 		switch (item.type) {
 			case "file":
@@ -366,6 +651,18 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 				return `${item.file.path}#${item.heading.heading}`;
 			case "folder":
 				return this.folderPath(item.folder);
+			case "tag":
+				return `#${item.tag}`;
+			case "content":
+				return `${item.file.path}:${item.line + 1}`;
+			case "block":
+				return `${item.file.path}#^${item.blockId}`;
+			case "tab":
+				return item.path;
+			case "create":
+				return item.path;
+			case "provider":
+				return item.result.title;
 		}
 	}
 
@@ -385,6 +682,9 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		if (item.type === "folder") {
 			return 0;
 		}
+		if (item.type === "tag") {
+			return 0;
+		}
 		if (item.type === "file") {
 			return 1;
 		}
@@ -392,6 +692,16 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 	}
 
 	private getDirectoryCandidates(): SearchItem[] {
+		const candidates = this.collectDirectoryCandidates();
+		if (!this.moveFiles) {
+			return candidates;
+		}
+		// Picking a destination: folders only, and not the moved folders themselves
+		const moving = this.moveFiles.filter((file): file is TFolder => file instanceof TFolder);
+		return candidates.filter((item) => item.type === "folder" && !moving.some((folder) => isInside(item.folder, folder)));
+	}
+
+	private collectDirectoryCandidates(): SearchItem[] {
 		const allItems = this.getItems();
 		if (this.directoryStack.length === 0) {
 			const rootPath = "/";
@@ -494,8 +804,27 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 
 	renderSuggestion(result: FuzzyMatch<SearchItem>, el: HTMLElement): void {
 		const item = result.item;
+		const hitResult = result.match as HitSearchResult;
 		el.empty();
 		el.addClass("omniswitch-suggestion");
+		el.toggleClass("omniswitch-suggestion--selected", this.selection.size > 0 && this.selection.has(itemKey(item)));
+		const groupHeader = this.groupHeaders.get(item);
+		if (groupHeader) {
+			el.createDiv({ cls: "omniswitch-group-header", text: groupHeader });
+		}
+
+		if (item.type === "provider") {
+			const provider = this.providers?.get(item.providerId);
+			if (provider?.render) {
+				try {
+					provider.render(item.result, el);
+					return;
+				} catch (error) {
+					console.error(`[OmniSwitch] Provider "${item.providerId}" render failed`, error);
+					el.empty();
+				}
+			}
+		}
 
 		const container = el.createDiv({ cls: "omniswitch-suggestion__content" });
 		const textWrapper = container.createDiv({ cls: "omniswitch-suggestion__text" });
@@ -505,30 +834,71 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 
 		switch (item.type) {
 			case "file": {
-				title.setText(item.file.basename);
+				this.setMatchedText(title, item.alias ? `${item.alias} → ${item.file.basename}` : item.file.basename, hitResult, hitResult.titleMatches);
 				if (this.mode === "directories") {
 					subtitle.empty();
 					subtitle.addClass("omniswitch-suggestion__subtitle--hidden");
 				} else {
-					subtitle.setText(this.getDirectoryLabel(item.file));
+					this.setMatchedText(subtitle, this.getDirectoryLabel(item.file), hitResult);
 				}
 				break;
 			}
 			case "command": {
-				title.setText(item.command.name);
+				this.setMatchedText(title, item.command.name, hitResult, hitResult.titleMatches);
 				subtitle.empty();
 				subtitle.addClass("omniswitch-suggestion__subtitle--hidden");
 				break;
 			}
 			case "heading": {
-				title.setText(item.heading.heading);
-				subtitle.setText(item.file.path);
+				this.setMatchedText(title, item.heading.heading, hitResult, hitResult.titleMatches);
+				this.setMatchedText(subtitle, item.file.path, hitResult);
 				break;
 			}
 			case "folder": {
-				title.setText(`📂  ${this.getFolderTitle(item.folder)}`);
+				title.setText(this.moveFiles && item.folder === this.moveDestination()
+					? `Move to "${this.formatFolderDisplayPath(item.folder)}"`
+					: `📂  ${this.getFolderTitle(item.folder)}`);
+				subtitle.empty();
+				subtitle.addClass("omniswitch-suggestion__subtitle--hidden");
+				break;
+			}
+			case "tag": {
+				title.setText(`#${item.tag}`);
 				subtitle.empty();
 				subtitle.addClass("omniswitch-suggestion__subtitle--hidden");
+				container.createDiv({ cls: "omniswitch-suggestion__count", text: String(item.count) });
+				break;
+			}
+			case "content": {
+				this.setMatchedText(title, item.snippet, hitResult);
+				subtitle.setText(`${item.file.path}:${item.line + 1}`);
+				break;
+			}
+			case "block": {
+				this.setMatchedText(title, item.text || `^${item.blockId}`, hitResult, hitResult.titleMatches);
+				this.setMatchedText(subtitle, `${item.file.path}#^${item.blockId}`, hitResult);
+				break;
+			}
+			case "tab": {
+				title.setText(item.title);
+				subtitle.setText(item.path);
+				container.createDiv({ cls: "omniswitch-suggestion__meta", text: item.location });
+				break;
+			}
+			case "provider": {
+				this.setMatchedText(title, item.result.title, hitResult, hitResult.titleMatches);
+				if (item.result.subtitle) {
+					subtitle.setText(item.result.subtitle);
+				} else {
+					subtitle.addClass("omniswitch-suggestion__subtitle--hidden");
+				}
+				break;
+			}
+			case "create": {
+				const name = item.path.slice(item.path.lastIndexOf("/") + 1);
+				title.setText(item.kind === "folder" ? `Create folder "${name}"` : `Create note "${name.replace(/\.md$/i, "")}"`);
+				subtitle.setText(item.path);
+				container.createDiv({ cls: "omniswitch-suggestion__meta", text: "new" });
 				break;
 			}
 		}
@@ -539,15 +909,54 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		}
 	}
 
+	/**
+	 * Render text with matches highlighted: engine-reported ranges when given, else ranges of the matched terms.
+	 * Only rendered rows pay for this, so at most `maxResults` per query.
+	 */
+	private setMatchedText(el: HTMLElement, text: string, hitResult: HitSearchResult, engineMatches?: MatchRange[]): void {
+		const ranges = engineMatches ?? (hitResult.terms ? highlightRanges(text, hitResult.terms) : []);
+		if (ranges.length === 0) {
+			el.setText(text);
+			return;
+		}
+		el.empty();
+		renderMatches(el, text, ranges);
+	}
+
 	selectSuggestion(result: FuzzyMatch<SearchItem>, evt: MouseEvent | KeyboardEvent): void {
 		if (this.mode === "directories" && result.item.type === "folder") {
+			const moveNow = this.pendingNewLeaf || (evt instanceof KeyboardEvent && this.isNewLeafShortcut(evt));
 			this.pendingNewLeaf = false;
+			if (this.moveFiles && (moveNow || result.item.folder === this.moveDestination())) {
+				this.close();
+				void this.moveInto(result.item.folder);
+				return;
+			}
 			this.enterDirectory(result.item.folder);
 			return;
 		}
+		if (this.mode === "tags" && result.item.type === "tag") {
+			this.pendingNewLeaf = false;
+			this.enterTag(result.item);
+			return;
+		}
 		super.selectSuggestion(result, evt);
 	}
 
+	/**
+	 * Open the best match for the initial query without showing the switcher (deep links with open=first).
+	 * Returns false when nothing navigable matched; commands, provider actions, folders, tags and
+	 * "create note" rows are never chosen unattended.
+	 */
+	async openFirstResult(): Promise<boolean> {
+		const first = this.getSuggestions(this.initialQuery).find(({ item }) => isUriOpenable(item));
+		if (!first) {
+			return false;
+		}
+		await this.onChooseItem(first.item, new KeyboardEvent("keydown", { key: "Enter" }));
+		return true;
+	}
+
 	async onChooseItem(item: SearchItem, evt: MouseEvent | KeyboardEvent): Promise<void> {
 		if (item.type === "folder") {
 			this.pendingNewLeaf = false;
@@ -559,7 +968,32 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			return;
 		}
 
+		if (item.type === "tag") {
+			this.pendingNewLeaf = false;
+			if (this.mode === "tags") {
+				this.enterTag(item);
+			} else {
+				new Notice("Tag navigation is only available in tag mode.");
+			}
+			return;
+		}
+
 		const openInNewPane = this.shouldOpenInNewLeaf(evt, item);
+		if (item.type === "create") {
+			if (item.kind === "folder") {
+				await this.createFolderAndMove(item.path);
+			} else {
+				await this.createNote(item.path, openInNewPane);
+			}
+			return;
+		}
+		if (!(item.type === "tab" && openInNewPane)) {
+			this.search.recordSelection(item);
+		}
+
+		if (this.insertLink && this.insertLinkFor(item)) {
+			return;
+		}
 
 		switch (item.type) {
 			case "file":
@@ -571,6 +1005,22 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			case "heading":
 				await this.openHeading(item, openInNewPane);
 				break;
+			case "content":
+				await this.openContentMatch(item, openInNewPane);
+				break;
+			case "block":
+				await this.openBlock(item, openInNewPane);
+				break;
+			case "tab":
+				if (openInNewPane) {
+					item.leaf.detach();
+				} else {
+					await this.focusLeaf(item.leaf);
+				}
+				break;
+			case "provider":
+				await this.chooseProviderResult(item.providerId, item.result, evt);
+				break;
 			default:
 				new Notice("Unsupported item type.");
 				break;
@@ -589,11 +1039,284 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		} else {
 			this.updateModeLabel();
 		}
+		if (!this.filterChipsEl) {
+			this.filterChipsEl = parent.createDiv({ cls: "omniswitch-filter-chips" });
+		}
+		if (!this.selectionBadgeEl) {
+			this.selectionBadgeEl = parent.createSpan({ cls: "omniswitch-selection-badge", attr: { "aria-label": "Clear selection" } });
+			this.selectionBadgeEl.addEventListener("click", () => this.clearSelection());
+			this.updateSelectionBadge();
+		}
 		this.inputEl.classList.add("omniswitch-input");
 		this.removeSearchClearButton(parent);
 		this.observeSearchClearButton(parent);
 	}
 
+	/**
+	 * Put the result list and the preview side by side, and follow selection changes
+	 * (arrow keys, Ctrl+J/K, hover) by wrapping the chooser's setSelectedItem.
+	 */
+	private setupPreviewPane(): void {
+		const results = this.resultContainerEl;
+		const parent = results.parentElement;
+		if (!parent) {
+			return;
+		}
+		const body = createDiv({ cls: "omniswitch-body" });
+		parent.insertBefore(body, results);
+		body.appendChild(results);
+		this.preview = new PreviewPane(this.app, body.createDiv());
+		this.applyPreviewVisibility();
+
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const chooser = (this as unknown as { chooser?: any }).chooser;
+		if (chooser && typeof chooser.setSelectedItem === "function") {
+			const setSelectedItem = chooser.setSelectedItem.bind(chooser);
+			chooser.setSelectedItem = (...args: unknown[]) => {
+				setSelectedItem(...args);
+				this.schedulePreview();
+			};
+		}
+	}
+
+	private togglePreview(): void {
+		this.previewVisible = !this.previewVisible;
+		this.applyPreviewVisibility();
+		this.onPreviewToggled?.(this.previewVisible);
+	}
+
+	private applyPreviewVisibility(): void {
+		this.modalEl.toggleClass("omniswitch-modal--preview", this.previewVisible);
+		this.schedulePreview();
+	}
+
+	private schedulePreview(): void {
+		if (!this.previewVisible || !this.preview) {
+			return;
+		}
+		if (this.previewTimer !== null) {
+			window.clearTimeout(this.previewTimer);
+		}
+		this.previewTimer = window.setTimeout(() => {
+			this.previewTimer = null;
+			void this.preview?.show(this.getSelectedItem());
+		}, OmniSwitchModal.PREVIEW_DEBOUNCE_MS);
+	}
+
+	private currentQuery(): string {
+		return this.insertLink ? splitLinkAlias(this.inputEl.value).query : this.inputEl.value;
+	}
+
+	/**
+	 * Synthetic "Create note" item for the query: in the new-note folder for notes mode, or in the
+	 * folder being browsed in folder mode. Null in other modes, for filter queries and for existing notes.
+	 */
+	private getCreateNoteItem(query: string): CreateSearchItem | null {
+		const text = query.trim();
+		if (text.length === 0 || this.moveFiles) {
+			return null;
+		}
+		let baseFolder: string;
+		if ((this.mode === "files" || this.mode === "everything") && !this.extensionFilter) {
+			if (parseQuery(text).filters.length > 0) {
+				return null;
+			}
+			baseFolder = this.newNoteFolder
+				|| this.app.fileManager.getNewFileParent(this.app.workspace.getActiveFile()?.path ?? "").path;
+		} else if (this.mode === "directories") {
+			baseFolder = this.getCurrentDirectory()?.path ?? "";
+		} else {
+			return null;
+		}
+		const path = resolveNewNotePath(text, baseFolder);
+		if (!path || this.app.vault.getAbstractFileByPath(path)) {
+			return null;
+		}
+		return { type: "create", kind: "note", path };
+	}
+
+	private createNoteSuggestions(query: string): FuzzyMatch<SearchItem>[] {
+		const item = this.getCreateNoteItem(query);
+		return item ? [{ item, match: { score: 0, matches: [] } }] : [];
+	}
+
+	/**
+	 * Create the note (and any missing folders) from the optional template, then open it,
+	 * or link it when inserting links.
+	 */
+	private async createNote(path: string, newLeaf: boolean): Promise<void> {
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			const file = existing instanceof TFile ? existing : await this.createNoteFile(path);
+			if (this.insertLinkFor({ type: "file", file })) {
+				return;
+			}
+			await this.openFile(file, newLeaf);
+		} catch (error) {
+			console.error("[OmniSwitch] Create note: failed", error);
+			new Notice(`Could not create "${path}".`);
+		}
+	}
+
+	private async createNoteFile(path: string): Promise<TFile> {
+		const slash = path.lastIndexOf("/");
+		if (slash > 0) {
+			await ensureFolder(this.app, path.slice(0, slash));
+		}
+		const title = path.slice(slash + 1).replace(/\.md$/i, "");
+		return this.app.vault.create(path, await this.readNoteTemplate(title));
+	}
+
+	/**
+	 * Folder the "Move to" row stands for: the folder being browsed, or the vault root at the top level.
+	 */
+	private moveDestination(): TFolder {
+		return this.getCurrentDirectory() ?? this.app.vault.getRoot();
+	}
+
+	/**
+	 * Folder-picker rows: "Move to" the browsed folder when the query is empty, and
+	 * "Create folder" when the typed folder doesn't exist yet.
+	 */
+	private withMoveTargets(query: string, matches: FuzzyMatch<SearchItem>[], limit: number): FuzzyMatch<SearchItem>[] {
+		const destination = this.moveDestination();
+		const text = query.trim();
+		if (text.length === 0) {
+			const here: FuzzyMatch<SearchItem> = { item: { type: "folder", folder: destination }, match: this.emptyMatch() };
+			return [here, ...matches].slice(0, limit);
+		}
+		const path = resolveNewFolderPath(text, destination.path);
+		if (!path || this.app.vault.getAbstractFileByPath(path)) {
+			return matches.slice(0, limit);
+		}
+		const create: FuzzyMatch<SearchItem> = { item: { type: "create", kind: "folder", path }, match: this.emptyMatch() };
+		return [...matches.slice(0, limit - 1), create];
+	}
+
+	private async moveInto(folder: TFolder): Promise<void> {
+		if (!this.moveFiles) {
+			return;
+		}
+		await moveToFolder(this.app, this.moveFiles, folder);
+	}
+
+	private async createFolderAndMove(path: string): Promise<void> {
+		try {
+			await this.moveInto(await ensureFolder(this.app, path));
+		} catch (error) {
+			console.error("[OmniSwitch] Move: failed to create folder", error);
+			new Notice(`Could not create folder "${path}".`);
+		}
+	}
+
+	private async readNoteTemplate(title: string): Promise<string> {
+		if (!this.newNoteTemplate) {
+			return "";
+		}
+		const path = normalizePath(this.newNoteTemplate);
+		const template = this.app.vault.getAbstractFileByPath(path) ?? this.app.vault.getAbstractFileByPath(`${path}.md`);
+		if (!(template instanceof TFile)) {
+			new Notice(`Template "${this.newNoteTemplate}" not found; creating an empty note.`);
+			return "";
+		}
+		return applyTemplateVariables(await this.app.vault.read(template), title, new Date());
+	}
+
+	/**
+	 * Write a link to the chosen item at the cursor; false for items that can't be linked (commands).
+	 */
+	private insertLinkFor(item: SearchItem): boolean {
+		if (!this.insertLink) {
+			return false;
+		}
+		const { editor, sourcePath } = this.insertLink;
+		const link = generateItemLink(this.app, item, sourcePath, { alias: splitLinkAlias(this.inputEl.value).alias });
+		if (!link) {
+			return false;
+		}
+		editor.replaceSelection(link);
+		editor.focus();
+		return true;
+	}
+
+	/**
+	 * Add the highlighted result to the multi-selection (or drop it) and move to the next row.
+	 * Only files, folders and things inside files can be selected; returns false otherwise.
+	 */
+	private toggleSelectedItem(): boolean {
+		const item = this.getSelectedItem();
+		if (!item || this.moveFiles || item.type === "command" || item.type === "tag" || item.type === "create" || item.type === "provider") {
+			return false;
+		}
+		const key = itemKey(item);
+		if (this.selection.has(key)) {
+			this.selection.delete(key);
+		} else {
+			this.selection.set(key, item);
+		}
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const chooser = (this as unknown as { chooser?: any }).chooser;
+		const index = (chooser?.selectedItem ?? -1) as number;
+		this.resultContainerEl.children[index]?.toggleClass("omniswitch-suggestion--selected", this.selection.has(key));
+		this.updateSelectionBadge();
+		if (typeof chooser?.setSelectedItem === "function" && index + 1 < (chooser.values?.length ?? 0)) {
+			chooser.setSelectedItem(index + 1);
+		}
+		return true;
+	}
+
+	private clearSelection(): void {
+		this.selection.clear();
+		this.resultContainerEl.querySelectorAll(".omniswitch-suggestion--selected").forEach((el) => el.removeClass("omniswitch-suggestion--selected"));
+		this.updateSelectionBadge();
+	}
+
+	private updateSelectionBadge(): void {
+		if (!this.selectionBadgeEl) {
+			return;
+		}
+		this.selectionBadgeEl.setText(`${this.selection.size} selected`);
+		this.selectionBadgeEl.toggleClass("omniswitch-selection-badge--empty", this.selection.size === 0);
+	}
+
+	/**
+	 * Replace the switcher with the action menu for the highlighted result,
+	 * or with the batch menu when several results are selected.
+	 */
+	private openActionMenu(): void {
+		if (!this.actions) {
+			return;
+		}
+		const context = { app: this.app, sourcePath: this.app.workspace.getActiveFile()?.path ?? "", moveFiles: this.onMoveFiles };
+		if (this.selection.size > 0) {
+			const items = [...this.selection.values()];
+			const batchActions = this.actions.getBatchActions(items, context);
+			if (batchActions.length > 0) {
+				this.close();
+				new BatchActionMenuModal(this.app, items, batchActions, context).open();
+			}
+			return;
+		}
+		const item = this.getSelectedItem();
+		if (!item) {
+			return;
+		}
+		const actions = this.actions.getActions(item, context);
+		if (actions.length === 0) {
+			new Notice("No actions for this item.");
+			return;
+		}
+		this.close();
+		new ActionMenuModal(this.app, item, actions, context).open();
+	}
+
+	private getSelectedItem(): SearchItem | null {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const chooser = (this as unknown as { chooser?: any }).chooser;
+		const selected = chooser?.values?.[chooser.selectedItem] as FuzzyMatch<SearchItem> | undefined;
+		return selected?.item ?? null;
+	}
+
 	private removeCloseButton(): void {
 		const closeButtons = this.modalEl.querySelectorAll<HTMLElement>(".modal-close-button, .modal-close-x, button[aria-label='Close']");
 		closeButtons.forEach((button) => button.remove());
@@ -612,13 +1335,19 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		this.clearButtonObserver.observe(container, { childList: true, subtree: true });
 	}
 	private detectPrefix(raw: string): PrefixDetectionResult {
-		return detectPrefix(raw, this.mode, this.extensionFilter);
+		if (this.moveFiles) {
+			return { mode: this.mode, extensionFilter: this.extensionFilter, search: raw, prefixApplied: false };
+		}
+		return detectPrefix(raw, this.mode, this.extensionFilter, this.providers?.list() ?? []);
 	}
 
 	private handleModeTransition(previous: OmniSwitchMode, next: OmniSwitchMode): void {
 		if (previous === "directories" || next === "directories") {
 			this.directoryStack = [];
 		}
+		if (previous === "tags" || next === "tags") {
+			this.tagStack = [];
+		}
 		// Reset search state when mode changes
 		this.lastSearchedQuery = "";
 		this.updateModeLabel();
@@ -649,6 +1378,27 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		this.onDirectoryContextChanged(true);
 	}
 
+	private exitTagLevel(clearQuery: boolean): void {
+		if (this.mode !== "tags" || this.tagStack.length === 0) {
+			this.resetToDefaultMode(clearQuery);
+			return;
+		}
+		this.tagStack.pop();
+		this.onDirectoryContextChanged(clearQuery);
+	}
+
+	private enterTag(item: TagSearchItem): void {
+		if (this.mode !== "tags") {
+			return;
+		}
+		const current = this.getCurrentTag();
+		if (current && current.toLowerCase() === item.tag.toLowerCase()) {
+			return;
+		}
+		this.tagStack.push(item.tag);
+		this.onDirectoryContextChanged(true);
+	}
+
 	private onDirectoryContextChanged(clearQuery: boolean): void {
 		this.updateModeUI();
 		this.updateModeLabel();
@@ -660,14 +1410,14 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 	}
 
 	private resetToDefaultMode(clearQuery = false): void {
-		if (this.mode === "files" && !this.extensionFilter) {
+		if (this.moveFiles || (this.mode === this.defaultMode && !this.extensionFilter)) {
 			return;
 		}
 		const previousMode = this.mode;
-		this.mode = "files";
+		this.mode = this.defaultMode;
 		this.extensionFilter = null;
-		if (previousMode !== "files") {
-			this.handleModeTransition(previousMode, "files");
+		if (previousMode !== this.defaultMode) {
+			this.handleModeTransition(previousMode, this.defaultMode);
 		}
 		this.updateModeUI();
 		if (clearQuery) {
@@ -683,9 +1433,11 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 	}
 
 	private toFuzzyMatch(hit: SearchHit): FuzzyMatch<SearchItem> {
-		const match: SearchResult = {
+		const match: HitSearchResult = {
 			score: hit.score,
 			matches: [],
+			titleMatches: hit.matches,
+			terms: hit.terms,
 		};
 		return { item: hit.item, match };
 	}
@@ -703,6 +1455,11 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 				this.setInstructions(this.defaultInstructions());
 				this.emptyStateText = "No files found";
 				break;
+			case "everything":
+				this.setPlaceholder("Search notes, headings and commands…");
+				this.setInstructions(this.defaultInstructions());
+				this.emptyStateText = "No results found";
+				break;
 			case "commands":
 				this.setPlaceholder("Search commands");
 				this.setInstructions([{ command: "enter", purpose: "run" }]);
@@ -725,21 +1482,81 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 				this.setInstructions(this.openInstructions());
 				this.emptyStateText = "No headings found";
 				break;
+			case "content":
+				this.setPlaceholder("Search note contents");
+				this.setInstructions(this.openInstructions());
+				this.emptyStateText = "No matching text found";
+				break;
+			case "blocks":
+				this.setPlaceholder("Search blocks");
+				this.setInstructions(this.openInstructions());
+				this.emptyStateText = "No blocks found";
+				break;
+			case "tabs":
+				this.setPlaceholder("Search open tabs");
+				this.setInstructions([
+					{ command: "enter", purpose: "switch" },
+					{ command: this.newTabShortcutLabel(), purpose: "close tab" },
+				]);
+				this.emptyStateText = "No open tabs";
+				break;
 			case "directories": {
 				this.setPlaceholder(this.directoryPlaceholder());
 				this.setInstructions(this.directoryInstructions());
 				this.emptyStateText = this.directoryStack.length > 0 ? "No items in folder" : "No folders found";
 				break;
 			}
+			case "tags": {
+				const current = this.getCurrentTag();
+				this.setPlaceholder(current ? `Searching in tag "#${current}"` : "Search tags");
+				this.setInstructions(this.tagInstructions());
+				this.emptyStateText = current ? "No notes with this tag" : "No tags found";
+				break;
+			}
+			default: {
+				const provider = this.currentProvider();
+				this.setPlaceholder(provider?.placeholder ?? `Search ${provider?.label ?? "results"}`);
+				this.setInstructions(provider?.instructions ?? [{ command: "enter", purpose: "select" }]);
+				this.emptyStateText = provider?.emptyStateText ?? "No results";
+				break;
+			}
+		}
+
+		if (this.insertLink && this.mode !== "commands" && this.mode !== "directories" && this.mode !== "tags") {
+			this.setInstructions([
+				{ command: "enter", purpose: "insert link" },
+				{ command: "|", purpose: "alias" },
+				{ command: "tab", purpose: "actions" },
+			]);
 		}
 	}
 
 	private applyModeClass(): void {
-		const classes: OmniSwitchMode[] = ["files", "commands", "attachments", "headings", "directories"];
+		const classes: OmniSwitchMode[] = ["files", "everything", "commands", "attachments", "headings", "directories", "tags", "content", "blocks", "tabs"];
 		for (const mode of classes) {
 			this.modalEl.classList.remove(`omniswitch-mode-${mode}`);
 		}
-		this.modalEl.classList.add(`omniswitch-mode-${this.mode}`);
+		this.modalEl.classList.remove("omniswitch-mode-provider");
+		this.modalEl.classList.add(this.currentProvider() ? "omniswitch-mode-provider" : `omniswitch-mode-${this.mode}`);
+	}
+
+	private currentProvider(): OmniSwitchProvider | null {
+		const id = providerIdOf(this.mode);
+		return id !== null ? this.providers?.get(id) ?? null : null;
+	}
+
+	private async chooseProviderResult(providerId: string, result: ProviderResult, evt: MouseEvent | KeyboardEvent): Promise<void> {
+		const provider = this.providers?.get(providerId);
+		if (!provider) {
+			new Notice("This search provider is no longer available.");
+			return;
+		}
+		try {
+			await provider.choose(result, evt);
+		} catch (error) {
+			console.error(`[OmniSwitch] Provider "${providerId}" choose failed`, error);
+			new Notice(`${provider.label}: action failed. Check console for details.`);
+		}
 	}
 
 	private defaultInstructions(): Instruction[] {
@@ -750,6 +1567,15 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			{ command: ".(ext/category)", purpose: "attachments" },
 			{ command: "/ ", purpose: "folders" },
 			{ command: "# ", purpose: "headings" },
+			{ command: "@ ", purpose: "tags" },
+			{ command: "? ", purpose: "content" },
+			{ command: "^ ", purpose: "blocks" },
+			{ command: "~ ", purpose: "tabs" },
+			...(this.providers?.list() ?? []).map((provider) => ({ command: provider.prefix, purpose: provider.label.toLowerCase() })),
+			{ command: "shift+enter", purpose: "create" },
+			{ command: "tab", purpose: "actions" },
+			{ command: "shift+space", purpose: "select" },
+			{ command: "alt+p", purpose: "preview" },
 		];
 	}
 
@@ -757,10 +1583,19 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		return [
 			{ command: "enter", purpose: "open" },
 			{ command: this.newTabShortcutLabel(), purpose: "new tab" },
+			{ command: "tab", purpose: "actions" },
+			{ command: "shift+space", purpose: "select" },
 		];
 	}
 
 	private directoryInstructions(): Instruction[] {
+		if (this.moveFiles) {
+			return [
+				{ command: "enter", purpose: "open folder" },
+				{ command: this.newTabShortcutLabel(), purpose: "move into" },
+				{ command: "backspace", purpose: "up" },
+			];
+		}
 		const instructions: Instruction[] = [
 			{ command: "enter", purpose: this.directoryStack.length > 0 ? "open" : "enter" },
 		];
@@ -769,13 +1604,30 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			instructions.push({ command: this.newTabShortcutLabel(), purpose: "new tab" });
 		}
 
+		instructions.push({ command: "shift+enter", purpose: "create note" });
 		instructions.push({ command: "backspace", purpose: this.directoryStack.length > 0 ? "up" : "exit" });
 
 		return instructions;
 	}
 
+	private tagInstructions(): Instruction[] {
+		const inTag = this.tagStack.length > 0;
+		const instructions: Instruction[] = [
+			{ command: "enter", purpose: inTag ? "open" : "enter" },
+		];
+		if (inTag) {
+			instructions.push({ command: this.newTabShortcutLabel(), purpose: "new tab" });
+		}
+		instructions.push({ command: "backspace", purpose: inTag ? "up" : "exit" });
+		return instructions;
+	}
+
 	private directoryPlaceholder(): string {
 		const current = this.getCurrentDirectory();
+		if (this.moveFiles) {
+			const subject = this.moveFiles.length === 1 ? `"${this.moveFiles[0].name}"` : `${this.moveFiles.length} items`;
+			return current ? `Move ${subject} into "${this.formatFolderDisplayPath(current)}"…` : `Move ${subject} to…`;
+		}
 		if (!current) {
 			return "Browse folders";
 		}
@@ -783,6 +1635,38 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		return `Searching in folder "${path}"`;
 	}
 
+	/**
+	 * One chip per active filter token; clicking a chip drops that filter from the query.
+	 */
+	private updateFilterChips(query: string): void {
+		if (!this.filterChipsEl) {
+			return;
+		}
+		this.filterChipsEl.empty();
+		if (!FILTERABLE_MODES.has(this.mode)) {
+			return;
+		}
+		for (const filter of parseQuery(query).filters) {
+			const chip = this.filterChipsEl.createSpan({ cls: "omniswitch-filter-chip", text: filter.raw });
+			chip.toggleClass("omniswitch-filter-chip--negated", filter.negate);
+			chip.setAttribute("aria-label", "Remove filter");
+			chip.addEventListener("click", () => this.removeFilter(filter));
+		}
+	}
+
+	private removeFilter(filter: QueryFilter): void {
+		const value = this.inputEl.value;
+		const at = value.indexOf(filter.raw);
+		if (at === -1) {
+			return;
+		}
+		const next = `${value.slice(0, at)}${value.slice(at + filter.raw.length)}`.replace(/\s{2,}/g, " ").trimStart();
+		this.inputEl.value = next;
+		this.inputEl.setSelectionRange(next.length, next.length);
+		this.inputEl.focus();
+		this.refreshSuggestions();
+	}
+
 	private updateModeLabel(): void {
 		if (!this.modeLabelEl) {
 			return;
@@ -794,16 +1678,31 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		switch (mode) {
 			case "files":
 				return "Notes";
+			case "everything":
+				return "Everything";
 			case "commands":
 				return "Commands";
 			case "attachments":
 				return "Attachments";
 			case "directories":
-				return "Folders";
+				return this.moveFiles ? "Move" : "Folders";
 			case "headings":
 				return "Headings";
-			default:
+			case "tags":
+				return "Tags";
+			case "content":
+				return "Content";
+			case "blocks":
+				return "Blocks";
+			case "tabs":
+				return "Tabs";
+			default: {
+				const providerId = providerIdOf(mode);
+				if (providerId !== null) {
+					return this.providers?.get(providerId)?.label ?? "Provider";
+				}
 				return (mode as string).toUpperCase();
+			}
 		}
 	}
 
@@ -816,8 +1715,12 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 
 
 	private getEmptyQuerySuggestions(limit: number): FuzzyMatch<SearchItem>[] {
+		if (this.currentProvider()) {
+			return this.search.getSuggestions(this.mode, limit).map((hit) => this.toFuzzyMatch(hit));
+		}
 		switch (this.mode) {
-			case "files": {
+			case "files":
+			case "everything": {
 				// Show recent files (up to 10)
 				const recent = this.collectRecentFileSuggestions();
 				if (recent.length > 0) {
@@ -828,6 +1731,7 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			}
 			case "commands":
 			case "headings":
+			case "blocks":
 			case "attachments": {
 				// Get suggestions from coordinator (efficient, uses cached data)
 				const hits = this.search.getSuggestions(this.mode, limit, this.extensionFilter);
@@ -862,7 +1766,8 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 				break;
 			}
 		}
-		return suggestions;
+		// Most recently opened first, with frequency blended in
+		return this.withFrecency(suggestions, true);
 	}
 
 	private getDirectoryLabel(file: TFile): string {
@@ -933,6 +1838,31 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 		this.app.workspace.openLinkText(linkText, "", newLeaf);
 	}
 
+	private async openBlock(item: BlockSearchItem, newLeaf: boolean): Promise<void> {
+		const linkText = `${item.file.path}#^${item.blockId}`;
+		if (!newLeaf && await this.focusExistingLeaf(item.file)) {
+			this.app.workspace.openLinkText(linkText, "", false);
+			return;
+		}
+		this.app.workspace.openLinkText(linkText, "", newLeaf);
+	}
+
+	private async openContentMatch(item: ContentSearchItem, newLeaf: boolean): Promise<void> {
+		const eState = { line: item.line };
+		if (!newLeaf) {
+			await this.ensureLayoutReady();
+			const entry = collectFileLeaves(this.app).find((leaf) => leaf.path === item.file.path);
+			if (entry) {
+				await this.app.workspace.revealLeaf(entry.leaf);
+				this.app.workspace.setActiveLeaf(entry.leaf, { focus: true });
+				entry.leaf.setEphemeralState(eState);
+				return;
+			}
+		}
+		const leaf = this.app.workspace.getLeaf(newLeaf);
+		await leaf.openFile(item.file, { eState });
+	}
+
 	private runCommand(id: string): void {
 		const commandManager = getCommandManager(this.app);
 		if (!commandManager) {
@@ -949,11 +1879,34 @@ export class OmniSwitchModal extends FuzzySuggestModal<SearchItem> {
 			return false;
 		}
 
-		await this.app.workspace.revealLeaf(entry.leaf);
-		this.app.workspace.setActiveLeaf(entry.leaf, { focus: true });
+		await this.focusLeaf(entry.leaf);
 		return true;
 	}
 
+	private async focusLeaf(leaf: WorkspaceLeaf): Promise<void> {
+		await this.app.workspace.revealLeaf(leaf);
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+	}
+
+	/**
+	 * Close the highlighted tab and keep the modal open so several tabs can be closed in a row.
+	 */
+	private closeSelectedTab(): void {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const chooser = (this as unknown as { chooser?: any }).chooser;
+		const selected = chooser?.values?.[chooser.selectedItem] as FuzzyMatch<SearchItem> | undefined;
+		if (!selected || selected.item.type !== "tab") {
+			return;
+		}
+		const index = chooser.selectedItem as number;
+		selected.item.leaf.detach();
+		this.refreshSuggestions();
+		const remaining = (chooser.values?.length ?? 0) as number;
+		if (remaining > 0 && typeof chooser.setSelectedItem === "function") {
+			chooser.setSelectedItem(Math.min(index, remaining - 1));
+		}
+	}
+
 
 	private ensureLayoutReady(): Promise<void> {
 		if (this.app.workspace.layoutReady) {
@@ -0,0 +1,205 @@
+import { App, Component, MarkdownRenderer, TFile, loadPdfJs, type Command, type Hotkey } from "obsidian";
+import type { SearchItem } from "./search";
+import { getCommandHotkeys, getCommandSource } from "./obsidian-helpers";
+import { extractHeadingSection, itemKey, matchesAttachmentExtension } from "./search/utils";
+
+const MAX_MARKDOWN_CHARS = 5000;
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+const PDF_THUMBNAIL_WIDTH = 360;
+
+/**
+ * Side panel of the switcher showing the selected item: rendered markdown for notes and headings,
+ * thumbnails for images and PDFs, and details for commands.
+ */
+export class PreviewPane {
+	private readonly component = new Component();
+	private child: Component | null = null;
+	private currentKey: string | null = null;
+	private token = 0;
+
+	constructor(private readonly app: App, private readonly el: HTMLElement) {
+		this.el.addClass("omniswitch-preview");
+		this.component.load();
+	}
+
+	async show(item: SearchItem | null): Promise<void> {
+		const key = item ? itemKey(item) : null;
+		if (key === this.currentKey) {
+			return;
+		}
+		this.currentKey = key;
+		const token = ++this.token;
+		this.reset();
+		if (!item) {
+			this.el.createDiv({ cls: "omniswitch-preview__empty", text: "No selection" });
+			return;
+		}
+		try {
+			await this.render(item, token);
+		} catch (error) {
+			console.error("[OmniSwitch] Preview: failed to render", error);
+			if (token === this.token) {
+				this.reset();
+				this.el.createDiv({ cls: "omniswitch-preview__empty", text: "Preview unavailable" });
+			}
+		}
+	}
+
+	destroy(): void {
+		this.token++;
+		this.reset();
+		this.component.unload();
+	}
+
+	private reset(): void {
+		if (this.child) {
+			this.component.removeChild(this.child);
+			this.child = null;
+		}
+		this.el.empty();
+	}
+
+	private async render(item: SearchItem, token: number): Promise<void> {
+		switch (item.type) {
+			case "file":
+				return this.renderFile(item.file, token);
+			case "heading": {
+				const content = await this.app.vault.cachedRead(item.file);
+				const headings = this.app.metadataCache.getFileCache(item.file)?.headings ?? [];
+				return this.renderMarkdown(extractHeadingSection(content, headings, item.heading), item.file, token);
+			}
+			case "block": {
+				const content = await this.app.vault.cachedRead(item.file);
+				const block = this.app.metadataCache.getFileCache(item.file)?.blocks?.[item.blockId.toLowerCase()];
+				const text = block ? content.slice(block.position.start.offset, block.position.end.offset) : item.text;
+				return this.renderMarkdown(text, item.file, token);
+			}
+			case "content": {
+				const content = await this.app.vault.cachedRead(item.file);
+				const lines = content.split(/\r?\n/);
+				return this.renderMarkdown(lines.slice(Math.max(0, item.line - 2)).join("\n"), item.file, token);
+			}
+			case "tab": {
+				const file = this.app.vault.getAbstractFileByPath(item.path);
+				if (file instanceof TFile) {
+					return this.renderFile(file, token);
+				}
+				return this.renderDetails(item.title, [["Path", item.path]]);
+			}
+			case "command":
+				return this.renderCommand(item.command);
+			case "folder":
+				return this.renderDetails(item.folder.isRoot() ? "/" : item.folder.name, [
+					["Path", item.folder.path || "/"],
+					["Items", String(item.folder.children.length)],
+				]);
+			case "tag":
+				return this.renderDetails(`#${item.tag}`, [["Notes", String(item.count)]]);
+			case "create":
+				return this.renderDetails(item.kind === "folder" ? "New folder" : "New note", [["Path", item.path]]);
+			case "provider":
+				return this.renderDetails(item.result.title, item.result.subtitle ? [["", item.result.subtitle]] : []);
+		}
+	}
+
+	private async renderFile(file: TFile, token: number): Promise<void> {
+		if (file.extension.toLowerCase() === "md") {
+			const content = await this.app.vault.cachedRead(file);
+			return this.renderMarkdown(content, file, token);
+		}
+		const details = this.fileDetails(file);
+		if (matchesAttachmentExtension(file.extension, "image")) {
+			this.el.createEl("img", { cls: "omniswitch-preview__image", attr: { src: this.app.vault.getResourcePath(file), alt: file.name } });
+			this.renderDetails(file.name, details);
+			return;
+		}
+		if (file.extension.toLowerCase() === "pdf" && file.stat.size <= MAX_PDF_BYTES) {
+			const canvas = this.el.createEl("canvas", { cls: "omniswitch-preview__image" });
+			this.renderDetails(file.name, details);
+			await this.renderPdfThumbnail(file, canvas, token);
+			return;
+		}
+		this.renderDetails(file.name, details);
+	}
+
+	private async renderMarkdown(markdown: string, file: TFile, token: number): Promise<void> {
+		if (token !== this.token) {
+			return;
+		}
+		const truncated = markdown.length > MAX_MARKDOWN_CHARS;
+		const body = this.el.createDiv({ cls: "omniswitch-preview__markdown markdown-rendered" });
+		this.child = this.component.addChild(new Component());
+		await MarkdownRenderer.render(this.app, truncated ? markdown.slice(0, MAX_MARKDOWN_CHARS) : markdown, body, file.path, this.child);
+		if (truncated && token === this.token) {
+			this.el.createDiv({ cls: "omniswitch-preview__more", text: "…" });
+		}
+	}
+
+	private async renderPdfThumbnail(file: TFile, canvas: HTMLCanvasElement, token: number): Promise<void> {
+		const pdfjs = await loadPdfJs();
+		const data = await this.app.vault.readBinary(file);
+		if (token !== this.token) {
+			return;
+		}
+		const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+		try {
+			const page = await doc.getPage(1);
+			const unscaled = page.getViewport({ scale: 1 });
+			const viewport = page.getViewport({ scale: PDF_THUMBNAIL_WIDTH / unscaled.width });
+			canvas.width = viewport.width;
+			canvas.height = viewport.height;
+			const context = canvas.getContext("2d");
+			if (context && token === this.token) {
+				await page.render({ canvasContext: context, viewport }).promise;
+			}
+		} finally {
+			doc.destroy();
+		}
+	}
+
+	private renderCommand(command: Command): void {
+		const details: Array<[string, string]> = [["ID", command.id]];
+		const source = getCommandSource(this.app, command.id);
+		if (source) {
+			details.push(["From", source]);
+		}
+		const hotkeys = getCommandHotkeys(this.app, command.id);
+		details.push(["Hotkey", hotkeys.length > 0 ? hotkeys.map(formatHotkey).join(", ") : "None"]);
+		this.renderDetails(command.name, details);
+	}
+
+	private renderDetails(title: string, details: Array<[string, string]>): void {
+		this.el.createDiv({ cls: "omniswitch-preview__title", text: title });
+		const list = this.el.createEl("dl", { cls: "omniswitch-preview__details" });
+		for (const [label, value] of details) {
+			list.createEl("dt", { text: label });
+			list.createEl("dd", { text: value });
+		}
+	}
+
+	private fileDetails(file: TFile): Array<[string, string]> {
+		return [
+			["Path", file.path],
+			["Size", formatBytes(file.stat.size)],
+			["Modified", new Date(file.stat.mtime).toLocaleString()],
+		];
+	}
+}
+
+function formatHotkey(hotkey: Hotkey): string {
+	return [...hotkey.modifiers, hotkey.key].join("+");
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	const units = ["KB", "MB", "GB"];
+	let value = bytes / 1024;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(1)} ${units[unit]}`;
+}
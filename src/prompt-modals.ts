@@ -0,0 +1,86 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Single-line text prompt; Enter submits, Escape cancels.
+ */
+export class TextPromptModal extends Modal {
+	private value: string;
+
+	constructor(
+		app: App,
+		private readonly title: string,
+		initialValue: string,
+		private readonly onSubmit: (value: string) => void | Promise<void>,
+		private readonly submitLabel = "Save",
+	) {
+		super(app);
+		this.value = initialValue;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(this.title);
+		const input = this.contentEl.createEl("input", { type: "text", cls: "omniswitch-prompt-input", value: this.value });
+		input.addEventListener("input", () => {
+			this.value = input.value;
+		});
+		input.addEventListener("keydown", (event) => {
+			if (event.key === "Enter" && !event.isComposing) {
+				event.preventDefault();
+				void this.submit();
+			}
+		});
+		new Setting(this.contentEl)
+			.addButton((button) => button.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((button) => button.setButtonText(this.submitLabel).setCta().onClick(() => void this.submit()));
+		input.focus();
+		input.select();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async submit(): Promise<void> {
+		const value = this.value.trim();
+		if (value.length === 0) {
+			return;
+		}
+		this.close();
+		await this.onSubmit(value);
+	}
+}
+
+/**
+ * Yes/no confirmation for destructive actions.
+ */
+export class ConfirmModal extends Modal {
+	constructor(
+		app: App,
+		private readonly title: string,
+		private readonly message: string,
+		private readonly confirmLabel: string,
+		private readonly onConfirm: () => void | Promise<void>,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(this.title);
+		this.contentEl.createEl("p", { text: this.message });
+		new Setting(this.contentEl)
+			.addButton((button) => button.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((button) =>
+				button
+					.setButtonText(this.confirmLabel)
+					.setWarning()
+					.onClick(async () => {
+						this.close();
+						await this.onConfirm();
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
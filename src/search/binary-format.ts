@@ -0,0 +1,298 @@
+// Compact binary encoding for persisted indexes: varints, length-prefixed UTF-8 strings,
+// front-coded string tables and delta-encoded numeric ID maps, optionally gzipped
+
+// Not in TypeScript 4.7's DOM lib; only the parts used here
+declare class CompressionStream {
+	constructor(format: "gzip");
+	readonly readable: ReadableStream<Uint8Array>;
+	readonly writable: WritableStream<Uint8Array>;
+}
+declare class DecompressionStream {
+	constructor(format: "gzip");
+	readonly readable: ReadableStream<Uint8Array>;
+	readonly writable: WritableStream<Uint8Array>;
+}
+
+const MAGIC = [0x4f, 0x53, 0x49, 0x58]; // "OSIX"
+const FLAG_GZIP = 1;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class BinaryWriter {
+	private buffer = new Uint8Array(1024);
+	private length = 0;
+
+	writeByte(value: number): void {
+		this.ensure(1);
+		this.buffer[this.length++] = value;
+	}
+
+	/** Unsigned LEB128; safe for every integer up to 2^53 */
+	writeVarint(value: number): void {
+		if (!Number.isSafeInteger(value) || value < 0) {
+			throw new Error(`Cannot encode ${value} as a varint`);
+		}
+		this.ensure(8);
+		while (value >= 0x80) {
+			this.buffer[this.length++] = (value % 0x80) | 0x80;
+			value = Math.floor(value / 0x80);
+		}
+		this.buffer[this.length++] = value;
+	}
+
+	/** Zigzag-encoded, so small negative deltas stay small */
+	writeSignedVarint(value: number): void {
+		this.writeVarint(value >= 0 ? value * 2 : -value * 2 - 1);
+	}
+
+	writeBytes(bytes: Uint8Array): void {
+		this.writeVarint(bytes.length);
+		this.ensure(bytes.length);
+		this.buffer.set(bytes, this.length);
+		this.length += bytes.length;
+	}
+
+	writeString(value: string): void {
+		this.writeBytes(encoder.encode(value));
+	}
+
+	finish(): Uint8Array {
+		return this.buffer.slice(0, this.length);
+	}
+
+	private ensure(extra: number): void {
+		if (this.length + extra <= this.buffer.length) {
+			return;
+		}
+		let size = this.buffer.length * 2;
+		while (size < this.length + extra) size *= 2;
+		const next = new Uint8Array(size);
+		next.set(this.buffer.subarray(0, this.length));
+		this.buffer = next;
+	}
+}
+
+export class BinaryReader {
+	private position = 0;
+
+	constructor(private readonly bytes: Uint8Array) {}
+
+	get done(): boolean {
+		return this.position >= this.bytes.length;
+	}
+
+	readByte(): number {
+		this.require(1);
+		return this.bytes[this.position++]!;
+	}
+
+	readVarint(): number {
+		let value = 0;
+		let scale = 1;
+		for (;;) {
+			const byte = this.readByte();
+			value += (byte & 0x7f) * scale;
+			if (byte < 0x80) return value;
+			scale *= 0x80;
+			if (scale > 2 ** 56) throw new Error("Malformed varint in index data");
+		}
+	}
+
+	readSignedVarint(): number {
+		const value = this.readVarint();
+		return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+	}
+
+	readBytes(): Uint8Array {
+		const length = this.readVarint();
+		this.require(length);
+		const bytes = this.bytes.subarray(this.position, this.position + length);
+		this.position += length;
+		return bytes;
+	}
+
+	readString(): string {
+		return decoder.decode(this.readBytes());
+	}
+
+	/** Everything not read yet */
+	rest(): Uint8Array {
+		const bytes = this.bytes.subarray(this.position);
+		this.position = this.bytes.length;
+		return bytes;
+	}
+
+	private require(length: number): void {
+		if (this.position + length > this.bytes.length) {
+			throw new Error("Unexpected end of index data");
+		}
+	}
+}
+
+/**
+ * Front coding: each string stores how much it shares with the previous one plus the rest, so
+ * `folder/a.md::0`, `folder/a.md::1`, … cost a few bytes each
+ */
+export function writeStringTable(writer: BinaryWriter, strings: readonly string[]): void {
+	writer.writeVarint(strings.length);
+	let previous = "";
+	for (const value of strings) {
+		const shared = sharedPrefixLength(previous, value);
+		writer.writeVarint(shared);
+		writer.writeString(value.slice(shared));
+		previous = value;
+	}
+}
+
+export function readStringTable(reader: BinaryReader): string[] {
+	const count = reader.readVarint();
+	const strings = new Array<string>(count);
+	let previous = "";
+	for (let i = 0; i < count; i++) {
+		const shared = reader.readVarint();
+		previous = previous.slice(0, shared) + reader.readString();
+		strings[i] = previous;
+	}
+	return strings;
+}
+
+/**
+ * `[numericId, key]` pairs as ID deltas (IDs are handed out in order, so most deltas are 1) and a
+ * front-coded table of keys
+ */
+export function writeIdMap(writer: BinaryWriter, entries: ReadonlyArray<[string, string]>): void {
+	writer.writeVarint(entries.length);
+	let previous = 0;
+	for (const [id] of entries) {
+		const numeric = parseNumericId(id);
+		writer.writeSignedVarint(numeric - previous);
+		previous = numeric;
+	}
+	writeStringTable(writer, entries.map(([, key]) => key));
+}
+
+export function readIdMap(reader: BinaryReader): Array<[string, string]> {
+	const count = reader.readVarint();
+	const ids = new Array<number>(count);
+	let previous = 0;
+	for (let i = 0; i < count; i++) {
+		previous += reader.readSignedVarint();
+		ids[i] = previous;
+	}
+	const keys = readStringTable(reader);
+	if (keys.length !== count) {
+		throw new Error("ID map key count does not match its IDs");
+	}
+	return keys.map((key, i) => [String(ids[i]), key]);
+}
+
+/**
+ * Numeric IDs alone, as sorted deltas
+ */
+export function writeIdList(writer: BinaryWriter, ids: readonly string[]): void {
+	const sorted = ids.map(parseNumericId).sort((a, b) => a - b);
+	writer.writeVarint(sorted.length);
+	let previous = 0;
+	for (const id of sorted) {
+		writer.writeVarint(id - previous);
+		previous = id;
+	}
+}
+
+export function readIdList(reader: BinaryReader): string[] {
+	const count = reader.readVarint();
+	const ids = new Array<string>(count);
+	let previous = 0;
+	for (let i = 0; i < count; i++) {
+		previous += reader.readVarint();
+		ids[i] = String(previous);
+	}
+	return ids;
+}
+
+export function encodeText(text: string): Uint8Array {
+	return encoder.encode(text);
+}
+
+export function decodeText(bytes: Uint8Array): string {
+	return decoder.decode(bytes);
+}
+
+export function canCompress(): boolean {
+	return typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+}
+
+/**
+ * Header (magic, format version, flags) followed by the body, gzipped when asked and supported
+ */
+export async function packIndexFile(version: number, body: Uint8Array, compress: boolean): Promise<Uint8Array> {
+	const gzip = compress && canCompress();
+	const payload = gzip ? await pipe(body, new CompressionStream("gzip")) : body;
+	const header = new BinaryWriter();
+	for (const byte of MAGIC) header.writeByte(byte);
+	header.writeVarint(version);
+	header.writeByte(gzip ? FLAG_GZIP : 0);
+	const head = header.finish();
+	const file = new Uint8Array(head.length + payload.length);
+	file.set(head);
+	file.set(payload, head.length);
+	return file;
+}
+
+export async function unpackIndexFile(bytes: Uint8Array): Promise<{ version: number; body: Uint8Array }> {
+	const reader = new BinaryReader(bytes);
+	for (const byte of MAGIC) {
+		if (reader.readByte() !== byte) {
+			throw new Error("Not an OmniSwitch index file");
+		}
+	}
+	const version = reader.readVarint();
+	const flags = reader.readByte();
+	const payload = reader.rest();
+	if ((flags & FLAG_GZIP) === 0) {
+		return { version, body: payload };
+	}
+	if (!canCompress()) {
+		throw new Error("Index file is gzipped but DecompressionStream is unavailable");
+	}
+	return { version, body: await pipe(payload, new DecompressionStream("gzip")) };
+}
+
+/**
+ * FNV-1a over bytes, the binary counterpart of hashContent()
+ */
+export function hashBytes(bytes: Uint8Array): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < bytes.length; i++) {
+		hash ^= bytes[i]!;
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+	const stream = new Blob([bytes]).stream().pipeThrough(transform);
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+	const max = Math.min(a.length, b.length);
+	let i = 0;
+	while (i < max && a.charCodeAt(i) === b.charCodeAt(i)) i++;
+	// Never split a surrogate pair: the suffix would not survive UTF-8 encoding
+	if (i > 0 && i < b.length && isHighSurrogate(b.charCodeAt(i - 1))) i--;
+	return i;
+}
+
+function isHighSurrogate(code: number): boolean {
+	return code >= 0xd800 && code <= 0xdbff;
+}
+
+function parseNumericId(id: string): number {
+	const numeric = Number(id);
+	if (!Number.isSafeInteger(numeric) || numeric < 0 || String(numeric) !== id) {
+		throw new Error(`Index ID "${id}" is not a non-negative integer`);
+	}
+	return numeric;
+}
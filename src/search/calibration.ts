@@ -0,0 +1,70 @@
+// Score calibration: puts Fuse (1-clamped) and MiniSearch (unbounded BM25) scores on one 0..1 scale
+
+import type { SearchHit, SearchItem } from "./types";
+
+// Share of the calibrated score taken by the engine's score relative to the query's best hit; the rest is
+// the literal match bonus, so an exact title match tops any engine's fuzzy guess
+const RELATIVE_WEIGHT = 0.75;
+const EXACT_BONUS = 1;
+const PREFIX_BONUS = 0.6;
+const SUBSTRING_BONUS = 0.3;
+
+/**
+ * How literally `text` matches the query: 1 for equal, less for prefix and substring matches, 0 otherwise.
+ * Case-insensitive; null text (items without a title) gets no bonus.
+ */
+export function matchBonus(text: string | null, query: string): number {
+	const q = query.trim().toLowerCase();
+	if (!text || q.length === 0) {
+		return 0;
+	}
+	const t = text.toLowerCase();
+	if (t === q) {
+		return EXACT_BONUS;
+	}
+	if (t.startsWith(q)) {
+		return PREFIX_BONUS;
+	}
+	return t.includes(q) ? SUBSTRING_BONUS : 0;
+}
+
+/**
+ * Map raw engine scores for one query onto 0..1 (higher is better): per-query max normalization, which
+ * removes the engine's own scale, blended with the literal match bonus. Returns entries sorted by the new
+ * score, each keeping its raw score.
+ */
+export function calibrateScores<T extends { score: number }>(results: T[], query: string, textOf: (result: T) => string | null): Array<T & { rawScore: number }> {
+	const best = results.reduce((max, result) => Math.max(max, result.score), 0);
+	return results
+		.map((result) => {
+			const relative = best > 0 ? Math.max(0, result.score) / best : 0;
+			const score = RELATIVE_WEIGHT * relative + (1 - RELATIVE_WEIGHT) * matchBonus(textOf(result), query);
+			return { ...result, rawScore: result.score, score };
+		})
+		.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Calibrate hits from one engine and record which engine produced them.
+ */
+export function calibrateHits(hits: SearchHit[], query: string, engine: "fuse" | "mini"): SearchHit[] {
+	return calibrateScores(hits, query, (hit) => hitTitle(hit.item)).map((hit) => ({ ...hit, engine }));
+}
+
+/**
+ * Text matches are measured against: what the row shows as its title (the alias for alias hits).
+ */
+export function hitTitle(item: SearchItem): string | null {
+	switch (item.type) {
+		case "file":
+			return item.alias ?? item.file.basename;
+		case "heading":
+			return item.heading.heading;
+		case "command":
+			return item.command.name;
+		case "block":
+			return item.text;
+		default:
+			return null;
+	}
+}
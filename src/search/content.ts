@@ -0,0 +1,94 @@
+// Body-text helpers for content mode: split notes into paragraph chunks and pick snippets
+
+export interface ContentChunk {
+	line: number; // 0-based line where the chunk starts
+	text: string;
+}
+
+export interface ContentSnippet {
+	line: number; // 0-based line offset inside the chunk
+	text: string;
+}
+
+const MAX_CHUNK_CHARS = 1000;
+const MAX_SNIPPET_CHARS = 160;
+
+/**
+ * Split markdown into paragraph-level chunks (separated by blank lines).
+ * Frontmatter is skipped; long paragraphs are split on line boundaries.
+ */
+export function chunkContent(text: string, maxChunkChars = MAX_CHUNK_CHARS): ContentChunk[] {
+	const lines = text.split(/\r?\n/);
+	const chunks: ContentChunk[] = [];
+	const start = skipFrontmatter(lines);
+	let buffer: string[] = [];
+	let bufferStart = start;
+	let bufferChars = 0;
+
+	const flush = () => {
+		const joined = buffer.join("\n").trim();
+		if (joined.length > 0) {
+			chunks.push({ line: bufferStart, text: joined });
+		}
+		buffer = [];
+		bufferChars = 0;
+	};
+
+	for (let i = start; i < lines.length; i++) {
+		const line = lines[i];
+		if (line.trim().length === 0) {
+			flush();
+			bufferStart = i + 1;
+			continue;
+		}
+		if (buffer.length > 0 && bufferChars + line.length > maxChunkChars) {
+			flush();
+			bufferStart = i;
+		}
+		buffer.push(line);
+		bufferChars += line.length + 1;
+	}
+	flush();
+	return chunks;
+}
+
+/**
+ * Find the first line of a chunk containing any of the matched terms and clip it around the match.
+ */
+export function extractSnippet(chunk: string, terms: string[], maxChars = MAX_SNIPPET_CHARS): ContentSnippet {
+	const lines = chunk.split("\n");
+	const needles = terms.map((t) => t.toLowerCase()).filter(Boolean);
+	for (let i = 0; i < lines.length; i++) {
+		const lower = lines[i].toLowerCase();
+		for (const needle of needles) {
+			const at = lower.indexOf(needle);
+			if (at !== -1) {
+				return { line: i, text: clipAround(lines[i], at, maxChars) };
+			}
+		}
+	}
+	return { line: 0, text: clipAround(lines[0] ?? "", 0, maxChars) };
+}
+
+function clipAround(line: string, at: number, maxChars: number): string {
+	const trimmed = line.trim();
+	const shift = line.length - line.trimStart().length;
+	if (trimmed.length <= maxChars) {
+		return trimmed;
+	}
+	const from = Math.max(0, Math.min(at - shift - Math.floor(maxChars / 3), trimmed.length - maxChars));
+	const clipped = trimmed.slice(from, from + maxChars);
+	return `${from > 0 ? "…" : ""}${clipped}${from + maxChars < trimmed.length ? "…" : ""}`;
+}
+
+function skipFrontmatter(lines: string[]): number {
+	if (lines[0]?.trim() !== "---") {
+		return 0;
+	}
+	for (let i = 1; i < lines.length; i++) {
+		if (lines[i].trim() === "---") {
+			return i + 1;
+		}
+	}
+	return 0;
+}
@@ -1,18 +1,24 @@
-import type { App, HeadingCache, TAbstractFile } from "obsidian";
-import { TFile, TFolder } from "obsidian";
-import { FuseEngine, type FileDoc, type HeadingDoc, type CommandDoc, type MinimalFileDoc, type MinimalHeadingDoc, type EngineFileDoc, type EngineHeadingDoc } from "./engines/fuse-engine";
-import { MiniSearchEngine } from "./engines/mini-engine";
-import type { EngineResult } from "./engines/types";
+import type { App, HeadingCache, TAbstractFile, TFile, TFolder } from "obsidian";
+import { FuseEngine, type FileDoc, type HeadingDoc, type BlockDoc, type CommandDoc, type MinimalFileDoc, type MinimalHeadingDoc, type MinimalBlockDoc, type EngineFileDoc, type EngineHeadingDoc, type EngineBlockDoc } from "./engines/fuse-engine";
+import { MiniSearchEngine, type EngineContentDoc } from "./engines/mini-engine";
+import type { ContentEngineResult, EngineResult } from "./engines/types";
 import { IndexManager } from "./index-manager";
 import { StatusBroadcaster, type IndexStatus } from "./status";
 import { IndexStore } from "./index-store";
-import type { OmniSwitchSettings } from "../settings";
-import type { SearchEngineId, SearchHit, SearchItem, FileSearchItem, HeadingSearchItem } from "./types";
+import type { IndexDelta } from "./index-segments";
+import { DEFAULT_SETTINGS, type OmniSwitchSettings } from "../settings";
+import type { SearchEngineId, SearchHit, SearchItem, FileSearchItem, HeadingSearchItem, TagSearchItem, ContentSearchItem, BlockSearchItem } from "./types";
 import type { OmniSwitchMode } from "./utils";
-import { matchesAttachmentExtension, isNoteExtension } from "./utils";
+import { FILTERABLE_MODES, extractFileAliases, matchesAttachmentExtension, matchesQueryFilters, isNoteExtension, parseQuery, type ParsedQuery } from "./utils";
+import { chunkContent, extractSnippet, type ContentChunk } from "./content";
+import { blendFrecency, type FrecencyStore } from "./frecency";
+import { providerIdOf, toProviderHits, type ProviderRegistry } from "./providers";
+import { EVERYTHING_GROUPS, groupEverythingHits } from "./everything";
+import { calibrateHits } from "./calibration";
+import { rerankHits, type RankingWeights } from "./ranking";
 import type { AsPlainObject } from "minisearch";
-// no custom normalization; rely on engine behavior
-import { isTFile } from "./obsidian-guards";
+import { isTFile, isTFolder } from "./obsidian-guards";
+import type { JournalCheckpoint, JournalReplay } from "./persist-journal";
 
 interface CoordinatorOptions {
 	app: App;
@@ -20,18 +26,26 @@ interface CoordinatorOptions {
 	pluginId: string;
 	journal?: {
 		initialize(): Promise<void>;
-		appendUpsert(entry: { path: string; extension: string; modified: number; size: number; headings: Array<{ text: string; level: number }> }): void;
+		appendUpsert(entry: { path: string; extension: string; modified: number; size: number; headings: Array<{ text: string; level: number }>; aliases?: string[]; blocks?: Array<{ id: string; text: string }> }): void;
 		appendDelete(path: string): void;
 		appendRename(oldPath: string, newPath: string): void;
-		loadAllEvents(): Promise<Array<{ v: number; ts: number; op: string; path?: string; ext?: string; mtime?: number; size?: number; headings?: Array<{ text: string; level: number; ord: number }>; oldPath?: string; newPath?: string }>>;
+		loadState(): Promise<JournalReplay>;
+		checkpoint(): Promise<JournalCheckpoint>;
+		compact(checkpoint: JournalCheckpoint): Promise<void>;
+		close(): Promise<void>;
 	};
 	createNotice?: (message: string) => void;
+	frecency?: FrecencyStore;
+	providers?: ProviderRegistry;
 }
 
 export class SearchCoordinator {
 	private settings: OmniSwitchSettings;
 	private readonly app: App;
 	private readonly pluginId: string;
+	private readonly frecency: FrecencyStore | null;
+	private readonly providers: ProviderRegistry | null;
+	private readonly journal: CoordinatorOptions["journal"] | null;
 	private readonly fuseEngine = new FuseEngine();
 	private readonly miniEngine = new MiniSearchEngine();
 	private readonly status: StatusBroadcaster;
@@ -45,9 +59,9 @@ export class SearchCoordinator {
 	private filesReady: Record<SearchEngineId, boolean> = { fuse: false, mini: false, hybrid: false };
     private headingsReady: Record<SearchEngineId, boolean> = { fuse: false, mini: false, hybrid: false };
 
-	// Store minimal docs for saving to index store
-	private currentFileDocs: MinimalFileDoc[] = [];
-	private currentHeadingDocs: MinimalHeadingDoc[] = [];
+	// Store minimal docs for saving to index store, keyed by file path so per-file updates are O(1)
+	private currentFileDocs = new Map<string, MinimalFileDoc>();
+	private currentHeadingDocs = new Map<string, MinimalHeadingDoc[]>();  // "folder/note.md" → its headings
 
 	// Store command docs for lookup (small enough to keep in memory)
 	private commandDocs: CommandDoc[] = [];
@@ -63,18 +77,49 @@ export class SearchCoordinator {
 	private nextHeadingId = 0;
 	private nextFileId = 0;
 
+	// Blocks: numeric ID ↔ "folder/note.md#^block-id"; few enough to keep minimal docs (with preview) in memory
+	private blockIdMap = new Map<string, string>();         // "321" → "folder/note.md#^abc123"
+	private reverseBlockIdMap = new Map<string, string>();  // "folder/note.md#^abc123" → "321"
+	private currentBlockDocs = new Map<string, MinimalBlockDoc>();  // keyed by "folder/note.md#^abc123"
+	private nextBlockId = 0;
+
+	// Content (body text) chunks: numeric ID ↔ "folder/note.md::chunkIndex", always indexed with Mini
+	private contentIdMap = new Map<string, string>();         // "42" → "folder/note.md::3"
+	private reverseContentIdMap = new Map<string, string>();  // "folder/note.md::3" → "42"
+	private contentByPath = new Map<string, { ids: string[]; chars: number; mtime: number }>();  // for removal, memory budget + staleness
+	private contentChars = 0;
+	private nextContentId = 0;
+	private contentReady = false;
+	private contentLoading = false;  // restoring the persisted index; edits are buffered until it is checked against the vault
+	private contentBuild: Promise<void> | null = null;
+	private contentGeneration = 0;
+	private contentPending = new Set<string>();
+	private contentTimer: ReturnType<typeof setTimeout> | null = null;
+	private static readonly CONTENT_DEBOUNCE_MS = 1000;
+
+	// Incremental persistence: engine changes are written as delta segments once they settle
+	private persistTimer: ReturnType<typeof setTimeout> | null = null;
+	private persisting: Promise<void> = Promise.resolve();
+	private static readonly DELTA_FLUSH_MS = 10000;
+	private static readonly CONTENT_BATCH_SIZE = 50;
+	private static readonly FILTER_OVERFETCH = 10; // engine results fetched per kept result when post-filtering
+
     constructor(options: CoordinatorOptions) {
 		this.app = options.app;
 		this.pluginId = options.pluginId;
+		this.frecency = options.frecency ?? null;
+		this.providers = options.providers ?? null;
+		this.journal = options.journal ?? null;
 		this.settings = {
 			...options.initialSettings,
 			excludedPaths: [...options.initialSettings.excludedPaths],
 		};
 		this.activeEngine = this.settings.searchEngine ?? "fuse";
+		this.applyAliasWeight();
         this.status = new StatusBroadcaster({
             createNotice: options.createNotice,
         });
-        this.indexStore = new IndexStore(options.app, options.pluginId);
+        this.indexStore = new IndexStore(options.app, options.pluginId, options.createNotice);
 
 		// IndexManager will be created lazily in slow path only
     }
@@ -97,6 +142,7 @@ export class SearchCoordinator {
 
         // Try to load persisted indexes
         let idMaps = null;
+        let hybridIndexes: { fuseFiles: string; miniHeadings: string } | null = null;
         let persisted = null;  // Fallback for non-hybrid modes
         if (this.settings.forceRebuild) {
             console.info("[OmniSwitch] Coordinator: Force rebuild enabled, skipping persisted indexes");
@@ -106,6 +152,10 @@ export class SearchCoordinator {
             if (this.activeEngine === "hybrid") {
                 // HYBRID MODE: Load directly from disk (optimized path)
                 idMaps = await this.loadIdMapsFromDisk();
+                hybridIndexes = idMaps ? await this.readHybridIndexes() : null;
+                if (!hybridIndexes) {
+                    idMaps = null;
+                }
 
                 if (idMaps) {
                     // Fast path: Load indexes directly
@@ -141,11 +191,12 @@ export class SearchCoordinator {
             app: this.app,
             status: this.status,
             getSettings: () => this.settings,
-            onFilesUpdated: () => { /* engines updated after build */ },
+            onFilesUpdated: () => this.scheduleDeltaFlush(),
             onCommandsUpdated: () => this.rebuildCommandDocs(),
             onFullRebuildComplete: () => this.handleFullRebuildComplete(),
             onEngineFileUpsert: (path) => this.applyEngineUpsert(path),
             onEngineFileRemove: (path) => this.applyEngineRemove(path),
+            journal: this.journal ?? undefined,
         });
 
         // Only initialize IndexManager in slow path (triggers full rebuild)
@@ -189,23 +240,30 @@ export class SearchCoordinator {
                 };
             }
 
-            // OPTIMIZATION: Hybrid mode loads Mini headings directly via loadJSON()
-            // No need to build heading docs or reverse map!
-            this.headingIdMap = new Map(idMaps.headingIdMap);
-            this.currentHeadingDocs = [];
-            minimalHeadingDocs = [];
-            console.info(`[OmniSwitch] Coordinator: Skipping heading doc/reverse map build (hybrid mode optimization)`);
+            // Mini headings load directly via loadJSON(), but journal replay and reconcile remove a file's
+            // headings through the reverse map and per-path docs, so both are built here
+            const headingIdMapArray = idMaps.headingIdMap;
+            minimalHeadingDocs = new Array(headingIdMapArray.length);
+            this.headingIdMap = new Map(headingIdMapArray);
+            this.reverseHeadingIdMap = new Map();
+            for (let i = 0; i < headingIdMapArray.length; i++) {
+                const [numericId, key] = headingIdMapArray[i];
+                this.reverseHeadingIdMap.set(key, numericId);
+                minimalHeadingDocs[i] = { id: key, title: '' };
+            }
+            this.currentHeadingDocs = groupHeadingDocs(minimalHeadingDocs);
 
-            this.currentFileDocs = minimalFileDocs;
+            this.currentFileDocs = new Map(minimalFileDocs.map((doc) => [doc.id, doc]));
             this.nextFileId = idMaps.nextFileId;
             this.nextHeadingId = idMaps.nextHeadingId;
 
             const mapsMs = Date.now() - tMaps0;
-            console.info(`[OmniSwitch] Coordinator: (1/3) Built file docs & ID maps in ${mapsMs} ms (files=${minimalFileDocs.length}, headingIds=${idMaps.headingIdMap.length})`);
+            console.info(`[OmniSwitch] Coordinator: (1/3) Built docs & ID maps in ${mapsMs} ms (files=${minimalFileDocs.length}, headings=${minimalHeadingDocs.length})`);
 
             // Build file cache for O(1) path lookups
             const tCache0 = Date.now();
             this.buildFileCache();
+            this.restoreAliases(minimalFileDocs);
             const cacheMs = Date.now() - tCache0;
             console.info(`[OmniSwitch] Coordinator:   ↳ Built file cache in ${cacheMs} ms`);
         } else if (persisted) {
@@ -249,8 +307,8 @@ export class SearchCoordinator {
                 };
             }
 
-            this.currentFileDocs = minimalFileDocs;
-            this.currentHeadingDocs = minimalHeadingDocs;
+            this.currentFileDocs = new Map(minimalFileDocs.map((doc) => [doc.id, doc]));
+            this.currentHeadingDocs = groupHeadingDocs(minimalHeadingDocs);
             this.nextFileId = persisted.nextFileId ?? 0;
             this.nextHeadingId = persisted.nextHeadingId ?? 0;
 
@@ -260,6 +318,7 @@ export class SearchCoordinator {
             // Build file cache for O(1) path lookups
             const tCache0 = Date.now();
             this.buildFileCache();
+            this.restoreAliases(minimalFileDocs);
             const cacheMs = Date.now() - tCache0;
             console.info(`[OmniSwitch] Coordinator:   ↳ Built file cache in ${cacheMs} ms`);
         } else {
@@ -269,8 +328,8 @@ export class SearchCoordinator {
             // Set empty arrays for now - will be populated by handleFullRebuildComplete()
             minimalFileDocs = [];
             minimalHeadingDocs = [];
-            this.currentFileDocs = [];
-            this.currentHeadingDocs = [];
+            this.currentFileDocs = new Map();
+            this.currentHeadingDocs = new Map();
         }
 
         // Build search engines from docs (or load from cache)
@@ -282,13 +341,13 @@ export class SearchCoordinator {
             // FAST PATH: Load engines from disk
             if (this.activeEngine === "hybrid") {
                 // Hybrid mode uses direct loading (idMaps)
-                if (!idMaps) throw new Error("Hybrid mode fast path but no ID maps");
+                if (!idMaps || !hybridIndexes) throw new Error("Hybrid mode fast path but no ID maps");
                 // Hybrid mode: Load Fuse for files, Mini for headings (OPTIMIZED)
                 console.info(`[OmniSwitch] Coordinator: (2/3) Loading hybrid engines from disk...`);
                 this.status.announce("indexing_files");
 
                 const tFuse0 = Date.now();
-                await this.loadFuseFilesFromDisk(minimalFileDocs);
+                this.loadFuseFiles(minimalFileDocs, hybridIndexes.fuseFiles);
                 fuseTimeMs += Date.now() - tFuse0;
                 console.info(`[OmniSwitch] Coordinator:   ↳ Files loaded in ${Date.now() - tFuse0} ms (Fuse only)`);
 
@@ -296,7 +355,7 @@ export class SearchCoordinator {
 
                 const tMini1 = Date.now();
                 // OPTIMIZATION: Load Mini headings directly using loadJSON() - NO doc conversion!
-                await this.loadMiniHeadingsFromDisk();
+                this.loadMiniHeadings(hybridIndexes.miniHeadings);
                 miniTimeMs += Date.now() - tMini1;
                 console.info(`[OmniSwitch] Coordinator:   ↳ Headings loaded in ${Date.now() - tMini1} ms (Mini only, direct loadJSON)`);
             } else {
@@ -397,11 +456,29 @@ export class SearchCoordinator {
             } else {
                 console.warn("[OmniSwitch] Coordinator: IndexManager not available for commands");
             }
+
+            // Tags are not persisted; derive them from metadataCache
+            this.indexManager?.syncTagsFromMetadata();
+
+            await this.loadBlocksFromStore();
+            await this.applyPersistedDeltas();
+
+            // Patch the loaded indexes with changes journaled after they were saved, then with anything
+            // changed in the vault while the plugin was not running
+            if (this.indexManager) {
+                const journaled = await this.indexManager.replayJournal();
+                const fileStats = idMaps?.fileStats ?? persisted?.fileStats ?? [];
+                const indexedStats = new Map(fileStats.map(([path, mtime, size]) => [path, { mtime, size }]));
+                this.indexManager.reconcileWithVault(this.reverseFileIdMap.keys(), journaled?.entries, indexedStats);
+            }
         }
 
         this.ready = true;
         this.status.announce("ready");
 
+        // Content index loads or builds in the background; other modes don't wait for it
+        void this.initializeContent();
+
         const totalMs = Date.now() - tInit;
         const mode = prebuildBoth ? "BOTH" : this.activeEngine.toUpperCase();
 
@@ -417,8 +494,20 @@ export class SearchCoordinator {
         }
     }
 
-    private async saveIndexes(): Promise<void> {
+    /**
+     * Full save: rewrite the base indexes (merging delta segments away), then content if it changed
+     */
+    private saveIndexes(): Promise<void> {
+        return this.persist(() => this.writeBaseIndexes(this.isIdle()));
+    }
+
+    /**
+     * @param compact Fold the journal into its baseline; only safe when every journaled change is in the engines
+     */
+    private async writeBaseIndexes(compact: boolean): Promise<void> {
         try {
+            // Before the snapshot below, so changes journaled while it is written survive compaction
+            const checkpoint = compact ? await this.checkpointJournal() : null;
             const fileIdMapArray = Array.from(this.fileIdMap.entries());
             const headingIdMapArray = Array.from(this.headingIdMap.entries());
 
@@ -437,19 +526,158 @@ export class SearchCoordinator {
                 headingIdMap: headingIdMapArray,
                 nextFileId: this.nextFileId,
                 nextHeadingId: this.nextHeadingId,
+                // Lets the next startup tell unchanged files apart without the journal
+                fileStats: this.indexedFileStats(fileIdMapArray),
+                blockIdMap: Array.from(this.blockIdMap.entries()),
+                nextBlockId: this.nextBlockId,
+                blockDocs: Array.from(this.currentBlockDocs.values()),
             });
 
             console.info("[OmniSwitch] Coordinator: ✅ ID maps saved successfully");
+
+            if (checkpoint) {
+                await this.compactJournal(checkpoint);
+            }
         } catch (error) {
             console.error("[OmniSwitch] Failed to save indexes", error);
         }
+        await this.saveContentIndex();
+    }
+
+    private indexedFileStats(fileIdMapArray: Array<[string, string]>): Array<[string, number, number]> {
+        const stats: Array<[string, number, number]> = [];
+        for (const [, path] of fileIdMapArray) {
+            const stat = this.indexManager?.getIndexedStat(path);
+            if (stat) {
+                stats.push([path, stat.mtime, stat.size]);
+            }
+        }
+        return stats;
+    }
+
+    /**
+     * Persistence steps run one at a time: a full save drops the segments a concurrent delta would add
+     */
+    private persist(step: () => Promise<void>): Promise<void> {
+        const run = this.persisting.then(step);
+        this.persisting = run.catch(() => undefined);
+        return run;
+    }
+
+    private scheduleDeltaFlush(): void {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+        }
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = null;
+            void this.flushDelta();
+        }, SearchCoordinator.DELTA_FLUSH_MS);
+    }
+
+    /**
+     * Write engine changes since the last save as a delta segment, and merge the segments into a
+     * fresh base once they grow past the threshold
+     */
+    private async flushDelta(): Promise<void> {
+        if (!this.isIdle()) {
+            // Journaled changes are still on their way to the engines; try again once they land
+            this.scheduleDeltaFlush();
+            return;
+        }
+        if (this.indexStore.isBaseDirty()) {
+            await this.saveIndexes();
+            return;
+        }
+        if (!this.indexStore.hasPendingChanges()) return;
+        await this.persist(() => this.writeDelta(this.isIdle()));
+        if (this.indexStore.needsMerge()) {
+            console.info("[OmniSwitch] Coordinator: Merging delta segments into the base indexes");
+            await this.saveIndexes();
+        }
+    }
+
+    /**
+     * @param compact Fold the journal into its baseline; only safe when every journaled change is in the engines
+     */
+    private async writeDelta(compact: boolean): Promise<void> {
+        let written = false;
+        // Before the pending changes are taken: later journal events may be missing from the segment
+        const checkpoint = compact ? await this.checkpointJournal() : null;
+        try {
+            written = await this.indexStore.saveDelta({
+                nextFileId: this.nextFileId,
+                nextHeadingId: this.nextHeadingId,
+                nextBlockId: this.nextBlockId,
+            });
+        } catch (error) {
+            console.error("[OmniSwitch] Failed to save delta segment", error);
+        }
+        if (written && checkpoint) {
+            await this.compactJournal(checkpoint);
+        }
+    }
+
+    /** Checked when a save starts, since replayed journal paths may still be queued behind it */
+    private isIdle(): boolean {
+        return this.indexManager?.isIdle() ?? true;
+    }
+
+    /** Taken right before a save snapshots the engines */
+    private async checkpointJournal(): Promise<JournalCheckpoint | null> {
+        try {
+            return (await this.journal?.checkpoint()) ?? null;
+        } catch (error) {
+            console.warn("[OmniSwitch] Journal: checkpoint failed", error);
+            return null;
+        }
+    }
+
+    private async compactJournal(checkpoint: JournalCheckpoint): Promise<void> {
+        // The saved indexes cover every change journaled before the checkpoint; fold those into the baseline
+        try {
+            await this.journal?.compact(checkpoint);
+        } catch (error) {
+            console.warn("[OmniSwitch] Journal: compaction failed", error);
+        }
+    }
+
+    private async saveContentIndex(): Promise<void> {
+        // A running build saves when it finishes
+        if (!this.contentReady || this.contentBuild || !this.indexStore.isContentDirty()) return;
+        try {
+            await this.indexStore.saveContentIndex({
+                index: this.miniEngine.contentToJSON(),
+                contentIdMap: Array.from(this.contentIdMap.entries()),
+                nextContentId: this.nextContentId,
+                noteMtimes: Array.from(this.contentByPath, ([path, entry]): [string, number] => [path, entry.mtime]),
+                savedAt: Date.now(),
+            });
+        } catch (error) {
+            console.error("[OmniSwitch] Failed to save content index", error);
+        }
     }
 
 
 	async shutdown(): Promise<void> {
 		console.info("[OmniSwitch] Coordinator shutdown: saving indexes...");
+		if (this.contentTimer) {
+			clearTimeout(this.contentTimer);
+			this.contentTimer = null;
+		}
+		if (this.persistTimer) {
+			clearTimeout(this.persistTimer);
+			this.persistTimer = null;
+		}
+		this.contentGeneration++; // abandon any running content build
 		const t0 = Date.now();
-		await this.saveIndexes();
+		// Only what changed: a delta segment for engine changes, content if it was touched
+		if (this.indexStore.isBaseDirty()) {
+			await this.saveIndexes();
+		} else {
+			await this.persist(() => this.writeDelta(this.isIdle()));
+			await this.saveContentIndex();
+		}
+		await this.journal?.close().catch((error) => console.warn("[OmniSwitch] Journal: flush failed", error));
 		const ms = Date.now() - t0;
 		console.info(`[OmniSwitch] Coordinator shutdown: saved in ${ms} ms`);
 	}
@@ -517,6 +745,8 @@ export class SearchCoordinator {
 	applySettings(settings: OmniSwitchSettings): void {
 		const previous = this.settings;
 		const engineChanged = settings.searchEngine !== previous.searchEngine;
+		const aliasWeightChanged = settings.aliasWeight !== previous.aliasWeight;
+		const contentBudgetChanged = settings.contentMemoryBudgetMB !== previous.contentMemoryBudgetMB;
 		const excludedChanged = !this.areExcludedPathsEqual(settings.excludedPaths, previous.excludedPaths);
 
 		this.settings = {
@@ -524,6 +754,10 @@ export class SearchCoordinator {
 			excludedPaths: [...settings.excludedPaths],
 		};
 
+		if (aliasWeightChanged) {
+			this.applyAliasWeight();
+		}
+
 		if (engineChanged && settings.searchEngine) {
 			// Use setEngine to properly handle engine switching
 			this.setEngine(settings.searchEngine);
@@ -532,6 +766,16 @@ export class SearchCoordinator {
 		if (excludedChanged && this.indexManager) {
 			this.indexManager.handleSettingsChanged();
 		}
+
+		if ((excludedChanged || contentBudgetChanged) && this.ready) {
+			this.startContentBuild();
+		}
+	}
+
+	private applyAliasWeight(): void {
+		const weight = this.settings.aliasWeight ?? DEFAULT_SETTINGS.aliasWeight!;
+		this.fuseEngine.setAliasWeight(weight);
+		this.miniEngine.setAliasWeight(weight);
 	}
 
 	getItems(): SearchItem[] {
@@ -541,7 +785,7 @@ export class SearchCoordinator {
 		const items: SearchItem[] = [];
 
 		// Add file items (use O(1) cache lookup)
-		for (const f of this.currentFileDocs) {
+		for (const f of this.currentFileDocs.values()) {
 			const file = this.fileCache.get(f.id);
 			if (file) {
 				items.push({ type: "file", file });
@@ -551,7 +795,7 @@ export class SearchCoordinator {
 		// Add folder items (get dynamically from vault)
 		const allFiles = this.app.vault.getAllLoadedFiles();
 		for (const f of allFiles) {
-			if (f instanceof TFolder) {
+			if (isTFolder(f)) {
 				items.push({ type: "folder", folder: f });
 			}
 		}
@@ -559,53 +803,118 @@ export class SearchCoordinator {
 		return items;
 	}
 
+	/**
+	 * All vault tags (including implied parents of nested tags), most used first
+	 */
+	getTags(): TagSearchItem[] {
+		if (!this.ready || !this.indexManager) {
+			return [];
+		}
+		const items: TagSearchItem[] = [];
+		for (const [tag, count] of this.indexManager.getTagCounts()) {
+			items.push({ type: "tag", tag, count });
+		}
+		items.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+		return items;
+	}
+
+	/**
+	 * Notes tagged with `tag` or any tag nested below it
+	 */
+	getFilesForTag(tag: string): FileSearchItem[] {
+		if (!this.ready || !this.indexManager) {
+			return [];
+		}
+		const items: FileSearchItem[] = [];
+		for (const path of this.indexManager.getPathsWithTag(tag)) {
+			const file = this.fileCache.get(path);
+			if (file) {
+				items.push({ type: "file", file });
+			}
+		}
+		return items;
+	}
+
 	async rebuild(): Promise<void> {
 		if (!this.indexManager) return;
 		this.indexManager.requestFullRebuild();
+		this.startContentBuild();
 	}
 
 	/**
 	 * Get suggestions for empty query (used for initial display)
 	 */
 	getSuggestions(mode: OmniSwitchMode, limit: number, extensionFilter?: string | null): SearchHit[] {
+		const providerId = providerIdOf(mode);
+		if (providerId !== null) {
+			return this.searchProvider(providerId, "", limit);
+		}
+
 		// Select engine based on mode when in hybrid mode
 		let engine;
 		if (this.activeEngine === "hybrid") {
-			// Hybrid: Use Mini for headings/commands, Fuse for files
-			engine = (mode === "headings" || mode === "commands") ? this.miniEngine : this.fuseEngine;
+			// Hybrid: Use Mini for headings/commands/blocks, Fuse for files
+			engine = (mode === "headings" || mode === "commands" || mode === "blocks") ? this.miniEngine : this.fuseEngine;
 		} else {
 			engine = this.activeEngine === "mini" ? this.miniEngine : this.fuseEngine;
 		}
 
 		switch (mode) {
 			case "commands": {
-				// Return all commands (already in memory, cheap)
-				return this.commandDocs.slice(0, limit).map(doc => ({
+				// Every command is a candidate (already in memory, cheap), so frecency can lift any of them
+				const commandHits = this.commandDocs.map(doc => ({
 					item: doc.item,
 					score: 1.0,
 					engine: this.activeEngine
 				}));
+				return this.rankByFrecency(commandHits).slice(0, limit);
 			}
 			case "headings": {
-				// Return first N headings from current docs
+				// First N headings, plus those in notes with history so frecency can lift them
+				const visited = this.frecentPaths();
 				const headingHits: SearchHit[] = [];
-				for (const doc of this.currentHeadingDocs) {
-					if (headingHits.length >= limit) break;
-					const resolved = this.resolveHeadingId(doc.id);
-					if (resolved) {
-						const item: HeadingSearchItem = { type: "heading", file: resolved.file, heading: resolved.heading };
-						headingHits.push({ item, score: 1.0, engine: this.activeEngine });
+				for (const [path, docs] of this.currentHeadingDocs) {
+					if (headingHits.length >= limit) {
+						if (visited.size === 0) break;
+						if (!visited.has(path)) continue;
+					}
+					for (const doc of docs) {
+						const resolved = this.resolveHeadingId(doc.id);
+						if (resolved) {
+							const item: HeadingSearchItem = { type: "heading", file: resolved.file, heading: resolved.heading };
+							headingHits.push({ item, score: 1.0, engine: this.activeEngine });
+						}
+					}
+				}
+				return this.rankByFrecency(headingHits).slice(0, limit);
+			}
+			case "blocks": {
+				// First N blocks, plus those in notes with history
+				const visited = this.frecentPaths();
+				const blockHits: SearchHit[] = [];
+				for (const doc of this.currentBlockDocs.values()) {
+					if (blockHits.length >= limit) {
+						if (visited.size === 0) break;
+						if (!visited.has(doc.id.slice(0, doc.id.lastIndexOf("#^")))) continue;
+					}
+					const item = this.resolveBlock(doc);
+					if (item) {
+						blockHits.push({ item, score: 1.0, engine: this.activeEngine });
 					}
 				}
-				return headingHits;
+				return this.rankByFrecency(blockHits).slice(0, limit);
 			}
 			case "attachments": {
-				// Return first N attachments from current docs, filtered by extension
+				// First N attachments (filtered by extension), plus those with history
+				const visited = this.frecentPaths();
 				const attachmentHits: SearchHit[] = [];
-				for (const doc of this.currentFileDocs) {
+				for (const doc of this.currentFileDocs.values()) {
 					// Filter by extension/category if specified
 					if (!matchesAttachmentExtension(doc.extension, extensionFilter ?? null)) continue;
-					if (attachmentHits.length >= limit) break;
+					if (attachmentHits.length >= limit) {
+						if (visited.size === 0) break;
+						if (!visited.has(doc.id)) continue;
+					}
 					// Use O(1) cache lookup instead of O(n) getAbstractFileByPath
 					const file = this.fileCache.get(doc.id);
 					if (file) {
@@ -613,7 +922,7 @@ export class SearchCoordinator {
 						attachmentHits.push({ item, score: 1.0, engine: this.activeEngine });
 					}
 				}
-				return attachmentHits;
+				return this.rankByFrecency(attachmentHits).slice(0, limit);
 			}
 			default:
 				return [];
@@ -621,6 +930,159 @@ export class SearchCoordinator {
 	}
 
 	search(mode: OmniSwitchMode, query: string, extensionFilter: string | null): SearchHit[] {
+		if (mode === "everything") {
+			return this.searchEverything(query);
+		}
+		const parsed = FILTERABLE_MODES.has(mode) ? parseQuery(query) : null;
+		const hits = parsed && parsed.filters.length > 0
+			? this.searchFiltered(mode, parsed, extensionFilter)
+			: this.searchByMode(mode, query, extensionFilter);
+		return this.rankByFrecency(hits);
+	}
+
+	/**
+	 * Blend frecency into hits ordered by relevance; unchanged when frecency is off.
+	 * Public so modes listed by the modal itself (tags, tabs, folders) rank the same way.
+	 */
+	rankByFrecency<T extends Pick<SearchHit, "item" | "score">>(hits: T[]): T[] {
+		if (!this.frecency || hits.length === 0) {
+			return hits;
+		}
+		const weight = this.settings.frecencyWeight ?? DEFAULT_SETTINGS.frecencyWeight!;
+		const halfLife = this.settings.frecencyHalfLifeDays ?? DEFAULT_SETTINGS.frecencyHalfLifeDays!;
+		const now = Date.now();
+		return blendFrecency(hits, (item) => this.frecency!.score(item, halfLife, now), weight);
+	}
+
+	// Notes with history, whose headings, blocks or attachments join the empty-query candidates
+	private frecentPaths(): Set<string> {
+		const weight = this.settings.frecencyWeight ?? DEFAULT_SETTINGS.frecencyWeight!;
+		return this.frecency && weight > 0 ? this.frecency.visitedPaths() : new Set();
+	}
+
+	/**
+	 * Notes, headings and commands in one list: each group is searched with its own engine (calibrated scores
+	 * compare across engines), frecency is blended in, then the hits are grouped into capped sections.
+	 */
+	private searchEverything(query: string): SearchHit[] {
+		const t0 = performance.now();
+		const limit = this.getMaxResults();
+		const hits = EVERYTHING_GROUPS.flatMap((group) => this.searchByMode(group.id, query, null, limit));
+		const blended = this.rankByFrecency(hits);
+		const grouped = groupEverythingHits(blended, limit);
+		console.log(`[Coordinator] Everything search: total=${(performance.now() - t0).toFixed(1)}ms results=${grouped.length}`);
+		return grouped;
+	}
+
+	// Engine that actually answers a mode: content is always Mini; hybrid sends headings, commands and blocks to Mini
+	private engineIdFor(mode: OmniSwitchMode): "fuse" | "mini" {
+		if (mode === "content") {
+			return "mini";
+		}
+		if (this.activeEngine === "hybrid") {
+			return mode === "headings" || mode === "commands" || mode === "blocks" ? "mini" : "fuse";
+		}
+		return this.activeEngine;
+	}
+
+	/**
+	 * Remember a chosen item so frecency can rank it higher next time
+	 */
+	recordSelection(item: SearchItem): void {
+		this.frecency?.record(item);
+	}
+
+	/**
+	 * Search the text part with a wider net, then keep hits whose file passes the filters.
+	 * A query made only of filters lists matching files, most recently modified first.
+	 */
+	private searchFiltered(mode: OmniSwitchMode, parsed: ParsedQuery, extensionFilter: string | null): SearchHit[] {
+		const t0 = performance.now();
+		const limit = this.getMaxResults();
+		const tagPaths = new Map<string, Set<string>>();
+		const hasTag = (path: string, tag: string): boolean => {
+			let paths = tagPaths.get(tag);
+			if (!paths) {
+				paths = new Set(this.indexManager?.getPathsWithTag(tag) ?? []);
+				tagPaths.set(tag, paths);
+			}
+			return paths.has(path);
+		};
+		// Read stats from the live TFile: docs restored from a persisted index carry no mtime
+		const passes = (file: TFile): boolean => matchesQueryFilters({
+			path: file.path,
+			extension: file.extension,
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+		}, parsed.filters, hasTag);
+
+		let hits: SearchHit[];
+		if (parsed.text.length === 0) {
+			if (mode === "headings") {
+				return [];
+			}
+			const matches: Array<{ file: TFile; mtime: number }> = [];
+			for (const doc of this.currentFileDocs.values()) {
+				const inMode = mode === "files" ? isNoteExtension(doc.extension) : matchesAttachmentExtension(doc.extension, extensionFilter);
+				const file = inMode ? this.fileCache.get(doc.id) : undefined;
+				if (file && passes(file)) {
+					matches.push({ file, mtime: file.stat.mtime });
+				}
+			}
+			matches.sort((a, b) => b.mtime - a.mtime);
+			const newest = Math.max(1, matches[0]?.mtime ?? 1);
+			hits = matches.slice(0, limit).map(({ file, mtime }) => ({
+				item: { type: "file", file },
+				score: mtime / newest,
+				engine: this.activeEngine,
+			}));
+		} else {
+			const pool = this.searchByMode(mode, parsed.text, extensionFilter, limit * SearchCoordinator.FILTER_OVERFETCH);
+			hits = pool.filter((hit) => {
+				const file = hit.item.type === "file" || hit.item.type === "heading" ? hit.item.file : null;
+				return file !== null && passes(file);
+			}).slice(0, limit);
+		}
+		console.log(`[Coordinator] Filtered ${mode} search: filters=${parsed.filters.map((f) => f.raw).join(" ")} total=${(performance.now() - t0).toFixed(1)}ms results=${hits.length}`);
+		return hits;
+	}
+
+	/**
+	 * Ask a registered provider; its results are capped by the same result limit as built-in modes.
+	 */
+	private searchProvider(providerId: string, query: string, limit: number): SearchHit[] {
+		const provider = this.providers?.get(providerId);
+		if (!provider) {
+			return [];
+		}
+		try {
+			return toProviderHits(providerId, provider.search(query, limit), limit);
+		} catch (error) {
+			console.error(`[Coordinator] Provider "${providerId}" search failed`, error);
+			return [];
+		}
+	}
+
+	private searchByMode(mode: OmniSwitchMode, query: string, extensionFilter: string | null, limit = this.getMaxResults()): SearchHit[] {
+		const providerId = providerIdOf(mode);
+		if (providerId !== null) {
+			return this.searchProvider(providerId, query.trim(), limit);
+		}
+		const calibrated = calibrateHits(this.searchEngineByMode(mode, query, extensionFilter, limit), query, this.engineIdFor(mode));
+		return rerankHits(calibrated, query, this.rankingWeights());
+	}
+
+	private rankingWeights(): RankingWeights {
+		return {
+			exact: this.settings.exactMatchBoost ?? DEFAULT_SETTINGS.exactMatchBoost!,
+			prefix: this.settings.prefixMatchBoost ?? DEFAULT_SETTINGS.prefixMatchBoost!,
+			wordStart: this.settings.wordStartBoost ?? DEFAULT_SETTINGS.wordStartBoost!,
+			shortName: this.settings.shortNameBoost ?? DEFAULT_SETTINGS.shortNameBoost!,
+		};
+	}
+
+	// Raw engine search for a built-in mode; scores are still on the engine's own scale
+	private searchEngineByMode(mode: OmniSwitchMode, query: string, extensionFilter: string | null, limit: number): SearchHit[] {
 		const t0 = performance.now();
 		const trimmed = query.trim();
 		if (trimmed.length === 0) {
@@ -631,8 +1093,8 @@ export class SearchCoordinator {
 		let engine;
 		let engineName: string;
 		if (this.activeEngine === "hybrid") {
-			// Hybrid: Use Mini for headings/commands (faster), Fuse for files
-			const useMini = (mode === "headings" || mode === "commands");
+			// Hybrid: Use Mini for headings/commands/blocks (faster), Fuse for files
+			const useMini = (mode === "headings" || mode === "commands" || mode === "blocks");
 			engine = useMini ? this.miniEngine : this.fuseEngine;
 			engineName = useMini ? "Mini" : "Fuse";
 		} else {
@@ -640,9 +1102,22 @@ export class SearchCoordinator {
 			engineName = this.activeEngine === "mini" ? "Mini" : "Fuse";
 		}
 
-		const limit = this.getMaxResults();
-
 		switch (mode) {
+            case "content": {
+                // Content always uses the Mini inverted index, whatever the active engine
+                if (!this.contentReady) return [];
+                const tEngine0 = performance.now();
+                const results = this.miniEngine.searchContent(trimmed, limit);
+                const engineMs = performance.now() - tEngine0;
+
+                const tMap0 = performance.now();
+                const hits = this.mapContentResults(results);
+                const mapMs = performance.now() - tMap0;
+
+                const totalMs = performance.now() - t0;
+                console.log(`[Coordinator] Content search [Mini]: total=${totalMs.toFixed(1)}ms engine=${engineMs.toFixed(1)}ms map=${mapMs.toFixed(1)}ms results=${hits.length}`);
+                return hits;
+            }
             case "commands": {
                 console.log(`[Coordinator] Commands search: query="${trimmed}", engineName=${engineName}, commandDocsCount=${this.commandDocs.length}`);
                 const tEngine0 = performance.now();
@@ -672,6 +1147,19 @@ export class SearchCoordinator {
                 console.log(`[Coordinator] Headings search [${engineName}]: total=${totalMs.toFixed(1)}ms engine=${engineMs.toFixed(1)}ms map=${mapMs.toFixed(1)}ms results=${hits.length}`);
                 return hits;
             }
+            case "blocks": {
+                const tEngine0 = performance.now();
+                const results = engine.searchBlocks(trimmed, limit);
+                const engineMs = performance.now() - tEngine0;
+
+                const tMap0 = performance.now();
+                const hits = this.mapBlockResults(results);
+                const mapMs = performance.now() - tMap0;
+
+                const totalMs = performance.now() - t0;
+                console.log(`[Coordinator] Blocks search [${engineName}]: total=${totalMs.toFixed(1)}ms engine=${engineMs.toFixed(1)}ms map=${mapMs.toFixed(1)}ms results=${hits.length}`);
+                return hits;
+            }
             case "attachments": {
                 console.log(`[Coordinator] Attachments search: query="${trimmed}", extensionFilter="${extensionFilter}"`);
                 const tEngine0 = performance.now();
@@ -710,7 +1198,7 @@ export class SearchCoordinator {
 
                 // Fallback: lightweight substring scan over minimal docs
                 const q = trimmed.toLowerCase();
-                const attachments = this.currentFileDocs.filter((d) =>
+                const attachments = Array.from(this.currentFileDocs.values()).filter((d) =>
                     matchesAttachmentExtension(d.extension, extensionFilter));
                 const scanned = q.length === 0
                     ? []
@@ -749,6 +1237,7 @@ export class SearchCoordinator {
 		if (!this.indexManager) return;
 		if (isTFile(file)) {
 			this.indexManager.queueVaultChange({ type: "created", path: file.path });
+			this.queueContentUpdate(file.path);
 			return;
 		}
 		this.indexManager.notifyFolderMutation();
@@ -758,6 +1247,7 @@ export class SearchCoordinator {
 		if (!this.indexManager) return;
 		if (isTFile(file)) {
 			this.indexManager.queueVaultChange({ type: "modified", path: file.path });
+			this.queueContentUpdate(file.path);
 			return;
 		}
 		this.indexManager.notifyFolderMutation();
@@ -767,15 +1257,23 @@ export class SearchCoordinator {
 		if (!this.indexManager) return;
 		if (isTFile(file)) {
 			this.indexManager.queueVaultChange({ type: "deleted", path: file.path });
+			this.contentPending.delete(file.path);
+			this.removeContentForPath(file.path);
 			return;
 		}
 		this.indexManager.notifyFolderMutation();
 	}
 
 	handleVaultRename(file: TAbstractFile, oldPath: string): void {
+		if (isTFile(file)) {
+			this.frecency?.renamePath(oldPath, file.path);
+		}
 		if (!this.indexManager) return;
 		if (isTFile(file)) {
 			this.indexManager.queueVaultChange({ type: "renamed", path: file.path, oldPath });
+			this.contentPending.delete(oldPath);
+			this.removeContentForPath(oldPath);
+			this.queueContentUpdate(file.path);
 			return;
 		}
 		this.indexManager.notifyFolderMutation();
@@ -783,7 +1281,259 @@ export class SearchCoordinator {
 
 	handleMetadataChange(file: TFile): void {
 		if (!this.indexManager) return;
-		this.indexManager.queueVaultChange({ type: "modified", path: file.path });
+		this.indexManager.queueVaultChange({ type: "modified", path: file.path, metadata: true });
+	}
+
+	private getContentBudgetChars(): number {
+		const mb = this.settings.contentMemoryBudgetMB ?? DEFAULT_SETTINGS.contentMemoryBudgetMB!;
+		return Math.max(0, mb) * 1024 * 1024 / 2;  // JS strings are UTF-16
+	}
+
+	/**
+	 * Load the persisted content index, or build it from note bodies if missing
+	 */
+	private async initializeContent(): Promise<void> {
+		if (this.getContentBudgetChars() === 0) {
+			console.info("[OmniSwitch] Content: disabled (memory budget is 0)");
+			return;
+		}
+		this.contentLoading = true;
+		try {
+			await this.restoreContent();
+		} finally {
+			this.contentLoading = false;
+		}
+		void this.flushContentUpdates();
+	}
+
+	private async restoreContent(): Promise<void> {
+		const persisted = await this.indexStore.loadContentIndex();
+		if (!persisted) {
+			this.startContentBuild();
+			return;
+		}
+		if (!persisted.noteMtimes) {
+			// Saved before note mtimes were recorded: there is no telling which notes changed since
+			console.info("[OmniSwitch] Content: persisted index has no note mtimes, rebuilding");
+			this.startContentBuild();
+			return;
+		}
+
+		const t0 = Date.now();
+		this.resetContentState();
+		if (persisted.index) {
+			this.miniEngine.loadContentFromJS(persisted.index as AsPlainObject);
+		}
+		this.contentIdMap = new Map(persisted.contentIdMap);
+		const mtimes = new Map(persisted.noteMtimes);
+		for (const [numericId, key] of persisted.contentIdMap) {
+			this.reverseContentIdMap.set(key, numericId);
+			const path = key.slice(0, key.lastIndexOf("::"));
+			const entry = this.contentByPath.get(path) ?? { ids: [], chars: 0, mtime: mtimes.get(path) ?? -1 };
+			const chars = this.miniEngine.getContentLength(numericId);
+			entry.ids.push(numericId);
+			entry.chars += chars;
+			this.contentChars += chars;
+			this.contentByPath.set(path, entry);
+		}
+		this.nextContentId = persisted.nextContentId;
+		this.contentReady = true;
+		const stale = this.queueStaleContent(persisted.savedAt ?? 0);
+		console.info(`[OmniSwitch] Content: restored ${this.contentIdMap.size} chunks (${this.contentByPath.size} notes, stale=${stale}) in ${Date.now() - t0} ms`);
+	}
+
+	/**
+	 * Queue notes edited, created or deleted while the plugin was off: indexed notes whose mtime no longer
+	 * matches, and notes missing from the index that were modified after it was saved (older ones were
+	 * left out by the memory budget)
+	 */
+	private queueStaleContent(savedAt: number): number {
+		const stale = new Set<string>();
+		for (const [path, entry] of this.contentByPath) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!isTFile(file) || file.extension !== "md" || Math.trunc(file.stat.mtime) !== entry.mtime) {
+				stale.add(path);
+			}
+		}
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.contentByPath.has(file.path) && file.stat.mtime > savedAt && !this.indexManager?.isPathExcluded(file.path)) {
+				stale.add(file.path);
+			}
+		}
+		for (const path of stale) {
+			this.contentPending.add(path);
+		}
+		return stale.size;
+	}
+
+	/**
+	 * (Re)build the content index in the background; a newer build abandons older ones
+	 */
+	private startContentBuild(): void {
+		const generation = ++this.contentGeneration;
+		this.resetContentState();
+		if (this.getContentBudgetChars() === 0) {
+			console.info("[OmniSwitch] Content: disabled (memory budget is 0)");
+			return;
+		}
+		const build = this.buildContentIndex(generation)
+			.catch((error) => console.error("[OmniSwitch] Content: build failed", error))
+			.finally(() => {
+				if (this.contentBuild !== build) return;
+				this.contentBuild = null;
+				void this.saveContentIndex();
+				void this.flushContentUpdates();
+			});
+		this.contentBuild = build;
+	}
+
+	private async buildContentIndex(generation: number): Promise<void> {
+		const t0 = Date.now();
+		// Most recently edited notes first, so they are the ones kept when the budget runs out
+		const files = this.app.vault.getMarkdownFiles()
+			.filter((f) => !this.indexManager?.isPathExcluded(f.path))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+		const docs: EngineContentDoc[] = [];
+		let skipped = 0;
+
+		for (let i = 0; i < files.length; i++) {
+			const file = files[i];
+			const chunks = await this.readContentChunks(file);
+			if (generation !== this.contentGeneration) return;
+			if (!chunks) continue;
+			const added = this.toEngineContentDocs(file.path, chunks, file.stat.mtime);
+			if (added) {
+				docs.push(...added);
+			} else {
+				skipped++;
+			}
+			if ((i + 1) % SearchCoordinator.CONTENT_BATCH_SIZE === 0) {
+				await new Promise((resolve) => setTimeout(resolve, 0));
+				if (generation !== this.contentGeneration) return;
+			}
+		}
+
+		await this.miniEngine.setContentAsync(docs);
+		if (generation !== this.contentGeneration) return;
+		this.contentReady = true;
+		const usedMb = (this.contentChars * 2 / 1024 / 1024).toFixed(1);
+		console.info(`[OmniSwitch] Content: indexed ${docs.length} chunks from ${this.contentByPath.size} notes (${usedMb} MB) in ${Date.now() - t0} ms`);
+		if (skipped > 0) {
+			console.warn(`[OmniSwitch] Content: memory budget reached, ${skipped} notes not indexed`);
+		}
+	}
+
+	private resetContentState(): void {
+		this.miniEngine.clearContent();
+		this.contentIdMap.clear();
+		this.reverseContentIdMap.clear();
+		this.contentByPath.clear();
+		this.contentChars = 0;
+		this.nextContentId = 0;
+		this.contentReady = false;
+		this.contentBuild = null;
+	}
+
+	private queueContentUpdate(path: string): void {
+		if (!this.contentReady && !this.contentBuild && !this.contentLoading) return;
+		this.contentPending.add(path);
+		if (this.contentTimer) {
+			clearTimeout(this.contentTimer);
+		}
+		this.contentTimer = setTimeout(() => {
+			this.contentTimer = null;
+			void this.flushContentUpdates();
+		}, SearchCoordinator.CONTENT_DEBOUNCE_MS);
+	}
+
+	private async flushContentUpdates(): Promise<void> {
+		// A running build picks pending paths up when it finishes
+		if (!this.contentReady || this.contentBuild || this.contentPending.size === 0) return;
+		const t0 = Date.now();
+		const generation = this.contentGeneration;
+		const paths = Array.from(this.contentPending);
+		this.contentPending.clear();
+		let chunksAdded = 0;
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!isTFile(file) || file.extension !== "md" || this.indexManager?.isPathExcluded(path)) {
+				this.removeContentForPath(path);
+				continue;
+			}
+			const chunks = await this.readContentChunks(file);
+			if (generation !== this.contentGeneration) return;
+			this.removeContentForPath(path);
+			const docs = chunks ? this.toEngineContentDocs(path, chunks, file.stat.mtime) : null;
+			if (docs) {
+				this.miniEngine.addContent(docs);
+				chunksAdded += docs.length;
+			}
+		}
+		console.info(`[OmniSwitch] Content diff: notes=${paths.length}, +chunks=${chunksAdded} in ${Date.now() - t0} ms`);
+	}
+
+	private async readContentChunks(file: TFile): Promise<ContentChunk[] | null> {
+		try {
+			return chunkContent(await this.app.vault.cachedRead(file));
+		} catch (error) {
+			console.warn(`[OmniSwitch] Content: failed to read ${file.path}`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Assign numeric IDs to a note's chunks; returns null when the note would exceed the memory budget
+	 */
+	private toEngineContentDocs(path: string, chunks: ContentChunk[], mtime: number): EngineContentDoc[] | null {
+		const chars = chunks.reduce((sum, c) => sum + c.text.length, 0);
+		if (this.contentChars + chars > this.getContentBudgetChars()) {
+			return null;
+		}
+		const docs: EngineContentDoc[] = [];
+		const ids: string[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			const key = `${path}::${i}`;
+			const numericId = String(this.nextContentId++);
+			this.contentIdMap.set(numericId, key);
+			this.reverseContentIdMap.set(key, numericId);
+			ids.push(numericId);
+			docs.push({ id: numericId, text: chunks[i].text, line: chunks[i].line });
+		}
+		this.contentByPath.set(path, { ids, chars, mtime: Math.trunc(mtime) });
+		this.contentChars += chars;
+		this.indexStore.markContentDirty();
+		return docs;
+	}
+
+	private removeContentForPath(path: string): void {
+		const entry = this.contentByPath.get(path);
+		if (!entry) return;
+		this.indexStore.markContentDirty();
+		this.miniEngine.removeContent(entry.ids);
+		for (const numericId of entry.ids) {
+			const key = this.contentIdMap.get(numericId);
+			this.contentIdMap.delete(numericId);
+			if (key) this.reverseContentIdMap.delete(key);
+		}
+		this.contentByPath.delete(path);
+		this.contentChars -= entry.chars;
+	}
+
+	/**
+	 * Map content search results (resolve numeric ID→chunk key→TFile, cut the snippet from stored text)
+	 */
+	private mapContentResults(results: ContentEngineResult[]): SearchHit[] {
+		const hits: SearchHit[] = [];
+		for (const r of results) {
+			const key = this.contentIdMap.get(r.id);
+			if (!key) continue;
+			const file = this.fileCache.get(key.slice(0, key.lastIndexOf("::")));
+			if (!file) continue;
+			const snippet = extractSnippet(r.text, r.terms);
+			const item: ContentSearchItem = { type: "content", file, line: r.line + snippet.line, snippet: snippet.text };
+			hits.push({ item, score: r.score, engine: this.activeEngine, matches: r.matches, terms: r.terms });
+		}
+		return hits;
 	}
 
 	/**
@@ -794,7 +1544,7 @@ export class SearchCoordinator {
 		for (const r of results) {
 			const doc = this.commandDocs.find(cmd => cmd.id === r.id);
 			if (doc) {
-				hits.push({ item: doc.item, score: r.score, engine: this.activeEngine });
+				hits.push({ item: doc.item, score: r.score, engine: this.activeEngine, matches: r.matches, terms: r.terms });
 			} else {
 				console.warn(`[Coordinator] mapCommandResults: No command doc found for id="${r.id}". Available IDs:`, this.commandDocs.slice(0, 3).map(c => c.id));
 			}
@@ -816,7 +1566,10 @@ export class SearchCoordinator {
 			const file = this.fileCache.get(fullPath);
 			if (file) {
 				const item: FileSearchItem = { type: "file", file };
-				hits.push({ item, score: r.score, engine: this.activeEngine });
+				if (r.alias) {
+					item.alias = r.alias;
+				}
+				hits.push({ item, score: r.score, engine: this.activeEngine, matches: r.matches, terms: r.terms });
 			}
 		}
 		return hits;
@@ -844,7 +1597,7 @@ export class SearchCoordinator {
 
 			if (resolved) {
 				const item: HeadingSearchItem = { type: "heading", file: resolved.file, heading: resolved.heading };
-				hits.push({ item, score: r.score, engine: this.activeEngine });
+				hits.push({ item, score: r.score, engine: this.activeEngine, matches: r.matches, terms: r.terms });
 			}
 		}
 
@@ -878,12 +1631,39 @@ export class SearchCoordinator {
 		return { file, heading };
 	}
 
+	/**
+	 * Map block search results (resolve numeric ID→"path#^id"→TFile + preview)
+	 */
+	private mapBlockResults(results: EngineResult[]): SearchHit[] {
+		const hits: SearchHit[] = [];
+		for (const r of results) {
+			const key = this.blockIdMap.get(r.id);
+			const doc = key ? this.currentBlockDocs.get(key) : undefined;
+			const item = doc ? this.resolveBlock(doc) : null;
+			if (item) {
+				hits.push({ item, score: r.score, engine: this.activeEngine, matches: r.matches, terms: r.terms });
+			}
+		}
+		return hits;
+	}
+
+	/**
+	 * Parse block ID ("path/file.md#^abc123") and resolve to a block item using the file cache
+	 */
+	private resolveBlock(doc: MinimalBlockDoc): BlockSearchItem | null {
+		const sep = doc.id.lastIndexOf("#^");
+		if (sep === -1) return null;
+		const file = this.fileCache.get(doc.id.slice(0, sep));
+		if (!file) return null;
+		return { type: "block", file, blockId: doc.id.slice(sep + 2), text: doc.text };
+	}
+
 	/**
 	 * Build path→TFile cache for O(1) lookups (avoids O(n) getAbstractFileByPath)
 	 */
 	private buildFileCache(): void {
 		this.fileCache.clear();
-		for (const doc of this.currentFileDocs) {
+		for (const doc of this.currentFileDocs.values()) {
 			const file = this.app.vault.getAbstractFileByPath(doc.id) as TFile;
 			if (file) {
 				this.fileCache.set(doc.id, file);
@@ -891,9 +1671,24 @@ export class SearchCoordinator {
 		}
 	}
 
+	/**
+	 * Fast path: the ID maps hold no aliases, so take them from metadataCache; without them an engine
+	 * rebuilt from these docs (e.g. after switching engines) would lose alias matches
+	 */
+	private restoreAliases(minimalFileDocs: MinimalFileDoc[]): void {
+		for (const doc of minimalFileDocs) {
+			const file = this.fileCache.get(doc.id);
+			if (!file || file.extension.toLowerCase() !== "md") continue;
+			const aliases = extractFileAliases(this.app.metadataCache.getFileCache(file));
+			if (aliases.length > 0) {
+				doc.aliases = aliases;
+			}
+		}
+	}
+
 	private rebuildFileDocs(): void {
 		// Use cached minimal docs (already loaded from persisted indexes or built in slow path)
-		const minimalFileDocs = this.currentFileDocs;
+		const minimalFileDocs = Array.from(this.currentFileDocs.values());
 
 		if (minimalFileDocs.length === 0) {
 			console.warn("[OmniSwitch] rebuildFileDocs: No file docs available");
@@ -911,6 +1706,7 @@ export class SearchCoordinator {
             this.miniEngine.setFiles(engineFileDocs);
             this.filesReady.mini = true;
         }
+		this.indexStore.markBaseDirty();
 	}
 
     private rebuildCommandDocs(): void {
@@ -929,7 +1725,7 @@ export class SearchCoordinator {
 
 	private rebuildHeadingDocs(): void {
 		// Use cached minimal docs (already loaded from persisted indexes or built in slow path)
-		const minimalHeadingDocs = this.currentHeadingDocs;
+		const minimalHeadingDocs = Array.from(this.currentHeadingDocs.values()).flat();
 
 		if (minimalHeadingDocs.length === 0) {
 			console.warn("[OmniSwitch] rebuildHeadingDocs: No heading docs available");
@@ -947,6 +1743,7 @@ export class SearchCoordinator {
 			this.fuseEngine.setHeadings(engineHeadingDocs);
 			this.headingsReady.fuse = true;
 		}
+		this.indexStore.markBaseDirty();
 	}
 
 	private clearEngine(engine: SearchEngineId): void {
@@ -974,8 +1771,12 @@ export class SearchCoordinator {
         this.headingIdMap.clear();
         this.reverseFileIdMap.clear();
         this.reverseHeadingIdMap.clear();
+        this.blockIdMap.clear();
+        this.reverseBlockIdMap.clear();
+        this.currentBlockDocs.clear();
         this.nextFileId = 0;
         this.nextHeadingId = 0;
+        this.nextBlockId = 0;
         console.info("[OmniSwitch] Coordinator: Cleared ID maps for fresh rebuild");
 
         // Step 1: Get docs from IndexManager and convert to minimal
@@ -990,7 +1791,8 @@ export class SearchCoordinator {
 				id: f.id,
 				name: f.name,
 				extension: f.extension,
-				mtime: file ? file.stat.mtime : 0
+				mtime: file ? file.stat.mtime : 0,
+				aliases: f.aliases,
 			};
 		});
 
@@ -1003,8 +1805,8 @@ export class SearchCoordinator {
 			};
 		});
 
-		this.currentFileDocs = minimalFileDocs;
-		this.currentHeadingDocs = minimalHeadingDocs;
+		this.currentFileDocs = new Map(minimalFileDocs.map((doc) => [doc.id, doc]));
+		this.currentHeadingDocs = groupHeadingDocs(minimalHeadingDocs);
         const convertMs = Date.now() - tConvert0;
         console.info(`[OmniSwitch] Coordinator:   ↳ Converted ${minimalFileDocs.length} files, ${minimalHeadingDocs.length} headings in ${convertMs} ms`);
 
@@ -1050,6 +1852,12 @@ export class SearchCoordinator {
         const headingsMs = Date.now() - tHeadings0;
         console.info(`[OmniSwitch] Coordinator:   ↳ Total heading engines built in ${headingsMs} ms`);
 
+        // Blocks are few: build both engines synchronously
+        const tBlocks0 = Date.now();
+        const minimalBlockDocs = this.indexManager.getBlockDocs().map((b: BlockDoc) => ({ id: b.id, text: b.text }));
+        this.setBlockDocs(minimalBlockDocs);
+        console.info(`[OmniSwitch] Coordinator:   ↳ Block engines built in ${Date.now() - tBlocks0} ms (blocks=${minimalBlockDocs.length})`);
+
         // Step 4: Index commands and save
         console.info("[OmniSwitch] Coordinator: (4/4) Indexing commands and saving...");
         const tFinal0 = Date.now();
@@ -1076,8 +1884,9 @@ export class SearchCoordinator {
     private applyEngineUpsert(path: string): void {
         const t0 = Date.now();
 		if (!this.indexManager) return;
-        const fileDoc = this.indexManager.getFileDocs().find((f: FileDoc) => f.path === path);
-        const headingDocs = this.indexManager.getHeadingDocs().filter((h: HeadingDoc) => h.path === path);
+        const fileDoc = this.indexManager.getFileDoc(path);
+        const headingDocs = this.indexManager.getHeadingDocsFor(path);
+        const blockDocs = this.indexManager.getBlockDocsFor(path);
         let addedFiles = 0;
         let addedHeadings = 0;
 
@@ -1088,23 +1897,20 @@ export class SearchCoordinator {
                 id: fileDoc.id,
                 name: fileDoc.name,
                 extension: fileDoc.extension,
-                mtime: file ? file.stat.mtime : 0
+                mtime: file ? file.stat.mtime : 0,
+                aliases: fileDoc.aliases,
             };
 
             // Convert to engine doc with numeric ID
             const engineFileDocs = this.toEngineFileDocs([minimalFileDoc]);
+            this.indexStore.recordAdd("files", engineFileDocs[0].id, minimalFileDoc);
 
             // Add or replace file doc (removal already handled prior to update when needed)
             this.fuseEngine.addFiles(engineFileDocs);
             this.miniEngine.addFiles(engineFileDocs);
 
             // Update stored minimal docs
-            const idx = this.currentFileDocs.findIndex(f => f.id === path);
-            if (idx >= 0) {
-                this.currentFileDocs[idx] = minimalFileDoc;
-            } else {
-                this.currentFileDocs.push(minimalFileDoc);
-            }
+            this.currentFileDocs.set(path, minimalFileDoc);
 
             // Update file cache
             if (file) {
@@ -1126,18 +1932,29 @@ export class SearchCoordinator {
 
             // Convert to engine docs with numeric IDs
             const engineHeadingDocs = this.toEngineHeadingDocs(minimalHeadingDocs);
+            engineHeadingDocs.forEach((doc, i) => this.indexStore.recordAdd("headings", doc.id, minimalHeadingDocs[i]));
 
             // Add individual heading docs
             this.fuseEngine.addHeadings(engineHeadingDocs);
             this.miniEngine.addHeadings(engineHeadingDocs);
 
             // Update stored minimal docs
-            this.currentHeadingDocs = this.currentHeadingDocs.filter(h => !h.id.startsWith(path));
-            this.currentHeadingDocs.push(...minimalHeadingDocs);
+            this.currentHeadingDocs.set(path, minimalHeadingDocs);
             addedHeadings = minimalHeadingDocs.length;
         }
+
+        if (blockDocs.length > 0) {
+            const minimalBlockDocs: MinimalBlockDoc[] = blockDocs.map((b: BlockDoc) => ({ id: b.id, text: b.text }));
+            const engineBlockDocs = this.toEngineBlockDocs(minimalBlockDocs);
+            engineBlockDocs.forEach((doc, i) => this.indexStore.recordAdd("blocks", doc.id, minimalBlockDocs[i]));
+            this.fuseEngine.addBlocks(engineBlockDocs);
+            this.miniEngine.addBlocks(engineBlockDocs);
+            for (const doc of minimalBlockDocs) {
+                this.currentBlockDocs.set(doc.id, doc);
+            }
+        }
         const ms = Date.now() - t0;
-        console.info(`[OmniSwitch] Engine diff: +files=${addedFiles}, +headings=${addedHeadings} for ${path} in ${ms} ms`);
+        console.info(`[OmniSwitch] Engine diff: +files=${addedFiles}, +headings=${addedHeadings}, +blocks=${blockDocs.length} for ${path} in ${ms} ms`);
     }
 
     private applyEngineRemove(path: string): void {
@@ -1147,7 +1964,7 @@ export class SearchCoordinator {
         let removedHeadings = 0;
 
         // Remove file doc
-        const fileDoc = this.currentFileDocs.find(f => f.id === path);
+        const fileDoc = this.currentFileDocs.get(path);
         if (fileDoc) {
             // Get numeric ID from reverse map
             const numericId = this.reverseFileIdMap.get(path);
@@ -1163,9 +1980,10 @@ export class SearchCoordinator {
                 // Clean up ID maps
                 this.fileIdMap.delete(numericId);
                 this.reverseFileIdMap.delete(path);
+                this.indexStore.recordRemove("files", numericId);
             }
             // Update stored minimal docs
-            this.currentFileDocs = this.currentFileDocs.filter(f => f.id !== path);
+            this.currentFileDocs.delete(path);
             // Remove from file cache
             this.fileCache.delete(path);
             removedFiles = 1;
@@ -1176,13 +1994,14 @@ export class SearchCoordinator {
                 this.fuseEngine.removeFiles((d) => d.id === numericId);
                 this.fileIdMap.delete(numericId);
                 this.reverseFileIdMap.delete(path);
+                this.indexStore.recordRemove("files", numericId);
             }
             // Remove from file cache anyway
             this.fileCache.delete(path);
         }
 
         // Remove individual headings for this path
-        const headingDocsToRemove = this.currentHeadingDocs.filter(h => h.id.startsWith(path));
+        const headingDocsToRemove = this.currentHeadingDocs.get(path) ?? [];
         if (headingDocsToRemove.length > 0) {
             // Convert to engine docs for removal
             const engineHeadingDocs: EngineHeadingDoc[] = [];
@@ -1193,31 +2012,40 @@ export class SearchCoordinator {
                     // Clean up ID maps
                     this.headingIdMap.delete(numericId);
                     this.reverseHeadingIdMap.delete(h.id);
+                    this.indexStore.recordRemove("headings", numericId);
                 }
             }
             // Remove using numeric IDs
-            const numericIds = engineHeadingDocs.map(d => d.id);
-            this.fuseEngine.removeHeadings((d) => numericIds.includes(d.id));
+            const numericIds = new Set(engineHeadingDocs.map(d => d.id));
+            this.fuseEngine.removeHeadings((d) => numericIds.has(d.id));
             this.miniEngine.removeHeadings(engineHeadingDocs);
             // Update stored minimal docs
-            this.currentHeadingDocs = this.currentHeadingDocs.filter(h => !h.id.startsWith(path));
+            this.currentHeadingDocs.delete(path);
             removedHeadings = headingDocsToRemove.length;
-        } else {
-            // Fallback: find all numeric IDs for this path
-            const headingIds = Array.from(this.reverseHeadingIdMap.entries())
-                .filter(([fullPath]) => fullPath.startsWith(path))
-                .map(([fullPath, numericId]) => {
-                    this.headingIdMap.delete(numericId);
-                    this.reverseHeadingIdMap.delete(fullPath);
-                    return numericId;
-                });
-            if (headingIds.length > 0) {
-                this.fuseEngine.removeHeadings((d) => headingIds.includes(d.id));
+        }
+
+        // Remove blocks for this path
+        const blockPrefix = `${path}#^`;
+        const engineBlockDocs: EngineBlockDoc[] = [];
+        for (const doc of Array.from(this.currentBlockDocs.values())) {
+            if (!doc.id.startsWith(blockPrefix)) continue;
+            const numericId = this.reverseBlockIdMap.get(doc.id);
+            if (numericId) {
+                engineBlockDocs.push({ id: numericId, text: doc.text, blockId: doc.id.slice(blockPrefix.length) });
+                this.blockIdMap.delete(numericId);
+                this.reverseBlockIdMap.delete(doc.id);
+                this.indexStore.recordRemove("blocks", numericId);
             }
+            this.currentBlockDocs.delete(doc.id);
+        }
+        if (engineBlockDocs.length > 0) {
+            const blockIds = new Set(engineBlockDocs.map(d => d.id));
+            this.fuseEngine.removeBlocks((d) => blockIds.has(d.id));
+            this.miniEngine.removeBlocks(engineBlockDocs);
         }
 
         const ms = Date.now() - t0;
-        console.info(`[OmniSwitch] Engine diff: -files=${removedFiles}, -headings=${removedHeadings} for ${path} in ${ms} ms`);
+        console.info(`[OmniSwitch] Engine diff: -files=${removedFiles}, -headings=${removedHeadings}, -blocks=${engineBlockDocs.length} for ${path} in ${ms} ms`);
     }
 
 	/**
@@ -1241,10 +2069,14 @@ export class SearchCoordinator {
 				this.fileIdMap.set(numericId, doc.id);
 				this.reverseFileIdMap.set(doc.id, numericId);
 			}
-			return {
+			const engineDoc: EngineFileDoc = {
 				id: numericId,
 				name: this.stripExtension(doc.name)
 			};
+			if (doc.aliases && doc.aliases.length > 0) {
+				engineDoc.aliases = doc.aliases;
+			}
+			return engineDoc;
 		});
 	}
 
@@ -1268,6 +2100,164 @@ export class SearchCoordinator {
 		});
 	}
 
+	/**
+	 * Convert MinimalBlockDocs to EngineBlockDocs with numeric IDs
+	 */
+	private toEngineBlockDocs(minimalDocs: MinimalBlockDoc[]): EngineBlockDoc[] {
+		return minimalDocs.map(doc => {
+			let numericId = this.reverseBlockIdMap.get(doc.id);
+			if (!numericId) {
+				numericId = String(this.nextBlockId++);
+				this.blockIdMap.set(numericId, doc.id);
+				this.reverseBlockIdMap.set(doc.id, numericId);
+			}
+			return {
+				id: numericId,
+				text: doc.text,
+				blockId: doc.id.slice(doc.id.lastIndexOf("#^") + 2),
+			};
+		});
+	}
+
+	/**
+	 * Replace all block docs and rebuild both engines' block indexes
+	 */
+	private setBlockDocs(minimalDocs: MinimalBlockDoc[]): void {
+		this.currentBlockDocs = new Map(minimalDocs.map((doc) => [doc.id, doc]));
+		const engineBlockDocs = this.toEngineBlockDocs(minimalDocs);
+		this.fuseEngine.setBlocks(engineBlockDocs);
+		this.miniEngine.setBlocks(engineBlockDocs);
+	}
+
+	/**
+	 * Fast path: restore blocks from IndexStore (engine indexes are rebuilt from the minimal docs)
+	 */
+	private async loadBlocksFromStore(): Promise<void> {
+		const t0 = Date.now();
+		const persisted = await this.indexStore.loadBlocks();
+		if (!persisted) {
+			console.info("[OmniSwitch] Coordinator: No persisted blocks; they will be indexed on the next rebuild");
+			return;
+		}
+		this.blockIdMap = new Map(persisted.blockIdMap);
+		this.reverseBlockIdMap = new Map(persisted.blockIdMap.map(([numericId, key]) => [key, numericId]));
+		this.nextBlockId = persisted.nextBlockId;
+		this.setBlockDocs(persisted.docs);
+		console.info(`[OmniSwitch] Coordinator:   ↳ Blocks ready in ${Date.now() - t0} ms (count=${persisted.docs.length})`);
+	}
+
+	/**
+	 * Fast path: apply the delta segments saved since the base indexes. A segment that cannot be read
+	 * or applied leaves the base incomplete, so the indexes are rebuilt.
+	 */
+	private async applyPersistedDeltas(): Promise<void> {
+		const t0 = Date.now();
+		const deltas = await this.indexStore.loadDeltas();
+		try {
+			if (!deltas) throw new Error("Delta segments could not be loaded");
+			for (const delta of deltas) {
+				this.applyIndexDelta(delta);
+			}
+		} catch (error) {
+			console.warn("[OmniSwitch] Coordinator: Failed to apply delta segments; rebuilding indexes", error);
+			this.indexManager?.requestFullRebuild();
+			return;
+		}
+		if (deltas.length > 0) {
+			console.info(`[OmniSwitch] Coordinator:   ↳ Applied ${deltas.length} delta segments in ${Date.now() - t0} ms`);
+		}
+	}
+
+	/**
+	 * Removals first, then additions under the numeric IDs they were saved with
+	 */
+	private applyIndexDelta(delta: IndexDelta): void {
+		const removedFiles = new Set<string>();
+		for (const numericId of delta.removed.files) {
+			const path = this.fileIdMap.get(numericId);
+			if (path === undefined) continue;
+			this.fileIdMap.delete(numericId);
+			this.reverseFileIdMap.delete(path);
+			this.currentFileDocs.delete(path);
+			this.fileCache.delete(path);
+			removedFiles.add(numericId);
+		}
+		if (removedFiles.size > 0) {
+			this.fuseEngine.removeFiles((d) => removedFiles.has(d.id));
+			this.miniEngine.removeFiles(Array.from(removedFiles, (id) => ({ id, name: "" })));
+		}
+
+		const removedHeadings = new Set<string>();
+		for (const numericId of delta.removed.headings) {
+			const key = this.headingIdMap.get(numericId);
+			if (key === undefined) continue;
+			this.headingIdMap.delete(numericId);
+			this.reverseHeadingIdMap.delete(key);
+			removedHeadings.add(numericId);
+			const path = key.slice(0, key.lastIndexOf("::"));
+			const remaining = this.currentHeadingDocs.get(path)?.filter((h) => h.id !== key);
+			if (remaining?.length) {
+				this.currentHeadingDocs.set(path, remaining);
+			} else {
+				this.currentHeadingDocs.delete(path);
+			}
+		}
+		if (removedHeadings.size > 0) {
+			this.fuseEngine.removeHeadings((d) => removedHeadings.has(d.id));
+			this.miniEngine.removeHeadings(Array.from(removedHeadings, (id) => ({ id, title: "" })));
+		}
+
+		const removedBlocks = new Set<string>();
+		for (const numericId of delta.removed.blocks) {
+			const key = this.blockIdMap.get(numericId);
+			if (key === undefined) continue;
+			this.blockIdMap.delete(numericId);
+			this.reverseBlockIdMap.delete(key);
+			this.currentBlockDocs.delete(key);
+			removedBlocks.add(numericId);
+		}
+		if (removedBlocks.size > 0) {
+			this.fuseEngine.removeBlocks((d) => removedBlocks.has(d.id));
+			this.miniEngine.removeBlocks(Array.from(removedBlocks, (id) => ({ id, text: "", blockId: "" })));
+		}
+
+		// toEngine*Docs reuse the IDs registered here
+		for (const [numericId, doc] of delta.added.files) {
+			this.fileIdMap.set(numericId, doc.id);
+			this.reverseFileIdMap.set(doc.id, numericId);
+			this.currentFileDocs.set(doc.id, doc);
+			const file = this.app.vault.getAbstractFileByPath(doc.id);
+			if (isTFile(file)) {
+				this.fileCache.set(doc.id, file);
+			}
+		}
+		const engineFileDocs = this.toEngineFileDocs(delta.added.files.map(([, doc]) => doc));
+		this.fuseEngine.addFiles(engineFileDocs);
+		this.miniEngine.addFiles(engineFileDocs);
+
+		for (const [numericId, doc] of delta.added.headings) {
+			this.headingIdMap.set(numericId, doc.id);
+			this.reverseHeadingIdMap.set(doc.id, numericId);
+			addHeadingDoc(this.currentHeadingDocs, doc);
+		}
+		const engineHeadingDocs = this.toEngineHeadingDocs(delta.added.headings.map(([, doc]) => doc));
+		this.fuseEngine.addHeadings(engineHeadingDocs);
+		this.miniEngine.addHeadings(engineHeadingDocs);
+
+		for (const [numericId, doc] of delta.added.blocks) {
+			this.blockIdMap.set(numericId, doc.id);
+			this.reverseBlockIdMap.set(doc.id, numericId);
+			this.currentBlockDocs.set(doc.id, doc);
+		}
+		const engineBlockDocs = this.toEngineBlockDocs(delta.added.blocks.map(([, doc]) => doc));
+		this.fuseEngine.addBlocks(engineBlockDocs);
+		this.miniEngine.addBlocks(engineBlockDocs);
+
+		this.nextFileId = Math.max(this.nextFileId, delta.nextFileId);
+		this.nextHeadingId = Math.max(this.nextHeadingId, delta.nextHeadingId);
+		this.nextBlockId = Math.max(this.nextBlockId, delta.nextBlockId);
+	}
+
 	private areExcludedPathsEqual(next: string[], prev: string[]): boolean {
 		if (next.length !== prev.length) {
 			return false;
@@ -1283,82 +2273,44 @@ export class SearchCoordinator {
 	}
 
 	/**
-	 * Helper to get index directory path
-	 */
-	private getIndexDir(): string {
-		return `.obsidian/plugins/${this.pluginId}/indexes`;
-	}
-
-	/**
-	 * Load ID maps directly from disk (bypasses IndexStore)
-	 * Returns null if file doesn't exist or version mismatch
+	 * Load ID maps directly from disk (verified and decoded by IndexStore)
+	 * Returns null if file doesn't exist, is damaged or has a version mismatch
 	 */
 	private async loadIdMapsFromDisk(): Promise<{
 		fileIdMap: Array<[string, string]>;
 		headingIdMap: Array<[string, string]>;
 		nextFileId: number;
 		nextHeadingId: number;
+		fileStats?: Array<[string, number, number]>;
 	} | null> {
 		const t0 = Date.now();
-		const adapter = this.app.vault.adapter;
-		const path = `${this.getIndexDir()}/id-maps.json`;
-
-		try {
-			if (!(await adapter.exists(path))) {
-				console.info("[OmniSwitch] Coordinator: No id-maps.json found");
-				return null;
-			}
-
-			const content = await adapter.read(path);
-			const data = JSON.parse(content) as {
-				version: number;
-				fileIdMap: Array<[string, string]>;
-				headingIdMap: Array<[string, string]>;
-				nextFileId: number;
-				nextHeadingId: number;
-			};
-
-			// Check version (must be 6)
-			if (data.version !== 6) {
-				console.info(`[OmniSwitch] Coordinator: Invalid version in id-maps.json (expected=6, got=${data.version})`);
-				return null;
-			}
-
-			const ms = Date.now() - t0;
-			console.info(`[OmniSwitch] Coordinator: Loaded ID maps in ${ms} ms (fileIds=${data.fileIdMap.length}, headingIds=${data.headingIdMap.length})`);
-
-			return {
-				fileIdMap: data.fileIdMap,
-				headingIdMap: data.headingIdMap,
-				nextFileId: data.nextFileId,
-				nextHeadingId: data.nextHeadingId,
-			};
-		} catch (error) {
-			console.warn("[OmniSwitch] Coordinator: Failed to load ID maps", error);
-			return null;
+		const idMaps = await this.indexStore.loadIdMaps();
+		if (idMaps) {
+			console.info(`[OmniSwitch] Coordinator: Loaded ID maps in ${Date.now() - t0} ms (fileIds=${idMaps.fileIdMap.length}, headingIds=${idMaps.headingIdMap.length})`);
 		}
+		return idMaps;
 	}
 
 	/**
-	 * Load Mini headings index directly from disk using MiniSearch.loadJSON()
-	 * v6: Reads raw JSON string and passes directly to MiniSearch (no intermediate parsing)
-	 * Returns false if file doesn't exist
+	 * Hybrid fast path: read the Fuse files and Mini headings index JSON, checked against the manifest.
+	 * Returns null when either is missing or damaged, so startup falls back to a rebuild.
 	 */
-	private async loadMiniHeadingsFromDisk(): Promise<boolean> {
-		const t0 = Date.now();
-		const adapter = this.app.vault.adapter;
-		const version = 6;  // Current version
-		const path = `${this.getIndexDir()}/mini-headings-v${version}.json`;
+	private async readHybridIndexes(): Promise<{ fuseFiles: string; miniHeadings: string } | null> {
+		const [fuseFiles, miniHeadings] = await Promise.all([
+			this.indexStore.readIndexJSON("fuseFiles"),
+			this.indexStore.readIndexJSON("miniHeadings"),
+		]);
+		return fuseFiles && miniHeadings ? { fuseFiles, miniHeadings } : null;
+	}
 
+	/**
+	 * Load Mini headings index using MiniSearch.loadJSON()
+	 * v6: Passes the raw JSON string directly to MiniSearch (no intermediate parsing)
+	 */
+	private loadMiniHeadings(jsonString: string): boolean {
+		const t0 = Date.now();
 		try {
-			if (!(await adapter.exists(path))) {
-				console.info(`[OmniSwitch] Coordinator: No ${path} found`);
-				return false;
-			}
-
-			// v6: Read raw JSON string and pass directly to MiniSearch
 			// NO intermediate parsing! This saves ~3000ms
-			const jsonString = await adapter.read(path);
 			this.miniEngine.loadHeadingsFromJSON(jsonString);
 			this.headingsReady.mini = true;
 
@@ -1373,30 +2325,14 @@ export class SearchCoordinator {
 	}
 
 	/**
-	 * Load Fuse files index directly from disk
-	 * Returns false if file doesn't exist or version mismatch
+	 * Load Fuse files index from its JSON; returns false if it cannot be parsed
 	 */
-	private async loadFuseFilesFromDisk(minimalFileDocs: MinimalFileDoc[]): Promise<boolean> {
+	private loadFuseFiles(minimalFileDocs: MinimalFileDoc[], indexJSON: string): boolean {
 		const t0 = Date.now();
-		const adapter = this.app.vault.adapter;
-		const path = `${this.getIndexDir()}/fuse-files.json`;
-
 		try {
-			if (!(await adapter.exists(path))) {
-				console.info("[OmniSwitch] Coordinator: No fuse-files.json found");
-				return false;
-			}
-
-			const content = await adapter.read(path);
-			const data = JSON.parse(content) as { version: number; index: unknown };
-
-			if (data.version !== 6) {
-				console.info(`[OmniSwitch] Coordinator: Invalid version in fuse-files.json (expected=6, got=${data.version})`);
-				return false;
-			}
-
+			const index: unknown = JSON.parse(indexJSON);
 			const engineFileDocs = this.toEngineFileDocs(minimalFileDocs);
-			this.fuseEngine.loadFilesFromIndex(engineFileDocs, data.index);
+			this.fuseEngine.loadFilesFromIndex(engineFileDocs, index);
 			this.filesReady.fuse = true;
 
 			const ms = Date.now() - t0;
@@ -1409,3 +2345,22 @@ export class SearchCoordinator {
 		}
 	}
 }
+
+/** Group "folder/note.md::3" heading docs by the path of their note, keeping their order */
+function groupHeadingDocs(docs: MinimalHeadingDoc[]): Map<string, MinimalHeadingDoc[]> {
+	const byPath = new Map<string, MinimalHeadingDoc[]>();
+	for (const doc of docs) {
+		addHeadingDoc(byPath, doc);
+	}
+	return byPath;
+}
+
+function addHeadingDoc(byPath: Map<string, MinimalHeadingDoc[]>, doc: MinimalHeadingDoc): void {
+	const path = doc.id.slice(0, doc.id.lastIndexOf("::"));
+	const docs = byPath.get(path);
+	if (docs) {
+		docs.push(doc);
+	} else {
+		byPath.set(path, [doc]);
+	}
+}
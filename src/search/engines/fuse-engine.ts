@@ -1,24 +1,39 @@
 import Fuse, { type IFuseOptions, type FuseIndex, type FuseOptionKey } from "fuse.js";
 import type { EngineResult } from "./types";
-import type { FileSearchItem, HeadingSearchItem, CommandSearchItem } from "../types";
+import type { FileSearchItem, HeadingSearchItem, CommandSearchItem, BlockSearchItem } from "../types";
+import { fromFuseIndices, literalRanges, queryTerms } from "../highlight";
+import { initialism, splitWords } from "../tokenize";
+
+type FuseMatch = { key?: string; value?: string; indices?: ReadonlyArray<readonly [number, number]> };
 
 // Engine-only doc types (minimal data for search indexes - numeric IDs, no extensions)
 export interface EngineFileDoc {
 	id: string;   // numeric ID (e.g., "5678")
 	name: string; // filename without extension (e.g., "note")
+	aliases?: string[]; // frontmatter aliases (e.g., ["K8s", "Kubernetes"])
 }
 
+// File doc as Fuse indexes it: the name also split into words and reduced to its initials
+type FuseFileDoc = EngineFileDoc & { words: string; initials: string };
+
 export interface EngineHeadingDoc {
 	id: string;   // numeric ID (e.g., "12345")
 	title: string; // heading text for search
 }
 
+export interface EngineBlockDoc {
+	id: string;      // numeric ID (e.g., "321")
+	text: string;    // block preview text for search
+	blockId: string; // "^id" without the caret, also searchable
+}
+
 // Coordinator storage types (kept for filtering and metadata)
 export interface MinimalFileDoc {
 	id: string;        // path (e.g., "folder/file.md")
 	name: string;      // for search
 	extension: string; // for filtering
 	mtime: number;     // for change detection
+	aliases?: string[]; // frontmatter aliases, for search
 }
 
 export interface MinimalHeadingDoc {
@@ -26,6 +41,11 @@ export interface MinimalHeadingDoc {
 	title: string; // for search
 }
 
+export interface MinimalBlockDoc {
+	id: string;   // "path/file.md#^block-id"
+	text: string; // preview, kept for rendering (blocks are few, so this is persisted)
+}
+
 // Full doc types with TFile references (for slow path building)
 export interface FileDoc {
 	id: string;
@@ -33,6 +53,7 @@ export interface FileDoc {
 	name: string;
 	extension: string;
 	parent: string | null;
+	aliases: string[];
 	item: FileSearchItem | null;
 }
 
@@ -44,6 +65,14 @@ export interface HeadingDoc {
 	item: HeadingSearchItem | null;
 }
 
+export interface BlockDoc {
+	id: string;      // "path/file.md#^block-id"
+	path: string;
+	blockId: string;
+	text: string;
+	item: BlockSearchItem | null;
+}
+
 export interface CommandDoc {
 	id: string;
 	name: string;
@@ -51,18 +80,31 @@ export interface CommandDoc {
 }
 
 export class FuseEngine {
-    private fileIndex: Fuse<EngineFileDoc> | null = null;
+    private fileIndex: Fuse<FuseFileDoc> | null = null;
     private headingIndex: Fuse<EngineHeadingDoc> | null = null;
     private commandIndex: Fuse<CommandDoc> | null = null;
+    private blockIndex: Fuse<EngineBlockDoc> | null = null;
+    private aliasWeight = 0.8;
+
+    setAliasWeight(weight: number): void {
+        if (weight === this.aliasWeight) return;
+        this.aliasWeight = weight;
+        if (!this.fileIndex) return;
+        // Key weights live in the Fuse options, not the index: re-wrap the existing index
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const f = this.fileIndex as any;
+        this.fileIndex = new Fuse<FuseFileDoc>(f._docs, this.fileOptions(), f.getIndex());
+    }
 
     setFiles(docs: EngineFileDoc[]): void {
         const t0 = Date.now();
         if (docs.length > 0) {
             const opts = this.fileOptions();
+            const tokenized = docs.map(withNameTokens);
             // Prebuild index to speed initial search
-            const keys = (opts.keys ?? []).map((k: FuseOptionKey<EngineFileDoc>) => (typeof k === "string" ? k : (k as { name: string }).name));
-            const idx = Fuse.createIndex(keys, docs);
-            this.fileIndex = new Fuse(docs, opts, idx);
+            const keys = (opts.keys ?? []).map((k: FuseOptionKey<FuseFileDoc>) => (typeof k === "string" ? k : (k as { name: string }).name));
+            const idx = Fuse.createIndex(keys, tokenized);
+            this.fileIndex = new Fuse(tokenized, opts, idx);
         } else {
             this.fileIndex = null;
         }
@@ -84,6 +126,14 @@ export class FuseEngine {
         console.info(`[OmniSwitch] Fuse: headings index in ${ms} ms (headings=${docs.length})`);
     }
 
+    setBlocks(docs: EngineBlockDoc[]): void {
+        const t0 = Date.now();
+        // Fuse keeps (and splices on remove) the array it is given, so hand it a copy
+        this.blockIndex = docs.length > 0 ? new Fuse([...docs], this.blockOptions()) : null;
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Fuse: blocks index in ${ms} ms (blocks=${docs.length})`);
+    }
+
     setCommands(docs: CommandDoc[]): void {
         const t0 = Date.now();
         this.commandIndex = docs.length > 0 ? new Fuse(docs, this.commandOptions()) : null;
@@ -97,7 +147,7 @@ export class FuseEngine {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const parsed = (Fuse as any).parseIndex ? (Fuse as any).parseIndex(rawIndex) : rawIndex;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        this.fileIndex = docs.length > 0 ? new (Fuse as any)(docs, this.fileOptions(), parsed) as Fuse<EngineFileDoc> : null;
+        this.fileIndex = docs.length > 0 ? new (Fuse as any)(docs.map(withNameTokens), this.fileOptions(), parsed) as Fuse<FuseFileDoc> : null;
         const ms = Date.now() - t0;
         console.info(`[OmniSwitch] Fuse: files loadIndex in ${ms} ms (files=${docs.length})`);
     }
@@ -150,7 +200,7 @@ export class FuseEngine {
         if (!this.fileIndex) return;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const f = this.fileIndex as any;
-        for (const d of docs) f.add(d);
+        for (const d of docs) f.add(withNameTokens(d));
     }
     removeFiles(predicate: (doc: EngineFileDoc) => boolean): void {
         if (!this.fileIndex) return;
@@ -168,6 +218,19 @@ export class FuseEngine {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         (this.headingIndex as any).remove(predicate);
     }
+    // Vaults often start with no blocks at all, so the first add creates the index
+    addBlocks(docs: EngineBlockDoc[]): void {
+        if (docs.length === 0) return;
+        if (!this.blockIndex) {
+            this.blockIndex = new Fuse([...docs], this.blockOptions());
+            return;
+        }
+        for (const d of docs) this.blockIndex.add(d);
+    }
+    removeBlocks(predicate: (doc: EngineBlockDoc) => boolean): void {
+        if (!this.blockIndex) return;
+        this.blockIndex.remove(predicate);
+    }
 
 	searchFiles(query: string, limit?: number): EngineResult[] {
 		return this.run(this.fileIndex, query, limit);
@@ -182,6 +245,10 @@ export class FuseEngine {
 		return this.run(this.commandIndex, query, limit);
 	}
 
+	searchBlocks(query: string, limit?: number): EngineResult[] {
+		return this.run(this.blockIndex, query, limit);
+	}
+
 	private run<T extends { id: string }>(index: Fuse<T> | null, query: string, limit?: number): EngineResult[] {
 		const trimmed = query.trim();
 		if (!index || trimmed.length === 0) {
@@ -192,13 +259,43 @@ export class FuseEngine {
 		const opts: any = limit ? { limit } : undefined;
 		const t0 = Date.now();
 		console.log(`[FuseEngine] Starting search: query="${trimmed}", limit=${limit}, hasIndex=${!!index}`);
-		const results = (index.search as unknown as (q: string, o?: unknown) => Array<{ item: T; score?: number }>)(trimmed, opts);
+		const results = (index.search as unknown as (q: string, o?: unknown) => Array<{ item: T; score?: number; matches?: ReadonlyArray<FuseMatch> }>)(trimmed, opts);
 		const ms = Date.now() - t0;
 		console.log(`[FuseEngine] Search completed: ${ms}ms, rawResults=${results.length}`);
-		return results.map((result) => ({
-			id: result.item.id,
-			score: this.normalizeScore(result.score),
-		}));
+		const terms = queryTerms(trimmed);
+		return results.map((result) => {
+			const mapped: EngineResult = {
+				id: result.item.id,
+				score: this.normalizeScore(result.score),
+				terms,
+			};
+			const alias = this.matchedAlias(result.matches);
+			if (alias) {
+				mapped.alias = alias;
+			}
+			// Only indexes built with includeMatches report positions, and only name/alias positions map onto the
+			// displayed title; the rest (and word/initials hits) are highlighted from terms
+			const matched = alias
+				? result.matches?.find((m) => m.key === "aliases" && m.value === alias)
+				: result.matches?.find((m) => m.key !== "aliases" && m.key !== "words" && m.key !== "initials");
+			if (matched?.indices) {
+				// Fuse marks every loosely matching character; prefer literal term hits when there are any
+				const literal = matched.value ? literalRanges(matched.value, terms) : [];
+				mapped.matches = literal.length > 0 ? literal : fromFuseIndices(matched.indices);
+			}
+			return mapped;
+		});
+	}
+
+	// Report an alias only when the name itself did not match
+	private matchedAlias(matches: ReadonlyArray<FuseMatch> | undefined): string | null {
+		if (!matches || matches.length === 0) {
+			return null;
+		}
+		if (matches.some((m) => m.key === "name")) {
+			return null;
+		}
+		return matches.find((m) => m.key === "aliases")?.value ?? null;
 	}
 
 	private normalizeScore(rawScore: number | undefined): number {
@@ -209,16 +306,20 @@ export class FuseEngine {
 		return 1 - clamped;
 	}
 
-    private fileOptions(): IFuseOptions<EngineFileDoc> {
+    private fileOptions(): IFuseOptions<FuseFileDoc> {
         return {
             includeScore: true,
             ignoreLocation: true,
             shouldSort: true,
             useExtendedSearch: true,
+            includeMatches: true, // needed to tell alias hits apart from name hits
             threshold: 0.4,
             minMatchCharLength: 1,
             keys: [
-                { name: "name", weight: 1 },  // only search by name (no extension, no path)
+                { name: "name", weight: 1 },  // search by name (no extension, no path)
+                { name: "aliases", weight: this.aliasWeight },
+                { name: "words", weight: 0.9 },    // camelCase/snake_case/kebab-case parts of the name
+                { name: "initials", weight: 0.7 }, // "qrr" for quarterlyRevenueReport
             ],
         };
     }
@@ -238,6 +339,20 @@ export class FuseEngine {
         };
     }
 
+    private blockOptions(): IFuseOptions<EngineBlockDoc> {
+        return {
+            includeScore: true,
+            ignoreLocation: true,
+            shouldSort: true,
+            threshold: 0.3,
+            minMatchCharLength: 1,
+            keys: [
+                { name: "text", weight: 1 },
+                { name: "blockId", weight: 0.5 },
+            ],
+        };
+    }
+
 	private commandOptions(): IFuseOptions<CommandDoc> {
 		return {
 			includeScore: true,
@@ -251,3 +366,7 @@ export class FuseEngine {
 		};
 	}
 }
+
+function withNameTokens(doc: EngineFileDoc): FuseFileDoc {
+	return { ...doc, words: splitWords(doc.name).join(" "), initials: initialism(doc.name) };
+}
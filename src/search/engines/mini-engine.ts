@@ -1,12 +1,28 @@
 import MiniSearch, { type AsPlainObject, type Options as MiniSearchOptions, type SearchResult as MiniSearchResult } from "minisearch";
-import type { EngineResult } from "./types";
-import type { EngineFileDoc, EngineHeadingDoc, CommandDoc } from "./fuse-engine";
+import type { ContentEngineResult, EngineResult } from "./types";
+import type { EngineFileDoc, EngineHeadingDoc, EngineBlockDoc, CommandDoc } from "./fuse-engine";
+import { initialism, splitWords, tokenizeName } from "../tokenize";
 // no custom normalization; rely on engine defaults
 
+// Paragraph chunk of a note body (content mode always uses MiniSearch: an inverted index scales to body text)
+export interface EngineContentDoc {
+    id: string;   // numeric ID
+    text: string;
+    line: number; // 0-based line where the chunk starts
+}
+
 export class MiniSearchEngine {
     private files: MiniSearch<EngineFileDoc> | null = null;
     private headings: MiniSearch<EngineHeadingDoc> | null = null;
     private commands: MiniSearch<CommandDoc> | null = null;
+    private contents: MiniSearch<EngineContentDoc> | null = null;
+    private blocks: MiniSearch<EngineBlockDoc> | null = null;
+    private aliasWeight = 0.8;
+
+    // Applied as a search-time boost, so no rebuild is needed
+    setAliasWeight(weight: number): void {
+        this.aliasWeight = weight;
+    }
 
     setFiles(docs: EngineFileDoc[]): void {
         const t0 = Date.now();
@@ -62,6 +78,29 @@ export class MiniSearchEngine {
         }
     }
 
+    setBlocks(docs: EngineBlockDoc[]): void {
+        const t0 = Date.now();
+        this.blocks = this.buildIndex(docs, this.blockOptions());
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Mini: blocks index in ${ms} ms (blocks=${docs.length})`);
+    }
+
+    addBlocks(docs: EngineBlockDoc[]): void {
+        if (docs.length === 0) return;
+        if (!this.blocks) {
+            this.blocks = this.buildIndex(docs, this.blockOptions());
+            return;
+        }
+        this.blocks.addAll(docs);
+    }
+
+    removeBlocks(docs: EngineBlockDoc[]): void {
+        if (!this.blocks || docs.length === 0) return;
+        for (const d of docs) {
+            this.blocks.discard(d.id);
+        }
+    }
+
     setCommands(docs: CommandDoc[]): void {
         const t0 = Date.now();
         this.commands = this.buildIndex(docs, this.commandOptions());
@@ -69,6 +108,39 @@ export class MiniSearchEngine {
         console.info(`[OmniSwitch] Mini: commands index in ${ms} ms (commands=${docs.length})`);
     }
 
+    async setContentAsync(docs: EngineContentDoc[]): Promise<void> {
+        const t0 = Date.now();
+        this.contents = await this.buildIndexAsync(docs, this.contentOptions());
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Mini: content index in ${ms} ms (chunks=${docs.length})`);
+    }
+
+    addContent(docs: EngineContentDoc[]): void {
+        if (docs.length === 0) return;
+        if (!this.contents) {
+            this.contents = this.buildIndex(docs, this.contentOptions());
+            return;
+        }
+        this.contents.addAll(docs);
+    }
+
+    removeContent(ids: string[]): void {
+        if (!this.contents || ids.length === 0) return;
+        for (const id of ids) {
+            this.contents.discard(id);
+        }
+    }
+
+    clearContent(): void {
+        this.contents = null;
+    }
+
+    // Length of a stored chunk (used to restore the memory budget after loading from disk)
+    getContentLength(id: string): number {
+        const text = this.contents?.getStoredFields(id)?.text;
+        return typeof text === "string" ? text.length : 0;
+    }
+
     // Persistence
     filesToJSON(): unknown | null {
         return this.files ? this.files.toJSON() : null;
@@ -76,6 +148,9 @@ export class MiniSearchEngine {
     headingsToJSON(): unknown | null {
         return this.headings ? this.headings.toJSON() : null;
     }
+    contentToJSON(): unknown | null {
+        return this.contents ? this.contents.toJSON() : null;
+    }
 
     hasFilesIndex(): boolean {
         return !!this.files;
@@ -107,6 +182,16 @@ export class MiniSearchEngine {
         console.info(`[OmniSwitch] Mini: headings loaded from JS in ${ms} ms (headings=${docs.length}, rate=${Math.round(docs.length / (ms / 1000))} docs/sec)`);
     }
 
+    loadContentFromJS(indexObj: AsPlainObject): void {
+        const t0 = Date.now();
+        this.contents = MiniSearch.loadJS(indexObj, {
+            ...this.contentOptions(),
+            idField: "id",
+        } as MiniSearchOptions<EngineContentDoc>);
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Mini: content loaded from JS in ${ms} ms (chunks=${this.contents.documentCount})`);
+    }
+
     loadHeadingsFromJSON(jsonString: string): void {
         const t0 = Date.now();
         console.info(`[OmniSwitch] Mini: Loading headings from JSON string (${(jsonString.length / 1024 / 1024).toFixed(1)}MB)...`);
@@ -121,7 +206,7 @@ export class MiniSearchEngine {
     }
 
 	searchFiles(query: string, limit?: number): EngineResult[] {
-		return this.run(this.files, query, limit);
+		return this.run(this.files, query, limit, { boost: { aliases: this.aliasWeight } });
 	}
 
 	// Search returns individual heading results directly
@@ -133,6 +218,32 @@ export class MiniSearchEngine {
 		return this.run(this.commands, query, limit);
 	}
 
+	searchBlocks(query: string, limit?: number): EngineResult[] {
+		return this.run(this.blocks, query, limit);
+	}
+
+	// Body text: every word must match (prefix on the last one), so multi-word queries narrow down
+	searchContent(query: string, limit?: number): ContentEngineResult[] {
+		const trimmed = query.trim();
+		if (!this.contents || trimmed.length === 0) {
+			return [];
+		}
+		const results = this.contents.search(trimmed, {
+			prefix: (term, i, terms) => i === terms.length - 1,
+			fuzzy: (term) => term.length >= 5 ? 0.1 : false,
+			maxFuzzy: 1,
+			combineWith: "AND",
+		}) as MiniSearchResult[];
+		const limited = typeof limit === "number" ? results.slice(0, limit) : results;
+		return limited.map((result) => ({
+			id: result.id,
+			score: typeof result.score === "number" ? result.score : 0,
+			text: typeof result.text === "string" ? result.text : "",
+			line: typeof result.line === "number" ? result.line : 0,
+			terms: result.terms,
+		}));
+	}
+
     private buildIndex<T extends { id: string }>(docs: T[], options: MiniSearchOptions<T>): MiniSearch<T> | null {
         if (docs.length === 0) {
             return null;
@@ -168,7 +279,7 @@ export class MiniSearchEngine {
         return index;
     }
 
-	private run<T extends { id: string }>(index: MiniSearch<T> | null, query: string, limit?: number): EngineResult[] {
+	private run<T extends { id: string }>(index: MiniSearch<T> | null, query: string, limit?: number, extra?: { boost?: Record<string, number> }): EngineResult[] {
 		let trimmed = query.trim();
 		if (!index || trimmed.length === 0) {
 			return [];
@@ -214,24 +325,53 @@ export class MiniSearchEngine {
         // AND requires computing intersection of potentially huge result sets
         const isMultiWord = filteredWords.length > 1;
 
+        // Only pass boost when set: an explicit `boost: undefined` overrides the MiniSearch default and makes search throw
         const results = index.search(trimmed, {
             prefix: true,
             fuzzy: fuzzyValue,
             maxFuzzy: maxFuzzy,
             combineWith: isMultiWord ? "OR" : "AND",
+            ...(extra?.boost ? { boost: extra.boost } : {}),
         }) as MiniSearchResult[];
 
         const limited = typeof limit === "number" ? results.slice(0, limit) : results;
-        return limited.map(result => ({
-            id: result.id,
-            score: typeof result.score === "number" ? result.score : 0,
-        }));
+        return limited.map(result => {
+            const mapped: EngineResult = {
+                id: result.id,
+                score: typeof result.score === "number" ? result.score : 0,
+                terms: result.terms,
+            };
+            const alias = this.matchedAlias(result);
+            if (alias) {
+                mapped.alias = alias;
+            }
+            return mapped;
+        });
+    }
+
+    // Report an alias only when no query term matched the name field
+    private matchedAlias(result: MiniSearchResult): string | null {
+        const aliases = result.aliases as string[] | undefined;
+        if (!Array.isArray(aliases) || aliases.length === 0) {
+            return null;
+        }
+        const fields = Object.values(result.match).flat();
+        if (fields.includes("name") || !fields.includes("aliases")) {
+            return null;
+        }
+        const terms = result.terms.map((t) => t.toLowerCase());
+        return aliases.find((a) => terms.some((t) => a.toLowerCase().includes(t))) ?? aliases[0];
     }
 
 	private fileOptions(): MiniSearchOptions<EngineFileDoc> {
 		return {
-			fields: ["name"],  // only search by name (no extension, no path)
-			storeFields: [],
+			fields: ["name", "aliases", "initials"],  // search by name, aliases and the name's initials (no extension, no path)
+			storeFields: ["aliases"],                 // lets results report which alias matched
+			extractField: (doc, field) => field === "initials" ? initialism(doc.name) : (doc as unknown as Record<string, unknown>)[field],
+			stringifyField: (value: unknown) => Array.isArray(value) ? value.join(" ") : String(value),
+			// Names split at case, separator and digit changes; initials stay one token
+			tokenize: (text, field) => field === "initials" ? (text ? [text] : []) : tokenizeName(text),
+			searchOptions: { tokenize: splitWords },
 		};
 	}
 
@@ -242,6 +382,20 @@ export class MiniSearchEngine {
         };
     }
 
+    private contentOptions(): MiniSearchOptions<EngineContentDoc> {
+        return {
+            fields: ["text"],
+            storeFields: ["text", "line"],  // snippets are cut from the stored chunk
+        };
+    }
+
+    private blockOptions(): MiniSearchOptions<EngineBlockDoc> {
+        return {
+            fields: ["text", "blockId"],
+            storeFields: [],
+        };
+    }
+
     private commandOptions(): MiniSearchOptions<CommandDoc> {
         return {
             fields: ["name"],
@@ -1,4 +1,15 @@
+import type { MatchRange } from "../types";
+
 export interface EngineResult {
 	id: string;
 	score: number;
+	alias?: string;         // set when the hit matched a frontmatter alias rather than the name
+	matches?: MatchRange[]; // ranges in the matched field, when the engine tracks positions
+	terms?: string[];       // query or index terms that matched
+}
+
+export interface ContentEngineResult extends EngineResult {
+	text: string;    // stored chunk text, used to build the snippet
+	line: number;    // 0-based line where the chunk starts
+	terms: string[]; // index terms that matched the query
 }
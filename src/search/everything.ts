@@ -0,0 +1,49 @@
+// "Everything" mode: notes, headings and commands searched together and shown as grouped sections
+
+import type { SearchHit, SearchItem } from "./types";
+
+export type EverythingGroupId = "files" | "headings" | "commands";
+
+export interface EverythingGroup {
+	id: EverythingGroupId;
+	label: string; // section header
+	cap: number;   // most rows the section may take
+}
+
+export const EVERYTHING_GROUPS: readonly EverythingGroup[] = [
+	{ id: "files", label: "Notes", cap: 8 },
+	{ id: "headings", label: "Headings", cap: 6 },
+	{ id: "commands", label: "Commands", cap: 5 },
+];
+
+export function everythingGroupOf(item: SearchItem): EverythingGroupId | null {
+	switch (item.type) {
+		case "file":
+			return "files";
+		case "heading":
+			return "headings";
+		case "command":
+			return "commands";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Split calibrated hits into sections, each capped and sorted by score; sections are ordered by their best hit
+ * and the whole list is cut at `limit`. Hits outside the known groups are dropped.
+ */
+export function groupEverythingHits(hits: SearchHit[], limit: number, groups: readonly EverythingGroup[] = EVERYTHING_GROUPS): SearchHit[] {
+	const sections = groups.map((group) => ({
+		group,
+		hits: hits
+			.filter((hit) => everythingGroupOf(hit.item) === group.id)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, group.cap),
+	}));
+	return sections
+		.filter((section) => section.hits.length > 0)
+		.sort((a, b) => b.hits[0]!.score - a.hits[0]!.score)
+		.flatMap((section) => section.hits)
+		.slice(0, limit);
+}
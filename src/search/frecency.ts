@@ -0,0 +1,185 @@
+// Frecency: how often and how recently an item was chosen, decayed by a half-life
+
+import type { SearchHit, SearchItem } from "./types";
+
+export interface FrecencyData {
+	version: number;
+	entries: Record<string, number[]>; // key -> visit timestamps (ms), oldest first
+}
+
+const FRECENCY_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_VISITS_PER_KEY = 20;
+const MAX_KEYS = 2000;
+
+/**
+ * Stable key for an item, or null for items that are navigation rather than destinations (folders, tags).
+ * Content matches and tabs count towards the file they open.
+ */
+export function frecencyKey(item: SearchItem): string | null {
+	switch (item.type) {
+		case "file":
+			return `file:${item.file.path}`;
+		case "content":
+			return `file:${item.file.path}`;
+		case "tab":
+			return `file:${item.path}`;
+		case "heading":
+			return `heading:${item.file.path}#${item.heading.heading}`;
+		case "block":
+			return `block:${item.file.path}#^${item.blockId}`;
+		case "command":
+			return `command:${item.command.id}`;
+		case "provider":
+			return `provider:${item.providerId}:${item.result.id}`;
+		default:
+			return null;
+	}
+}
+
+export class FrecencyStore {
+	private readonly entries = new Map<string, number[]>();
+
+	constructor(data?: unknown, private readonly onChange?: () => void) {
+		this.load(data);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	record(item: SearchItem, now = Date.now()): void {
+		const key = frecencyKey(item);
+		if (!key) {
+			return;
+		}
+		const visits = this.entries.get(key) ?? [];
+		visits.push(now);
+		if (visits.length > MAX_VISITS_PER_KEY) {
+			visits.splice(0, visits.length - MAX_VISITS_PER_KEY);
+		}
+		// Re-insert so Map order stays least-recently-used first for eviction
+		this.entries.delete(key);
+		this.entries.set(key, visits);
+		if (this.entries.size > MAX_KEYS) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest !== undefined) {
+				this.entries.delete(oldest);
+			}
+		}
+		this.onChange?.();
+	}
+
+	/**
+	 * Sum of visits, each halved for every `halfLifeDays` since it happened.
+	 */
+	score(item: SearchItem, halfLifeDays: number, now = Date.now()): number {
+		const key = frecencyKey(item);
+		const visits = key ? this.entries.get(key) : undefined;
+		if (!visits || visits.length === 0) {
+			return 0;
+		}
+		const halfLifeMs = Math.max(1, halfLifeDays) * DAY_MS;
+		let total = 0;
+		for (const ts of visits) {
+			total += Math.pow(0.5, Math.max(0, now - ts) / halfLifeMs);
+		}
+		return total;
+	}
+
+	/**
+	 * Paths of notes opened directly or through one of their headings, blocks, content matches or tabs
+	 */
+	visitedPaths(): Set<string> {
+		const paths = new Set<string>();
+		for (const key of this.entries.keys()) {
+			const colon = key.indexOf(":");
+			const kind = key.slice(0, colon);
+			if (kind === "file" || kind === "heading" || kind === "block") {
+				const rest = key.slice(colon + 1);
+				const hash = rest.indexOf("#");
+				paths.add(hash === -1 ? rest : rest.slice(0, hash));
+			}
+		}
+		return paths;
+	}
+
+	/**
+	 * Move history recorded for a file (and its headings/blocks) to its new path.
+	 */
+	renamePath(oldPath: string, newPath: string): void {
+		let changed = false;
+		for (const [key, visits] of [...this.entries]) {
+			const renamed = renameKey(key, oldPath, newPath);
+			if (renamed && renamed !== key) {
+				this.entries.delete(key);
+				const existing = this.entries.get(renamed) ?? [];
+				this.entries.set(renamed, [...existing, ...visits].sort((a, b) => a - b).slice(-MAX_VISITS_PER_KEY));
+				changed = true;
+			}
+		}
+		if (changed) {
+			this.onChange?.();
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.onChange?.();
+	}
+
+	toJSON(): FrecencyData {
+		return { version: FRECENCY_VERSION, entries: Object.fromEntries(this.entries) };
+	}
+
+	private load(data: unknown): void {
+		if (!data || typeof data !== "object") {
+			return;
+		}
+		const record = data as Partial<FrecencyData>;
+		if (record.version !== FRECENCY_VERSION || !record.entries || typeof record.entries !== "object") {
+			return;
+		}
+		for (const [key, visits] of Object.entries(record.entries)) {
+			if (!Array.isArray(visits)) {
+				continue;
+			}
+			const valid = visits.filter((ts): ts is number => typeof ts === "number" && Number.isFinite(ts));
+			if (valid.length > 0) {
+				this.entries.set(key, valid.slice(-MAX_VISITS_PER_KEY));
+			}
+		}
+	}
+}
+
+function renameKey(key: string, oldPath: string, newPath: string): string | null {
+	const colon = key.indexOf(":");
+	const rest = key.slice(colon + 1);
+	if (key.startsWith("command:") || key.startsWith("provider:")) {
+		return null;
+	}
+	if (rest === oldPath || rest.startsWith(`${oldPath}#`)) {
+		return `${key.slice(0, colon + 1)}${newPath}${rest.slice(oldPath.length)}`;
+	}
+	return null;
+}
+
+/**
+ * Blend engine relevance with frecency: both are scaled to 0..1 and mixed by `weight` (0 keeps engine order).
+ * Engine scores are relative to the best hit so Fuse and MiniSearch scales mix the same way.
+ */
+export function blendFrecency<T extends Pick<SearchHit, "item" | "score">>(hits: T[], frecencyOf: (item: SearchItem) => number, weight: number): T[] {
+	if (weight <= 0 || hits.length === 0) {
+		return hits;
+	}
+	const w = Math.min(1, weight);
+	const best = Math.max(...hits.map((hit) => hit.score));
+	return hits
+		.map((hit) => {
+			const relevance = best > 0 ? hit.score / best : 0;
+			const f = frecencyOf(hit.item);
+			const recency = f / (f + 1);
+			return { ...hit, score: (1 - w) * relevance + w * recency };
+		})
+		.sort((a, b) => b.score - a.score);
+}
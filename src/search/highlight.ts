@@ -0,0 +1,111 @@
+// Match ranges for highlighting result text: [start, end) offsets, sorted and non-overlapping
+
+import type { MatchRange } from "./types";
+
+// Fuse extended-search operators around a word: 'exact ^prefix suffix$ =equal !negated
+const LEADING_OPERATORS = /^[='^]+/;
+const TRAILING_OPERATORS = /\$+$/;
+
+/**
+ * Words of a query as plain terms, without extended-search operators; negated words are dropped.
+ */
+export function queryTerms(query: string): string[] {
+	const terms: string[] = [];
+	for (const word of query.trim().split(/\s+/)) {
+		if (word.length === 0 || word.startsWith("!")) {
+			continue;
+		}
+		const term = word.replace(LEADING_OPERATORS, "").replace(TRAILING_OPERATORS, "");
+		if (term.length > 0) {
+			terms.push(term);
+		}
+	}
+	return terms;
+}
+
+/**
+ * Fuse reports inclusive [start, end] indices; convert them to [start, end) ranges.
+ */
+export function fromFuseIndices(indices: ReadonlyArray<readonly [number, number]>): MatchRange[] {
+	return mergeRanges(indices.map(([start, end]) => [start, end + 1]));
+}
+
+/**
+ * Ranges where any term occurs in `text` (case-insensitive). A term with no literal occurrence
+ * falls back to its characters in order, so fuzzy hits like "rdmp" → "Roadmap" still light up.
+ */
+export function highlightRanges(text: string, terms: readonly string[]): MatchRange[] {
+	if (text.length === 0 || terms.length === 0) {
+		return [];
+	}
+	const lower = text.toLowerCase();
+	const ranges: MatchRange[] = [];
+	for (const raw of terms) {
+		const term = raw.toLowerCase();
+		const found = occurrences(lower, term);
+		ranges.push(...(found.length > 0 ? found : subsequenceRanges(lower, term)));
+	}
+	return mergeRanges(ranges);
+}
+
+/**
+ * Ranges of literal (case-insensitive) term occurrences only, without the fuzzy fallback.
+ */
+export function literalRanges(text: string, terms: readonly string[]): MatchRange[] {
+	const lower = text.toLowerCase();
+	const ranges: MatchRange[] = [];
+	for (const raw of terms) {
+		ranges.push(...occurrences(lower, raw.toLowerCase()));
+	}
+	return mergeRanges(ranges);
+}
+
+function occurrences(lower: string, term: string): MatchRange[] {
+	const ranges: MatchRange[] = [];
+	if (term.length === 0) {
+		return ranges;
+	}
+	let at = lower.indexOf(term);
+	while (at !== -1) {
+		ranges.push([at, at + term.length]);
+		at = lower.indexOf(term, at + term.length);
+	}
+	return ranges;
+}
+
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+	if (ranges.length <= 1) {
+		return ranges;
+	}
+	const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+	const merged: MatchRange[] = [[sorted[0][0], sorted[0][1]]];
+	for (let i = 1; i < sorted.length; i++) {
+		const last = merged[merged.length - 1];
+		const [start, end] = sorted[i];
+		if (start <= last[1]) {
+			last[1] = Math.max(last[1], end);
+		} else {
+			merged.push([start, end]);
+		}
+	}
+	return merged;
+}
+
+function subsequenceRanges(lower: string, term: string): MatchRange[] {
+	const ranges: MatchRange[] = [];
+	let from = 0;
+	for (const ch of term) {
+		const at = lower.indexOf(ch, from);
+		if (at === -1) {
+			return [];
+		}
+		const last = ranges[ranges.length - 1];
+		if (last && last[1] === at) {
+			last[1] = at + 1;
+		} else {
+			ranges.push([at, at + 1]);
+		}
+		from = at + 1;
+	}
+	return ranges;
+}
@@ -1,10 +1,13 @@
-import type { App, HeadingCache, TFile, TFolder } from "obsidian";
-import { type PersistedFileEntry, type PersistedHeadingEntry, normalizePath } from "./model";
+import type { App, CachedMetadata, HeadingCache, TFile, TFolder } from "obsidian";
+import { type PersistedBlockEntry, type PersistedFileEntry, type PersistedHeadingEntry, normalizePath } from "./model";
+import type { JournalReplay } from "./persist-journal";
+import { reconcileFiles, reconciledCount, type FileStat, type ReconcileResult } from "./reconcile";
 import { StatusBroadcaster } from "./status";
 import type { OmniSwitchSettings } from "../settings";
 import { getCommandManager } from "../obsidian-helpers";
 import { isTFile } from "./obsidian-guards";
-import type { FileDoc, HeadingDoc, CommandDoc } from "./engines/fuse-engine";
+import { expandTagHierarchy, extractBlockPreview, extractFileAliases, extractFileTags, isTagWithin } from "./utils";
+import type { FileDoc, HeadingDoc, BlockDoc, CommandDoc } from "./engines/fuse-engine";
 import type { FileSearchItem, HeadingSearchItem, CommandSearchItem } from "./types";
 
 type ChangeType = "created" | "modified" | "deleted" | "renamed";
@@ -13,6 +16,7 @@ interface IndexChange {
 	type: ChangeType;
 	path: string;
 	oldPath?: string;
+	metadata?: boolean;  // metadataCache re-parsed the file: re-capture even if its stat is unchanged
 }
 
 interface ManagerDependencies {
@@ -29,7 +33,7 @@ interface ManagerDependencies {
         appendUpsert(entry: PersistedFileEntry): void;
         appendDelete(path: string): void;
         appendRename(oldPath: string, newPath: string): void;
-        loadAllEvents(): Promise<Array<{ v: number; ts: number; op: string; path?: string; ext?: string; mtime?: number; size?: number; headings?: Array<{ text: string; level: number; ord: number }>; oldPath?: string; newPath?: string }>>;
+        loadState(): Promise<JournalReplay>;
     };
 }
 
@@ -49,7 +53,9 @@ export class IndexManager {
 	// Direct storage in Maps
 	private readonly files = new Map<string, FileDoc>();
 	private readonly headings = new Map<string, HeadingDoc[]>();  // path -> headings
+	private readonly blocks = new Map<string, BlockDoc[]>();  // path -> ^block references
 	private readonly commands = new Map<string, CommandDoc>();
+	private readonly tags = new Map<string, string[]>();  // path -> tags (without "#")
 	private folders: TFolder[] = [];
 
 	// Public getters for docs arrays
@@ -65,13 +71,102 @@ export class IndexManager {
 		return all;
 	}
 
+	getBlockDocs(): BlockDoc[] {
+		const all: BlockDoc[] = [];
+		for (const blockList of this.blocks.values()) {
+			all.push(...blockList);
+		}
+		return all;
+	}
+
+	getFileDoc(path: string): FileDoc | null {
+		return this.files.get(path) ?? null;
+	}
+
+	getHeadingDocsFor(path: string): HeadingDoc[] {
+		return this.headings.get(path) ?? [];
+	}
+
+	getBlockDocsFor(path: string): BlockDoc[] {
+		return this.blocks.get(path) ?? [];
+	}
+
 	getCommandDocs(): CommandDoc[] {
 		return Array.from(this.commands.values());
 	}
 
+	/** mtime and size a file had when it was last captured; null when they were never read */
+	getIndexedStat(path: string): FileStat | null {
+		const snapshot = this.snapshots.get(normalizePath(path));
+		return snapshot && snapshot.size >= 0 ? { mtime: snapshot.modified, size: snapshot.size } : null;
+	}
+
 	getFolders(): TFolder[] {
 		return this.folders;
 	}
+
+	/**
+	 * Usage counts per tag. Nested tags also count towards every parent,
+	 * so `project` includes notes tagged `project/alpha`.
+	 */
+	getTagCounts(): Map<string, number> {
+		const counts = new Map<string, { tag: string; count: number }>();
+		for (const fileTags of this.tags.values()) {
+			const seen = new Set<string>();
+			for (const tag of fileTags) {
+				for (const expanded of expandTagHierarchy(tag)) {
+					const key = expanded.toLowerCase();
+					if (seen.has(key)) continue;
+					seen.add(key);
+					const entry = counts.get(key);
+					if (entry) {
+						entry.count += 1;
+					} else {
+						counts.set(key, { tag: expanded, count: 1 });
+					}
+				}
+			}
+		}
+		const result = new Map<string, number>();
+		for (const { tag, count } of counts.values()) {
+			result.set(tag, count);
+		}
+		return result;
+	}
+
+	getPathsWithTag(tag: string): string[] {
+		const paths: string[] = [];
+		for (const [path, fileTags] of this.tags.entries()) {
+			if (fileTags.some((t) => isTagWithin(t, tag))) {
+				paths.push(path);
+			}
+		}
+		return paths;
+	}
+
+	/**
+	 * Whether a path falls under one of the excluded-path rules
+	 */
+	isPathExcluded(path: string): boolean {
+		return this.isExcluded(path);
+	}
+
+	/**
+	 * Rebuild the tag index straight from metadataCache.
+	 * Used by the coordinator fast path, where files are not re-captured.
+	 */
+	syncTagsFromMetadata(): void {
+		const t0 = Date.now();
+		this.tags.clear();
+		for (const abstract of this.app.vault.getAllLoadedFiles()) {
+			if (!isTFile(abstract) || this.isExcluded(abstract.path)) {
+				continue;
+			}
+			this.captureTags(abstract);
+		}
+		const ms = Date.now() - t0;
+		console.info(`[OmniSwitch] Tags: synced ${this.tags.size} tagged files in ${ms} ms`);
+	}
     private readonly onEngineFileUpsert: ((path: string) => void) | null = null;
     private readonly onEngineFileRemove: ((path: string) => void) | null = null;
     private readonly journal: ManagerDependencies["journal"] | null = null;
@@ -88,6 +183,7 @@ export class IndexManager {
 	private static readonly BATCH_SIZE = 25;
 	private static readonly BATCH_YIELD_MS = 5;
 	private static readonly MICRO_DEBOUNCE_MS = 350;
+	private static readonly UNKNOWN_SIGNATURE = "\0unknown";
 
 	private microTimers = new Map<string, ReturnType<typeof setTimeout>>();
 	private microPending = new Map<string, IndexChange>();
@@ -95,6 +191,7 @@ export class IndexManager {
 	private processing = false;
 	private scheduled = false;
 	private pendingFullRebuild = false;
+	private pendingHydration = false; // Engines are built from a journal baseline once validation changes are applied
 	private foldersDirty = false;
 	private matchers: ExclusionMatcher[] = [];
 		private initialized = false;
@@ -113,6 +210,8 @@ export class IndexManager {
         this.onEngineFileUpsert = deps.onEngineFileUpsert ?? null;
         this.onEngineFileRemove = deps.onEngineFileRemove ?? null;
         this.journal = deps.journal ?? null;
+		// The fast path never calls initialize(), but still needs exclusions for tags and content
+		this.refreshMatchers();
     }
 
     async initialize(): Promise<void> {
@@ -126,41 +225,93 @@ export class IndexManager {
             try { await this.journal.initialize(); } catch (e) { console.warn("[OmniSwitch] Journal init failed", e); }
         }
 
-        // Initialize from NDJSON journal only; if empty, trigger full rebuild
-        const events = this.journal ? await this.journal.loadAllEvents() : [];
-        if (!events || events.length === 0) {
+        // Initialize from the NDJSON journal (baseline + later events); if empty, trigger full rebuild
+        const state = this.journal ? await this.journal.loadState() : null;
+        if (!state || state.entries.size === 0) {
             this.flagFullRebuild("init_no_journal");
             this.scheduleProcessing();
             return;
         }
-        const map = new Map<string, PersistedFileEntry>();
-        let upserts = 0; let deletes = 0; let renames = 0;
-        for (const ev of events) {
-            if (ev.op === "upsert" && ev.path) {
-                const k = normalizePath(ev.path);
-                const headings = Array.isArray(ev.headings) ? ev.headings.map((h) => ({ text: h.text, level: h.level })) : [];
-                map.set(k, { path: k, extension: (ev.ext ?? "").toLowerCase(), modified: Math.trunc(ev.mtime ?? 0), size: typeof ev.size === "number" ? ev.size : -1, headings });
-                upserts += 1;
-            } else if (ev.op === "delete" && ev.path) {
-                map.delete(normalizePath(ev.path));
-                deletes += 1;
-            } else if (ev.op === "rename" && ev.oldPath && ev.newPath) {
-                const oldK = normalizePath(ev.oldPath);
-                const newK = normalizePath(ev.newPath);
-                const current = map.get(oldK);
-                if (current) {
-                    map.delete(oldK);
-                    map.set(newK, { ...current, path: newK });
-                }
-                renames += 1;
-            }
-        }
-        const baseline = Array.from(map.values());
-        console.info(`[OmniSwitch] Journal: built baseline (upserts=${upserts}, deletes=${deletes}, renames=${renames}, files=${baseline.length})`);
+        // Files changed, added or removed while the plugin was not running are queued instead of trusted
+        const baseline = await this.validateBaseline(Array.from(state.entries.values()), state.entries);
+        console.info(`[OmniSwitch] Journal: validated baseline (files=${baseline.length}, queued=${this.queue.length})`);
 
         await this.hydrateFromBaseline(baseline);
         this.rebuildCommandList();
-        this.onFilesUpdated();
+        this.pendingHydration = true;
+        this.scheduleProcessing();
+    }
+
+    /**
+     * Warm start: the persisted indexes were saved when the journal was last compacted, so every path
+     * touched by a later event (e.g. before a crash) is re-indexed. Paths are removed before they are
+     * captured again so engines never hold a path twice. Returns the replayed journal state.
+     */
+    async replayJournal(): Promise<JournalReplay | null> {
+        if (!this.journal) {
+            return null;
+        }
+        try {
+            await this.journal.initialize();
+        } catch (e) {
+            console.warn("[OmniSwitch] Journal init failed", e);
+            return null;
+        }
+        const state = await this.journal.loadState();
+        for (const path of state.touched) {
+            this.queue.push({ type: "deleted", path });
+            if (state.entries.has(path) && this.getFile(path)) {
+                this.queue.push({ type: "created", path });
+            }
+        }
+        if (state.touched.size > 0) {
+            console.info(`[OmniSwitch] Journal: replaying ${state.touched.size} paths changed since indexes were saved`);
+            this.scheduleProcessing();
+        }
+        return state;
+    }
+
+    /**
+     * Fast path: adopt the persisted file list as the snapshot (stats and headings from the journal where it
+     * has them, else stats saved with the indexes) and queue every file that differs from the vault by path,
+     * mtime or size.
+     */
+    reconcileWithVault(indexedPaths: Iterable<string>, journaled?: ReadonlyMap<string, PersistedFileEntry>, indexedStats?: ReadonlyMap<string, FileStat>): ReconcileResult {
+        const t0 = Date.now();
+        const persisted = new Map<string, FileStat | null>();
+        for (const indexed of indexedPaths) {
+            const path = normalizePath(indexed);
+            const entry = journaled?.get(path);
+            const stat = indexedStats?.get(path);
+            if (entry) {
+                this.snapshots.set(path, { ...entry, aliases: entry.aliases ?? [], blocks: entry.blocks ?? [] });
+                this.structuralSig.set(path, this.computeSignature(entry.extension, entry.headings ?? [], entry.aliases ?? [], entry.blocks ?? []));
+                persisted.set(path, { mtime: entry.modified, size: entry.size });
+            } else if (stat) {
+                // Headings unknown: the signature matches no capture, so the next edit replaces the file's docs
+                this.snapshots.set(path, { path, extension: this.getFile(path)?.extension.toLowerCase() ?? "", modified: stat.mtime, size: stat.size, headings: [] });
+                this.structuralSig.set(path, IndexManager.UNKNOWN_SIGNATURE);
+                persisted.set(path, stat);
+            } else {
+                // Stats unknown: still snapshot the path so re-indexing replaces its docs instead of adding them twice
+                this.snapshots.set(path, { path, extension: this.getFile(path)?.extension.toLowerCase() ?? "", modified: 0, size: -1, headings: [] });
+                persisted.set(path, null);
+            }
+        }
+
+        this.vaultMap = this.buildVaultMap();
+        const vault = new Map<string, FileStat>();
+        for (const [path, entry] of this.vaultMap) {
+            vault.set(path, { mtime: entry.mtime, size: entry.size });
+        }
+        const result = reconcileFiles(persisted, vault, (path) => this.isExcluded(path));
+        for (const path of result.created) this.queueVaultChange({ type: "created", path });
+        for (const path of result.modified) this.queueVaultChange({ type: "modified", path });
+        for (const path of result.deleted) this.queueVaultChange({ type: "deleted", path });
+
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Reconcile: ${reconciledCount(result)} files changed since indexes were saved (created=${result.created.length}, modified=${result.modified.length}, deleted=${result.deleted.length}, checked=${vault.size}) in ${ms} ms`);
+        return result;
     }
 
     // No persisted engine snapshots
@@ -188,8 +339,9 @@ export class IndexManager {
             const vaultEntry = this.vaultMap.get(path);
 
             if (!vaultEntry) {
-                // File no longer exists in vault - skip it
+                // File no longer exists in vault - skip it and drop it from the journal
                 map.delete(path);
+                try { this.journal?.appendDelete(path); } catch {}
                 continue;
             }
 
@@ -267,6 +419,9 @@ export class IndexManager {
                 text: h.heading,
                 level: h.level ?? 0,
             }));
+            const metadata = isMarkdown ? this.app.metadataCache.getFileCache(file) : null;
+            const aliases = extractFileAliases(metadata);
+            const blocks = await this.readBlocks(file, metadata);
 
             // Add to baseline map (will be hydrated)
             map.set(path, {
@@ -275,6 +430,8 @@ export class IndexManager {
                 modified: mtime,
                 size,
                 headings: persistedHeadings,
+                aliases,
+                blocks,
             });
 
             // Write to journal (will be flushed automatically within 500ms)
@@ -285,6 +442,8 @@ export class IndexManager {
                     modified: mtime,
                     size,
                     headings: persistedHeadings,
+                    aliases,
+                    blocks,
                 });
             } catch (e) {
                 console.warn(`[OmniSwitch] Failed to write ${path} to journal`, e);
@@ -335,7 +494,7 @@ export class IndexManager {
             if (pending.type === "deleted") {
                 next = pending; // deletion wins
             } else if (pending.type === "created" && change.type === "modified") {
-                next = pending; // keep created
+                next = { ...pending, metadata: pending.metadata || change.metadata }; // keep created
             } else {
                 next = { ...pending, ...next };
             }
@@ -431,6 +590,10 @@ export class IndexManager {
                 didFullRebuild = true;
             }
 
+            // Changes found while validating a journal baseline land in the docs; engines are built from them after
+            const hydrating = this.pendingHydration;
+            this.skipEngineUpdates = hydrating;
+
 			// Process queued changes in batches
             while (this.queue.length > 0) {
                 const batch = this.queue.splice(0, IndexManager.BATCH_SIZE);
@@ -445,6 +608,12 @@ export class IndexManager {
                 console.info(`[OmniSwitch] Change batch: processed ${batch.length} in ${ms} ms`);
                 await this.yieldForIdle();
             }
+            if (hydrating) {
+                this.skipEngineUpdates = false;
+                this.pendingHydration = false;
+                updated = true;
+                didFullRebuild = true;
+            }
 
             if (this.foldersDirty) {
                 this.refreshFolders();
@@ -470,6 +639,7 @@ export class IndexManager {
             }
 		} finally {
 			this.processing = false;
+			this.skipEngineUpdates = false;
 			if (this.hasWork()) {
 				this.scheduleProcessing();
             } else {
@@ -489,6 +659,8 @@ export class IndexManager {
 		// Full rebuild disregards snapshot content; batch + idle yield
 		this.files.clear();
 		this.headings.clear();
+		this.blocks.clear();
+		this.tags.clear();
 		this.snapshots.clear();
 		this.headingCacheMemo.clear();
 		this.structuralSig.clear();
@@ -538,7 +710,7 @@ export class IndexManager {
 
         // Phase 1: Process entries
         const tProcess0 = Date.now();
-        const toSeed: Array<{ file: TFile; headings: HeadingCache[] }> = [];
+        const toSeed: Array<{ file: TFile; headings: HeadingCache[]; aliases: string[]; blocks: PersistedBlockEntry[] }> = [];
         const folderSet = new Set<string>();
         for (const entry of entries) {
             const path = normalizePath(entry.path);
@@ -551,9 +723,11 @@ export class IndexManager {
                 modified: Math.trunc(entry.modified),
                 size: typeof entry.size === "number" ? entry.size : -1,
                 headings: entry.headings ?? [],
+                aliases: entry.aliases ?? [],
+                blocks: entry.blocks ?? [],
             });
-            this.structuralSig.set(path, this.computeSignature(entry.extension, entry.headings ?? []));
-            toSeed.push({ file, headings: heads });
+            this.structuralSig.set(path, this.computeSignature(entry.extension, entry.headings ?? [], entry.aliases ?? [], entry.blocks ?? []));
+            toSeed.push({ file, headings: heads, aliases: entry.aliases ?? [], blocks: entry.blocks ?? [] });
             // collect folders
             const segments = path.split("/");
             segments.pop();
@@ -568,13 +742,14 @@ export class IndexManager {
 
         // Phase 2: Seed files map
         const tSeed0 = Date.now();
-        for (const { file, headings } of toSeed) {
+        for (const { file, headings, aliases, blocks } of toSeed) {
 			const doc: FileDoc = {
 				id: file.path,
 				path: file.path,
 				name: file.name,
 				extension: file.extension,
 				parent: file.parent?.path ?? null,
+				aliases,
 				item: { type: "file", file }
 			};
 			this.files.set(file.path, doc);
@@ -594,6 +769,8 @@ export class IndexManager {
 				}
 			}
 			this.headings.set(file.path, headingList);
+			this.setBlockDocs(file, blocks);
+			this.captureTags(file);
         }
         const seedMs = Date.now() - tSeed0;
         console.info(`[OmniSwitch] Hydrate: Phase 2 (seedFiles) in ${seedMs} ms`);
@@ -651,12 +828,15 @@ export class IndexManager {
                 const existing = this.snapshots.get(key) ?? null;
                 const mtime = Math.trunc(file.stat.mtime);
                 const size = typeof file.stat.size === "number" ? file.stat.size : -1;
-                if (existing && existing.modified === mtime && existing.size === size && existing.extension === file.extension.toLowerCase()) {
-                    // No actual change; skip capture entirely to avoid churn
+                // The vault modify event usually arrives before metadataCache re-parses the file, so
+                // aliases and blocks captured then can be stale; a metadata change always re-captures
+                if (!change.metadata && existing && existing.modified === mtime && existing.size === size && existing.extension === file.extension.toLowerCase()) {
+                    // No actual change; skip capture entirely to avoid churn.
+                    this.captureTags(file);
                     return false;
                 }
                 const fallback = existing?.headings ?? null;
-                return await this.captureFile(file, fallback);
+                return await this.captureFile(file, fallback, change.metadata === true);
             }
             case "deleted": {
                 this.removeFile(change.path);
@@ -694,13 +874,14 @@ export class IndexManager {
 		}
 	}
 
-    private async captureFile(file: TFile, fallbackHeadings: PersistedHeadingEntry[] | null): Promise<boolean> {
+    private async captureFile(file: TFile, fallbackHeadings: PersistedHeadingEntry[] | null, recapture = false): Promise<boolean> {
         const key = normalizePath(file.path);
         const modified = Math.trunc(file.stat.mtime);
         const size = typeof file.stat.size === "number" ? file.stat.size : -1;
         const existing = this.snapshots.get(key);
         const canReuseSnapshot = Boolean(
-            existing
+            !recapture
+            && existing
             && existing.modified === modified
             && existing.size === size
             && fallbackHeadings !== null,
@@ -727,9 +908,12 @@ export class IndexManager {
                 }))
                 : fallbackHeadings ?? [];
         }
-        // Determine structural change (extension + headings)
-        const prevSig = this.structuralSig.get(key) ?? (existing ? this.computeSignature(existing.extension, existing.headings ?? []) : "");
-        const newSig = this.computeSignature(file.extension.toLowerCase(), persistedHeadings);
+        const metadata = file.extension.toLowerCase() === "md" ? this.app.metadataCache.getFileCache(file) : null;
+        const aliases = metadata ? extractFileAliases(metadata) : existing?.aliases ?? [];
+        const blocks = metadata ? await this.readBlocks(file, metadata) : existing?.blocks ?? [];
+        // Determine structural change (extension + headings + aliases + blocks)
+        const prevSig = this.structuralSig.get(key) ?? (existing ? this.computeSignature(existing.extension, existing.headings ?? [], existing.aliases ?? [], existing.blocks ?? []) : "");
+        const newSig = this.computeSignature(file.extension.toLowerCase(), persistedHeadings, aliases, blocks);
         const structuralChanged = prevSig !== newSig;
 
         if (structuralChanged) {
@@ -743,6 +927,7 @@ export class IndexManager {
 				name: file.name,
 				extension: file.extension,
 				parent: file.parent?.path ?? null,
+				aliases,
 				item: { type: "file", file }
 			};
 			this.files.set(file.path, doc);
@@ -760,6 +945,7 @@ export class IndexManager {
 				});
 			}
 			this.headings.set(file.path, headingDocs);
+			this.setBlockDocs(file, blocks);
         }
         this.snapshots.set(key, {
             path: key,
@@ -767,17 +953,21 @@ export class IndexManager {
             modified,
             size,
             headings: persistedHeadings,
+            aliases,
+            blocks,
         });
         this.structuralSig.set(key, newSig);
-        if (structuralChanged) {
+        this.captureTags(file);
+        // Stat-only changes are journaled too, so startup reconciliation compares against current mtimes
+        if (structuralChanged || !existing || existing.modified !== modified || existing.size !== size) {
             try {
-                this.journal?.appendUpsert({ path: key, extension: file.extension.toLowerCase(), modified, size, headings: persistedHeadings });
+                this.journal?.appendUpsert({ path: key, extension: file.extension.toLowerCase(), modified, size, headings: persistedHeadings, aliases, blocks });
             } catch (e) {
                 console.warn("[OmniSwitch] Journal append upsert failed", e);
             }
-            if (!this.skipEngineUpdates) {
-                this.onEngineFileUpsert?.(key);
-            }
+        }
+        if (structuralChanged && !this.skipEngineUpdates) {
+            this.onEngineFileUpsert?.(key);
         }
         const ms = Date.now() - t0;
         const mode = (file.extension.toLowerCase() === "md" && (this.app.metadataCache.getFileCache(file)?.headings ?? null) ? "read" : "fallback");
@@ -792,6 +982,8 @@ export class IndexManager {
         const t0 = Date.now();
         this.files.delete(normalized);
 		this.headings.delete(normalized);
+		this.blocks.delete(normalized);
+		this.tags.delete(normalized);
         this.snapshots.delete(normalized);
         this.structuralSig.delete(normalized);
         try { this.journal?.appendDelete(normalized); } catch {}
@@ -850,13 +1042,64 @@ export class IndexManager {
     }
 
 
+	private captureTags(file: TFile): void {
+		const key = normalizePath(file.path);
+		if (file.extension.toLowerCase() !== "md") {
+			this.tags.delete(key);
+			return;
+		}
+		const fileTags = extractFileTags(this.app.metadataCache.getFileCache(file));
+		if (fileTags.length > 0) {
+			this.tags.set(key, fileTags);
+		} else {
+			this.tags.delete(key);
+		}
+	}
+
+	/**
+	 * Read previews for the file's `^block-id` blocks. The text is not in metadataCache,
+	 * so the file is read, but only when it actually has blocks.
+	 */
+	private async readBlocks(file: TFile, metadata: CachedMetadata | null): Promise<PersistedBlockEntry[]> {
+		const blocks = metadata?.blocks ? Object.values(metadata.blocks) : [];
+		if (blocks.length === 0) {
+			return [];
+		}
+		try {
+			const content = await this.app.vault.cachedRead(file);
+			return blocks.map((block) => ({ id: block.id, text: extractBlockPreview(content, block) }));
+		} catch (e) {
+			console.warn(`[OmniSwitch] Blocks: failed to read ${file.path}`, e);
+			return [];
+		}
+	}
+
+	private setBlockDocs(file: TFile, blocks: PersistedBlockEntry[]): void {
+		if (blocks.length === 0) {
+			this.blocks.delete(file.path);
+			return;
+		}
+		this.blocks.set(file.path, blocks.map((b) => ({
+			id: `${file.path}#^${b.id}`,
+			path: file.path,
+			blockId: b.id,
+			text: b.text,
+			item: { type: "block", file, blockId: b.id, text: b.text },
+		})));
+	}
+
 	private getFile(path: string): TFile | null {
 		const abstract = this.app.vault.getAbstractFileByPath(path);
 		return isTFile(abstract) ? abstract : null;
 	}
 
+	/** No queued or in-flight changes: every journaled change has reached the engines */
+	isIdle(): boolean {
+		return !this.processing && !this.hasWork();
+	}
+
 	private hasWork(): boolean {
-		return this.pendingFullRebuild || this.queue.length > 0 || this.foldersDirty;
+		return this.pendingFullRebuild || this.pendingHydration || this.queue.length > 0 || this.foldersDirty;
 	}
 
 	private syncFolders(): void {
@@ -891,7 +1134,7 @@ export class IndexManager {
         }));
     }
 
-    private computeSignature(ext: string, headings: PersistedHeadingEntry[]): string {
+    private computeSignature(ext: string, headings: PersistedHeadingEntry[], aliases: string[] = [], blocks: PersistedBlockEntry[] = []): string {
         const parts: string[] = [ext.toLowerCase()];
         for (let i = 0; i < headings.length; i += 1) {
             const h = headings[i];
@@ -899,6 +1142,12 @@ export class IndexManager {
             const level = typeof h.level === "number" ? h.level : 0;
             parts.push(`${i + 1}:${level}:${text}`);
         }
+        for (const alias of aliases) {
+            parts.push(`a:${alias}`);
+        }
+        for (const block of blocks) {
+            parts.push(`b:${block.id}:${block.text}`);
+        }
         return parts.join("|");
     }
 
@@ -0,0 +1,151 @@
+// Delta segments: documents added to and removed from the engines since the base indexes were saved
+
+import type { MinimalBlockDoc, MinimalFileDoc, MinimalHeadingDoc } from "./engines/fuse-engine";
+import {
+	BinaryReader,
+	BinaryWriter,
+	readIdList,
+	readIdMap,
+	readStringTable,
+	writeIdList,
+	writeIdMap,
+	writeStringTable,
+} from "./binary-format";
+
+export type SegmentKind = "files" | "headings" | "blocks";
+
+interface SegmentDocs {
+	files: MinimalFileDoc;
+	headings: MinimalHeadingDoc;
+	blocks: MinimalBlockDoc;
+}
+
+/**
+ * One delta segment. Applied in order on load: removals first, then additions. Numeric IDs are never
+ * reused, so an ID removed and re-added within a segment is one of the few cases that needs both.
+ */
+export interface IndexDelta {
+	added: { [K in SegmentKind]: Array<[string, SegmentDocs[K]]> }; // [numericId, doc]
+	removed: Record<SegmentKind, string[]>;                          // numeric IDs
+	nextFileId: number;
+	nextHeadingId: number;
+	nextBlockId: number;
+}
+
+/** Merge once this many deltas pile up… */
+export const MAX_DELTA_SEGMENTS = 8;
+/** …or once they add up to this share of the base size */
+export const MAX_DELTA_RATIO = 0.25;
+
+/**
+ * Accumulates engine changes until the next flush. An ID added and removed again before the flush
+ * still records the removal, in case the ID was also in an earlier segment or the base.
+ */
+export class DeltaBuilder {
+	private added: { [K in SegmentKind]: Map<string, SegmentDocs[K]> } = { files: new Map(), headings: new Map(), blocks: new Map() };
+	private removed: Record<SegmentKind, Set<string>> = { files: new Set(), headings: new Set(), blocks: new Set() };
+
+	add<K extends SegmentKind>(kind: K, numericId: string, doc: SegmentDocs[K]): void {
+		(this.added[kind] as Map<string, SegmentDocs[K]>).set(numericId, doc);
+	}
+
+	remove(kind: SegmentKind, numericId: string): void {
+		this.added[kind].delete(numericId);
+		this.removed[kind].add(numericId);
+	}
+
+	get size(): number {
+		let size = 0;
+		for (const kind of ["files", "headings", "blocks"] as const) {
+			size += this.added[kind].size + this.removed[kind].size;
+		}
+		return size;
+	}
+
+	/** Snapshot the pending changes and start over */
+	take(next: { nextFileId: number; nextHeadingId: number; nextBlockId: number }): IndexDelta {
+		const delta: IndexDelta = {
+			added: {
+				files: Array.from(this.added.files),
+				headings: Array.from(this.added.headings),
+				blocks: Array.from(this.added.blocks),
+			},
+			removed: {
+				files: Array.from(this.removed.files),
+				headings: Array.from(this.removed.headings),
+				blocks: Array.from(this.removed.blocks),
+			},
+			...next,
+		};
+		this.clear();
+		return delta;
+	}
+
+	clear(): void {
+		this.added = { files: new Map(), headings: new Map(), blocks: new Map() };
+		this.removed = { files: new Set(), headings: new Set(), blocks: new Set() };
+	}
+}
+
+/**
+ * Whether the deltas should be merged into a fresh base
+ */
+export function shouldMerge(segmentBytes: readonly number[], baseBytes: number): boolean {
+	const deltaBytes = segmentBytes.reduce((sum, bytes) => sum + bytes, 0);
+	return segmentBytes.length >= MAX_DELTA_SEGMENTS || deltaBytes > baseBytes * MAX_DELTA_RATIO;
+}
+
+/** Body: next IDs, removed IDs per kind, then added ID maps per kind followed by their doc fields */
+export function encodeDelta(delta: IndexDelta): Uint8Array {
+	const writer = new BinaryWriter();
+	writer.writeVarint(delta.nextFileId);
+	writer.writeVarint(delta.nextHeadingId);
+	writer.writeVarint(delta.nextBlockId);
+	for (const kind of ["files", "headings", "blocks"] as const) {
+		writeIdList(writer, delta.removed[kind]);
+	}
+
+	writeIdMap(writer, delta.added.files.map(([id, doc]) => [id, doc.id]));
+	for (const [, doc] of delta.added.files) {
+		writer.writeString(doc.name);
+		writer.writeString(doc.extension);
+		writer.writeVarint(Math.max(0, Math.floor(doc.mtime)));
+		writeStringTable(writer, doc.aliases ?? []);
+	}
+	writeIdMap(writer, delta.added.headings.map(([id, doc]) => [id, doc.id]));
+	for (const [, doc] of delta.added.headings) {
+		writer.writeString(doc.title);
+	}
+	writeIdMap(writer, delta.added.blocks.map(([id, doc]) => [id, doc.id]));
+	for (const [, doc] of delta.added.blocks) {
+		writer.writeString(doc.text);
+	}
+	return writer.finish();
+}
+
+export function decodeDelta(body: Uint8Array): IndexDelta {
+	const reader = new BinaryReader(body);
+	const nextFileId = reader.readVarint();
+	const nextHeadingId = reader.readVarint();
+	const nextBlockId = reader.readVarint();
+	const removed = {
+		files: readIdList(reader),
+		headings: readIdList(reader),
+		blocks: readIdList(reader),
+	};
+
+	const files = readIdMap(reader).map(([id, path]): [string, MinimalFileDoc] => {
+		const doc: MinimalFileDoc = { id: path, name: reader.readString(), extension: reader.readString(), mtime: reader.readVarint() };
+		const aliases = readStringTable(reader);
+		if (aliases.length > 0) {
+			doc.aliases = aliases;
+		}
+		return [id, doc];
+	});
+	const headings = readIdMap(reader).map(([id, key]): [string, MinimalHeadingDoc] => [id, { id: key, title: reader.readString() }]);
+	const blocks = readIdMap(reader).map(([id, key]): [string, MinimalBlockDoc] => [id, { id: key, text: reader.readString() }]);
+	if (!reader.done) {
+		throw new Error("Trailing data in delta segment");
+	}
+	return { added: { files, headings, blocks }, removed, nextFileId, nextHeadingId, nextBlockId };
+}
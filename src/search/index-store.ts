@@ -1,9 +1,32 @@
 import type { App } from "obsidian";
-import type { MinimalFileDoc, MinimalHeadingDoc } from "./engines/fuse-engine";
+import type { MinimalBlockDoc, MinimalFileDoc, MinimalHeadingDoc } from "./engines/fuse-engine";
+import {
+	BinaryReader,
+	BinaryWriter,
+	canCompress,
+	decodeText,
+	encodeText,
+	hashBytes,
+	packIndexFile,
+	readIdMap,
+	readStringTable,
+	unpackIndexFile,
+	writeIdMap,
+	writeStringTable,
+} from "./binary-format";
+import { DeltaBuilder, decodeDelta, encodeDelta, shouldMerge, type IndexDelta, type SegmentKind } from "./index-segments";
 
 /**
  * Index persistence manager for storing and loading pre-built search indexes.
  * Uses 5-file structure: one file per engine per type (files/headings) + separate ID maps file.
+ * Blocks (small) and content (optional) have their own files next to these.
+ * v11 files are binary (see binary-format.ts): engine indexes keep MiniSearch/Fuse JSON as their
+ * body, while ID maps, blocks and the content ID map are delta- and front-coded. Files are gzipped
+ * when CompressionStream is available.
+ * Every file is written to a temp file and renamed into place; manifest.json records each file's
+ * size, hash and version so a torn or truncated save is detected on load.
+ * Between full saves, engine changes are recorded here and written as small delta segments
+ * (delta-N.bin) on top of the base files; a full save merges them away.
  */
 
 interface IndexPaths {
@@ -11,35 +34,132 @@ interface IndexPaths {
 	fuseFiles: string;
 	fuseHeadings: string;
 	miniFiles: string;
-	miniHeadings: string;  // v6: Raw MiniSearch index JSON (no wrapper)
+	miniHeadings: string;  // Raw MiniSearch index JSON as the body (no wrapper)
 	idMaps: string;
+	content: string;       // Mini content index + its own ID map (independent of engine choice)
+	blocks: string;        // Block ID map + minimal docs; engine indexes are rebuilt on load
+	manifest: string;      // Size, hash and version of every file above
 }
 
+type IndexFileName = Exclude<keyof IndexPaths, "root" | "manifest">;
+type EngineIndexName = "fuseFiles" | "fuseHeadings" | "miniFiles" | "miniHeadings";
+
+const BINARY_FILES: Record<IndexFileName, string> = {
+	fuseFiles: "fuse-files.bin",
+	fuseHeadings: "fuse-headings.bin",
+	miniFiles: "mini-files.bin",
+	miniHeadings: "mini-headings.bin",
+	idMaps: "id-maps.bin",
+	content: "mini-content.bin",
+	blocks: "blocks.bin",
+};
+
+/** v10 JSON files: still loaded so an upgrade does not force a rebuild, removed by the next save */
+const LEGACY_JSON_FILES: Record<IndexFileName, string> = {
+	fuseFiles: "fuse-files.json",
+	fuseHeadings: "fuse-headings.json",
+	miniFiles: "mini-files.json",
+	miniHeadings: "mini-headings-v10.json",
+	idMaps: "id-maps.json",
+	content: "mini-content.json",
+	blocks: "blocks.json",
+};
+const LEGACY_JSON_VERSION = 10;
+
+/** Base files the delta segments apply to (content is saved on its own) */
+const BASE_FILES: IndexFileName[] = ["fuseFiles", "fuseHeadings", "miniFiles", "miniHeadings", "idMaps", "blocks"];
+
+interface ManifestEntry {
+	size: number;    // bytes (binary files) or characters (legacy JSON files)
+	hash: string;    // hashBytes() or hashContent() of the file
+	version: number;
+}
+
+interface IndexManifest {
+	version: number;
+	files: Record<string, ManifestEntry>; // file name -> entry
+	segments?: string[];                  // delta segment file names, oldest first
+}
+
+/** A persisted index file does not match the manifest (torn write, truncation, missing manifest) */
+export class IndexIntegrityError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "IndexIntegrityError";
+	}
+}
+
+/**
+ * FNV-1a over UTF-16 code units: cheap enough for 100MB+ files and catches truncation and torn writes
+ */
+export function hashContent(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** A verified file: the binary body, or the text of its v10 JSON predecessor */
+type StoredFile = { format: "binary"; body: Uint8Array } | { format: "json"; text: string };
+
 interface IndexFile {
 	version: number;
 	docs?: MinimalFileDoc[] | MinimalHeadingDoc[]; // Optional: not saved in v4+
 	index: unknown;
 }
 
-interface IdMapsFile {
-	version: number;
+interface IdMaps {
 	// ID maps for numeric ID resolution
 	fileIdMap: Array<[string, string]>;
 	headingIdMap: Array<[string, string]>;
 	nextFileId: number;
 	nextHeadingId: number;
+	fileStats?: Array<[string, number, number]>;  // [path, mtime, size] each file had when indexed; absent in older files
+}
+
+interface BlocksData {
+	blockIdMap: Array<[string, string]>;
+	nextBlockId: number;
+	docs: MinimalBlockDoc[];
+}
+
+interface ContentData {
+	index: unknown;
+	contentIdMap: Array<[string, string]>;
+	nextContentId: number;
+	noteMtimes?: Array<[string, number]>;  // [path, mtime] of every indexed note when it was read; absent in older files
+	savedAt?: number;                      // notes missing from the index but modified later are new
+}
+
+export interface IndexStoreOptions {
+	/** Gzip index files; defaults to whether CompressionStream is available */
+	compress?: boolean;
 }
 
 export class IndexStore {
 	private readonly app: App;
 	private readonly pluginId: string;
+	private readonly compress: boolean;
 	private paths: IndexPaths | null = null;
-	private static readonly VERSION = 6;  // Bumped to store mini-headings as raw JSON (no wrapper) for direct MiniSearch loading
+	private manifest: IndexManifest | null = null;
+	private manifestWrite: Promise<void> = Promise.resolve();
+	private damageReported = false;
+	private readonly onDamaged: ((message: string) => void) | null;
+	// Dirty state: engine changes not yet in a segment, and whether content or the base needs a full write
+	private readonly pending = new DeltaBuilder();
+	private contentDirty = false;
+	private baseDirty = false;
+	private nextSegment: number | null = null;
+	static readonly VERSION = 11;  // v11: binary files (v10: atomic writes + manifest, v9: name words & initials, v8: ^block references, v7: frontmatter aliases, v6: raw mini-headings JSON)
 	private static readonly DIR_NAME = "indexes";
 
-	constructor(app: App, pluginId: string) {
+	constructor(app: App, pluginId: string, onDamaged?: (message: string) => void, options: IndexStoreOptions = {}) {
 		this.app = app;
 		this.pluginId = pluginId;
+		this.onDamaged = onDamaged ?? null;
+		this.compress = options.compress ?? canCompress();
 	}
 
 	async initialize(): Promise<void> {
@@ -61,51 +181,157 @@ export class IndexStore {
 		headingIdMap: Array<[string, string]>;
 		nextFileId: number;
 		nextHeadingId: number;
+		fileStats?: Array<[string, number, number]>;
+		// Blocks: ID map + minimal docs (previews are not available from metadataCache)
+		blockIdMap: Array<[string, string]>;
+		nextBlockId: number;
+		blockDocs: MinimalBlockDoc[];
 	}): Promise<void> {
 		const t0 = Date.now();
+		// The data passed in already holds every recorded change; a failed save leaves the base dirty
+		this.pending.clear();
+		this.baseDirty = false;
 		if (!this.paths) {
 			this.paths = await this.createPaths();
 		}
 
-		const adapter = this.app.vault.adapter;
-
 		try {
 			console.info(`[OmniSwitch] IndexStore: Saving indexes (fileIdMap=${data.fileIdMap.length}, headingIdMap=${data.headingIdMap.length})...`);
 
-			// Save 5 files in parallel (ID maps in separate file for faster loading)
-			// v6: mini-headings is saved as RAW MiniSearch JSON (no wrapper) for direct loading
-			await Promise.all([
-				adapter.write(this.paths.fuseFiles, JSON.stringify({
-					version: IndexStore.VERSION,
-					index: data.fuseFiles,
-				} as IndexFile)),
-				adapter.write(this.paths.fuseHeadings, JSON.stringify({
-					version: IndexStore.VERSION,
-					index: data.fuseHeadings
-				} as IndexFile)),
-				adapter.write(this.paths.miniFiles, JSON.stringify({
-					version: IndexStore.VERSION,
-					index: data.miniFiles
-				} as IndexFile)),
-				// v6: Save mini-headings as RAW JSON (no version wrapper)
-				adapter.write(this.paths.miniHeadings, JSON.stringify(data.miniHeadings)),
-				adapter.write(this.paths.idMaps, JSON.stringify({
-					version: IndexStore.VERSION,
-					fileIdMap: data.fileIdMap,
-					headingIdMap: data.headingIdMap,
-					nextFileId: data.nextFileId,
-					nextHeadingId: data.nextHeadingId,
-				} as IdMapsFile))
+			// Save 5 files in parallel (ID maps in separate file for faster loading), each via temp file + rename
+			const entries = await Promise.all([
+				this.writeIndexFile("fuseFiles", encodeText(JSON.stringify(data.fuseFiles))),
+				this.writeIndexFile("fuseHeadings", encodeText(JSON.stringify(data.fuseHeadings))),
+				this.writeIndexFile("miniFiles", encodeText(JSON.stringify(data.miniFiles))),
+				this.writeIndexFile("miniHeadings", encodeText(JSON.stringify(data.miniHeadings))),
+				this.writeIndexFile("idMaps", encodeIdMaps(data)),
+				this.writeIndexFile("blocks", encodeBlocks({
+					blockIdMap: data.blockIdMap,
+					nextBlockId: data.nextBlockId,
+					docs: data.blockDocs,
+				})),
 			]);
+			// Written last: a crash before this leaves the old manifest, which the new files no longer match.
+			// The new base holds everything the delta segments did, so they go with it.
+			await this.updateManifest(entries, BASE_FILES, () => []);
 
 			const ms = Date.now() - t0;
-			console.info(`[OmniSwitch] IndexStore: Saved 5 index files in ${ms} ms total`);
+			const bytes = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+			console.info(`[OmniSwitch] IndexStore: Saved 6 index files in ${ms} ms total (blocks=${data.blockDocs.length}, ${formatBytes(bytes)}${this.compress ? ", gzip" : ""})`);
 		} catch (error) {
+			this.baseDirty = true;
 			console.error("[OmniSwitch] IndexStore: Failed to save", error);
 			throw error;
 		}
 	}
 
+	/** Record a document added to the engines since the last save */
+	recordAdd(kind: "files", numericId: string, doc: MinimalFileDoc): void;
+	recordAdd(kind: "headings", numericId: string, doc: MinimalHeadingDoc): void;
+	recordAdd(kind: "blocks", numericId: string, doc: MinimalBlockDoc): void;
+	recordAdd(kind: SegmentKind, numericId: string, doc: MinimalFileDoc | MinimalHeadingDoc | MinimalBlockDoc): void {
+		this.pending.add(kind, numericId, doc as never);
+	}
+
+	/** Record a document removed from the engines since the last save */
+	recordRemove(kind: SegmentKind, numericId: string): void {
+		this.pending.remove(kind, numericId);
+	}
+
+	hasPendingChanges(): boolean {
+		return this.pending.size > 0;
+	}
+
+	markContentDirty(): void {
+		this.contentDirty = true;
+	}
+
+	isContentDirty(): boolean {
+		return this.contentDirty;
+	}
+
+	/** Whether the last full save failed (or deltas could not be written), so only a full save is safe */
+	isBaseDirty(): boolean {
+		return this.baseDirty;
+	}
+
+	/** An engine index was rebuilt wholesale, which no delta segment can describe */
+	markBaseDirty(): void {
+		this.baseDirty = true;
+	}
+
+	/**
+	 * Write the recorded changes as a delta segment on top of the base. Callers serialize this with
+	 * saveIndexes(); without a base to apply to, the base is marked dirty instead. A dirty base lost
+	 * the changes it was saving, so segments would not add up to the engines: only a full save helps.
+	 * Returns whether a segment was written.
+	 */
+	async saveDelta(next: { nextFileId: number; nextHeadingId: number; nextBlockId: number }): Promise<boolean> {
+		if (this.pending.size === 0 || this.baseDirty) {
+			return false;
+		}
+		const t0 = Date.now();
+		const changes = this.pending.size;
+		const delta = this.pending.take(next);
+		try {
+			const paths = this.paths ?? (this.paths = await this.createPaths());
+			const manifest = await this.loadManifest();
+			if (!manifest || !manifest.files[BINARY_FILES.idMaps] && !manifest.files[LEGACY_JSON_FILES.idMaps]) {
+				console.info("[OmniSwitch] IndexStore: No base indexes to write a delta segment on; a full save is needed");
+				this.baseDirty = true;
+				return false;
+			}
+			if (this.nextSegment === null) {
+				this.nextSegment = Math.max(0, ...(manifest.segments ?? []).map(segmentNumber)) + 1;
+			}
+			const name = `delta-${this.nextSegment++}.bin`;
+			const entry = await this.writeAtomic(`${paths.root}/${name}`, await packIndexFile(IndexStore.VERSION, encodeDelta(delta), this.compress));
+			await this.updateManifest([entry], [], (segments) => [...segments, name]);
+			console.info(`[OmniSwitch] IndexStore: Saved ${name} in ${Date.now() - t0} ms (changes=${changes}, ${formatBytes(entry[1].size)}, segments=${this.manifest?.segments?.length ?? 0})`);
+			return true;
+		} catch (error) {
+			this.baseDirty = true;
+			console.error("[OmniSwitch] IndexStore: Failed to save delta segment", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Delta segments to apply on top of the loaded base, oldest first; null if any is damaged, since
+	 * the base alone would then be missing changes
+	 */
+	async loadDeltas(): Promise<IndexDelta[] | null> {
+		const t0 = Date.now();
+		try {
+			const manifest = await this.loadManifest();
+			const deltas: IndexDelta[] = [];
+			for (const name of manifest?.segments ?? []) {
+				deltas.push(decodeDelta(await this.readBinary(name, IndexStore.VERSION)));
+			}
+			if (deltas.length > 0) {
+				console.info(`[OmniSwitch] IndexStore: Loaded ${deltas.length} delta segments in ${Date.now() - t0} ms`);
+			}
+			return deltas;
+		} catch (error) {
+			console.warn("[OmniSwitch] IndexStore: Failed to load delta segments", error);
+			this.reportDamaged(error);
+			return null;
+		}
+	}
+
+	/**
+	 * Whether the delta segments have grown enough to merge them into a fresh base
+	 */
+	needsMerge(): boolean {
+		const manifest = this.manifest;
+		const segments = manifest?.segments ?? [];
+		if (!manifest || segments.length === 0) {
+			return false;
+		}
+		const baseBytes = BASE_FILES.reduce((sum, name) => sum + (manifest.files[BINARY_FILES[name]]?.size ?? 0), 0);
+		return shouldMerge(segments.map((name) => manifest.files[name]?.size ?? 0), baseBytes);
+	}
+
 	/**
 	 * Load engine indexes from disk
 	 * @param engine Which engine to load: 'fuse', 'mini', 'hybrid', or 'both'
@@ -125,127 +351,63 @@ export class IndexStore {
 		headingIdMap?: Array<[string, string]>;
 		nextFileId?: number;
 		nextHeadingId?: number;
+		fileStats?: Array<[string, number, number]>;
 	} | null> {
 		const t0 = Date.now();
 		if (!this.paths) {
 			this.paths = await this.createPaths();
 		}
 
-		const adapter = this.app.vault.adapter;
-
 		try {
 			let fuseFiles: unknown | undefined;
 			let fuseHeadings: unknown | undefined;
 			let miniFiles: unknown | undefined;
 			let miniHeadings: unknown | undefined;
-			let fileIdMap: Array<[string, string]> | undefined;
-			let headingIdMap: Array<[string, string]> | undefined;
-			let nextFileId: number | undefined;
-			let nextHeadingId: number | undefined;
-
-			// Check if ID maps file exists first (required)
-			const paths = this.paths; // Store reference for TypeScript
-			if (!(await adapter.exists(paths.idMaps))) {
-				console.info("[OmniSwitch] IndexStore: No id-maps.json found");
-				return null;
-			}
+			let idMaps: IdMaps | null = null;
 
 			// Load everything in parallel for maximum speed
 			const loadPromises: Promise<void>[] = [];
 
-			// 1. Load ID maps
+			// 1. Load ID maps (required)
 			loadPromises.push((async () => {
 				const t = Date.now();
-				const content = await adapter.read(paths.idMaps);
-				const data: IdMapsFile = JSON.parse(content);
-
-				if (data.version !== IndexStore.VERSION) {
-					console.info(`[OmniSwitch] IndexStore: Invalid version in id-maps.json (expected=${IndexStore.VERSION}, got=${data.version})`);
-					throw new Error("Version mismatch");
+				idMaps = await this.readIdMaps();
+				if (!idMaps) {
+					throw new Error("id-maps not found");
 				}
-
-				fileIdMap = data.fileIdMap;
-				headingIdMap = data.headingIdMap;
-				nextFileId = data.nextFileId;
-				nextHeadingId = data.nextHeadingId;
-
-				console.info(`[OmniSwitch] IndexStore: Loaded ID maps in ${Date.now() - t} ms (fileIds=${fileIdMap?.length ?? 0}, headingIds=${headingIdMap?.length ?? 0})`);
+				console.info(`[OmniSwitch] IndexStore: Loaded ID maps in ${Date.now() - t} ms (fileIds=${idMaps.fileIdMap.length}, headingIds=${idMaps.headingIdMap.length})`);
 			})());
 
-			// 2. Load engine indexes (in parallel with ID maps)
-			if (engine === 'fuse' || engine === 'hybrid' || engine === 'both') {
-				// Load Fuse files
+			// 2. Load engine indexes (in parallel with ID maps); Fuse files are required wherever they are used
+			const load = (name: EngineIndexName, label: string, required: boolean, assign: (index: unknown) => void) => {
 				loadPromises.push((async () => {
-					if (await adapter.exists(paths.fuseFiles)) {
-						const t = Date.now();
-						const content = await adapter.read(paths.fuseFiles);
-						const data: IndexFile = JSON.parse(content);
-
-						if (data.version !== IndexStore.VERSION) {
-							console.info(`[OmniSwitch] IndexStore: Invalid version in fuse-files.json (expected=${IndexStore.VERSION}, got=${data.version})`);
-							throw new Error("Version mismatch");
-						}
-
-						fuseFiles = data.index;
-						console.info(`[OmniSwitch] IndexStore: Loaded Fuse files in ${Date.now() - t} ms`);
-					} else {
-						throw new Error("fuse-files.json not found");
+					const t = Date.now();
+					const text = await this.readIndexText(name);
+					if (text === null) {
+						if (required) throw new Error(`${BINARY_FILES[name]} not found`);
+						return;
 					}
+					assign(JSON.parse(text));
+					console.info(`[OmniSwitch] IndexStore: Loaded ${label} in ${Date.now() - t} ms`);
 				})());
+			};
 
-				// Load Fuse headings (only for fuse and both modes, NOT hybrid)
+			if (engine === 'fuse' || engine === 'hybrid' || engine === 'both') {
+				load("fuseFiles", "Fuse files", true, (index) => { fuseFiles = index; });
+				// Fuse headings only for fuse and both modes, NOT hybrid
 				if (engine === 'fuse' || engine === 'both') {
-					loadPromises.push((async () => {
-						if (await adapter.exists(paths.fuseHeadings)) {
-							const t = Date.now();
-							const content = await adapter.read(paths.fuseHeadings);
-							const data: IndexFile = JSON.parse(content);
-
-							if (data.version !== IndexStore.VERSION) {
-								console.info(`[OmniSwitch] IndexStore: Invalid version in fuse-headings.json`);
-								throw new Error("Version mismatch");
-							}
-
-							fuseHeadings = data.index;
-							console.info(`[OmniSwitch] IndexStore: Loaded Fuse headings in ${Date.now() - t} ms`);
-						}
-					})());
+					load("fuseHeadings", "Fuse headings", false, (index) => { fuseHeadings = index; });
 				}
 			}
 
 			if (engine === 'mini' || engine === 'both') {
-				// Load Mini files (only for mini and both modes, NOT hybrid)
-				loadPromises.push((async () => {
-					if (await adapter.exists(paths.miniFiles)) {
-						const t = Date.now();
-						const content = await adapter.read(paths.miniFiles);
-						const data: IndexFile = JSON.parse(content);
-
-						if (data.version !== IndexStore.VERSION) {
-							console.info(`[OmniSwitch] IndexStore: Invalid version in mini-files.json`);
-							throw new Error("Version mismatch");
-						}
-
-						miniFiles = data.index;
-						console.info(`[OmniSwitch] IndexStore: Loaded Mini files in ${Date.now() - t} ms`);
-					} else if (engine === 'mini') {
-						throw new Error("mini-files.json not found");
-					}
-				})());
+				// Mini files only for mini and both modes, NOT hybrid
+				load("miniFiles", "Mini files", engine === 'mini', (index) => { miniFiles = index; });
 			}
 
 			if (engine === 'mini' || engine === 'hybrid' || engine === 'both') {
-				// Load Mini headings (needed for mini, hybrid, and both modes)
-				loadPromises.push((async () => {
-					if (await adapter.exists(paths.miniHeadings)) {
-						const t = Date.now();
-						const content = await adapter.read(paths.miniHeadings);
-						// v6: mini-headings is stored as RAW JSON (no wrapper)
-						// Version check is implicit in filename (mini-headings-v6.json)
-						miniHeadings = JSON.parse(content);
-						console.info(`[OmniSwitch] IndexStore: Loaded Mini headings in ${Date.now() - t} ms`);
-					}
-				})());
+				// Mini headings are needed for mini, hybrid, and both modes
+				load("miniHeadings", "Mini headings", false, (index) => { miniHeadings = index; });
 			}
 
 			// Wait for all parallel loads to complete
@@ -254,24 +416,135 @@ export class IndexStore {
 			const ms = Date.now() - t0;
 			console.info(`[OmniSwitch] IndexStore: Loaded ${engine} indexes in ${ms} ms total (parallel)`);
 
+			const maps = idMaps as IdMaps | null;
 			return {
 				fuseFiles,
 				fuseHeadings,
 				miniFiles,
 				miniHeadings,
-				fileIdMap,
-				headingIdMap,
-				nextFileId,
-				nextHeadingId,
+				fileIdMap: maps?.fileIdMap,
+				headingIdMap: maps?.headingIdMap,
+				nextFileId: maps?.nextFileId,
+				nextHeadingId: maps?.nextHeadingId,
+				fileStats: maps?.fileStats,
 			};
 		} catch (error) {
 			console.warn("[OmniSwitch] IndexStore: Failed to load indexes", error);
+			this.reportDamaged(error);
+			return null;
+		}
+	}
+
+	/**
+	 * Load just the ID maps (hybrid fast path); returns null if missing, damaged or from another version
+	 */
+	async loadIdMaps(): Promise<IdMaps | null> {
+		try {
+			const idMaps = await this.readIdMaps();
+			if (!idMaps) {
+				console.info("[OmniSwitch] IndexStore: No id-maps found");
+			}
+			return idMaps;
+		} catch (error) {
+			console.warn("[OmniSwitch] IndexStore: Failed to load ID maps", error);
+			this.reportDamaged(error);
+			return null;
+		}
+	}
+
+	/**
+	 * The JSON text of one engine index, for callers that hand it straight to the engine (hybrid fast
+	 * path). Returns null when the file is missing, damaged or from another version.
+	 */
+	async readIndexJSON(name: EngineIndexName): Promise<string | null> {
+		try {
+			const text = await this.readIndexText(name);
+			if (text === null) {
+				console.info(`[OmniSwitch] IndexStore: No ${BINARY_FILES[name]} found`);
+			}
+			return text;
+		} catch (error) {
+			console.warn(`[OmniSwitch] IndexStore: Failed to read ${BINARY_FILES[name]}`, error);
+			this.reportDamaged(error);
 			return null;
 		}
 	}
 
 	/**
-	 * Clear persisted indexes
+	 * Load persisted blocks; returns null if missing or from another version
+	 */
+	async loadBlocks(): Promise<BlocksData | null> {
+		const t0 = Date.now();
+		try {
+			const stored = await this.readStored("blocks");
+			if (!stored) {
+				console.info("[OmniSwitch] IndexStore: No blocks found");
+				return null;
+			}
+			const data = stored.format === "binary" ? decodeBlocks(stored.body) : JSON.parse(stored.text) as BlocksData;
+			console.info(`[OmniSwitch] IndexStore: Loaded blocks in ${Date.now() - t0} ms (blocks=${data.docs.length})`);
+			return {
+				blockIdMap: data.blockIdMap,
+				nextBlockId: data.nextBlockId,
+				docs: data.docs,
+			};
+		} catch (error) {
+			console.warn("[OmniSwitch] IndexStore: Failed to load blocks", error);
+			this.reportDamaged(error);
+			return null;
+		}
+	}
+
+	/**
+	 * Save the content (body text) index with its ID map
+	 */
+	async saveContentIndex(data: ContentData): Promise<void> {
+		const t0 = Date.now();
+		if (!this.paths) {
+			this.paths = await this.createPaths();
+		}
+
+		this.contentDirty = false;
+		try {
+			const entry = await this.writeIndexFile("content", encodeContent(data));
+			await this.updateManifest([entry], ["content"]);
+			console.info(`[OmniSwitch] IndexStore: Saved content index in ${Date.now() - t0} ms (chunks=${data.contentIdMap.length}, ${formatBytes(entry[1].size)})`);
+		} catch (error) {
+			this.contentDirty = true;
+			console.error("[OmniSwitch] IndexStore: Failed to save content index", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Load the content index; returns null if missing or from another version
+	 */
+	async loadContentIndex(): Promise<ContentData | null> {
+		const t0 = Date.now();
+		try {
+			const stored = await this.readStored("content");
+			if (!stored) {
+				console.info("[OmniSwitch] IndexStore: No content index found");
+				return null;
+			}
+			const data = stored.format === "binary" ? decodeContent(stored.body) : JSON.parse(stored.text) as ContentData;
+			console.info(`[OmniSwitch] IndexStore: Loaded content index in ${Date.now() - t0} ms (chunks=${data.contentIdMap.length})`);
+			return {
+				index: data.index,
+				contentIdMap: data.contentIdMap,
+				nextContentId: data.nextContentId,
+				noteMtimes: data.noteMtimes,
+				savedAt: data.savedAt,
+			};
+		} catch (error) {
+			console.warn("[OmniSwitch] IndexStore: Failed to load content index", error);
+			this.reportDamaged(error);
+			return null;
+		}
+	}
+
+	/**
+	 * Clear persisted indexes (binary files, any v10 JSON files and the manifest)
 	 */
 	async clearIndexes(): Promise<void> {
 		if (!this.paths) {
@@ -279,13 +552,14 @@ export class IndexStore {
 		}
 
 		const adapter = this.app.vault.adapter;
+		const names = Object.keys(BINARY_FILES) as IndexFileName[];
+		const segments = (await this.loadManifest())?.segments ?? [];
 
 		const filesToRemove = [
-			this.paths.fuseFiles,
-			this.paths.fuseHeadings,
-			this.paths.miniFiles,
-			this.paths.miniHeadings,
-			this.paths.idMaps
+			...names.map((name) => this.paths![name]),
+			...names.map((name) => this.legacyPath(name)),
+			...segments.map((name) => `${this.paths!.root}/${name}`),
+			this.paths.manifest
 		];
 
 		for (const file of filesToRemove) {
@@ -294,9 +568,237 @@ export class IndexStore {
 			}
 		}
 
+		this.manifest = null;
+		this.nextSegment = null;
+		this.pending.clear();
+
 		console.info("[OmniSwitch] IndexStore: Cleared all indexes");
 	}
 
+	private async readIdMaps(): Promise<IdMaps | null> {
+		const stored = await this.readStored("idMaps");
+		if (!stored) {
+			return null;
+		}
+		return stored.format === "binary" ? decodeIdMaps(stored.body) : JSON.parse(stored.text) as IdMaps;
+	}
+
+	/**
+	 * Bare index JSON; v10 files other than mini-headings wrap it as `{ version, index }`
+	 */
+	private async readIndexText(name: EngineIndexName): Promise<string | null> {
+		const stored = await this.readStored(name);
+		if (!stored) {
+			return null;
+		}
+		if (stored.format === "binary") {
+			return decodeText(stored.body);
+		}
+		return name === "miniHeadings" ? stored.text : JSON.stringify((JSON.parse(stored.text) as IndexFile).index);
+	}
+
+	private async writeIndexFile(name: IndexFileName, body: Uint8Array): Promise<[string, ManifestEntry]> {
+		const paths = this.paths ?? (this.paths = await this.createPaths());
+		return this.writeAtomic(paths[name], await packIndexFile(IndexStore.VERSION, body, this.compress));
+	}
+
+	/**
+	 * Write to `<path>.tmp`, then swap it into place, so a crash never leaves a half-written file at `path`
+	 */
+	private async writeAtomic(path: string, content: string | Uint8Array): Promise<[string, ManifestEntry]> {
+		const adapter = this.app.vault.adapter;
+		const tmp = `${path}.tmp`;
+		if (typeof content === "string") {
+			await adapter.write(tmp, content);
+		} else {
+			await adapter.writeBinary(tmp, toArrayBuffer(content));
+		}
+		if (await adapter.exists(path)) {
+			await adapter.remove(path);
+		}
+		await adapter.rename(tmp, path);
+		const entry = typeof content === "string"
+			? { size: content.length, hash: hashContent(content), version: IndexStore.VERSION }
+			: { size: content.length, hash: hashBytes(content), version: IndexStore.VERSION };
+		return [this.fileName(path), entry];
+	}
+
+	/**
+	 * Read a file and check it against the manifest; throws IndexIntegrityError on any mismatch.
+	 * Falls back to the v10 JSON file while the manifest still lists it. Returns null when neither the
+	 * manifest nor the disk knows the file.
+	 */
+	private async readStored(name: IndexFileName): Promise<StoredFile | null> {
+		const paths = this.paths ?? (this.paths = await this.createPaths());
+		const adapter = this.app.vault.adapter;
+		const manifest = await this.loadManifest();
+		if (!manifest) {
+			// Saves always end with the manifest, so its absence means indexes from before v10
+			console.info("[OmniSwitch] IndexStore: No manifest.json found");
+			throw new Error("No manifest");
+		}
+
+		const fileName = BINARY_FILES[name];
+		if (manifest.files[fileName]) {
+			return { format: "binary", body: await this.readBinary(fileName, IndexStore.VERSION) };
+		}
+
+		const legacyName = LEGACY_JSON_FILES[name];
+		const legacyEntry = manifest.files[legacyName];
+		if (legacyEntry) {
+			this.checkVersion(legacyName, legacyEntry, LEGACY_JSON_VERSION);
+			const legacyPath = this.legacyPath(name);
+			if (!(await adapter.exists(legacyPath))) {
+				throw new IndexIntegrityError(`${legacyName} is missing`);
+			}
+			const text = await adapter.read(legacyPath);
+			if (text.length !== legacyEntry.size) {
+				throw new IndexIntegrityError(`${legacyName} has ${text.length} characters, manifest says ${legacyEntry.size}`);
+			}
+			if (hashContent(text) !== legacyEntry.hash) {
+				throw new IndexIntegrityError(`${legacyName} does not match its manifest hash`);
+			}
+			console.info(`[OmniSwitch] IndexStore: Loaded ${legacyName} (v${LEGACY_JSON_VERSION} JSON, replaced by the next save)`);
+			return { format: "json", text };
+		}
+
+		if (await adapter.exists(paths[name])) {
+			throw new IndexIntegrityError(`${fileName} is not listed in the manifest`);
+		}
+		return null;
+	}
+
+	/**
+	 * Read a binary file the manifest lists, verify it and return its body
+	 */
+	private async readBinary(fileName: string, expected: number): Promise<Uint8Array> {
+		const paths = this.paths ?? (this.paths = await this.createPaths());
+		const adapter = this.app.vault.adapter;
+		const entry = this.manifest?.files[fileName];
+		if (!entry) {
+			throw new IndexIntegrityError(`${fileName} is not listed in the manifest`);
+		}
+		this.checkVersion(fileName, entry, expected);
+		const path = `${paths.root}/${fileName}`;
+		if (!(await adapter.exists(path))) {
+			throw new IndexIntegrityError(`${fileName} is missing`);
+		}
+		const bytes = new Uint8Array(await adapter.readBinary(path));
+		if (bytes.length !== entry.size) {
+			throw new IndexIntegrityError(`${fileName} has ${bytes.length} bytes, manifest says ${entry.size}`);
+		}
+		if (hashBytes(bytes) !== entry.hash) {
+			throw new IndexIntegrityError(`${fileName} does not match its manifest hash`);
+		}
+		const { version, body } = await unpackIndexFile(bytes);
+		if (version !== expected) {
+			console.info(`[OmniSwitch] IndexStore: Invalid version in ${fileName} (expected=${expected}, got=${version})`);
+			throw new Error("Version mismatch");
+		}
+		return body;
+	}
+
+	private checkVersion(fileName: string, entry: ManifestEntry, expected: number): void {
+		if (entry.version !== expected) {
+			console.info(`[OmniSwitch] IndexStore: Invalid version in manifest for ${fileName} (expected=${expected}, got=${entry.version})`);
+			throw new Error("Version mismatch");
+		}
+	}
+
+	private async loadManifest(): Promise<IndexManifest | null> {
+		if (this.manifest) {
+			return this.manifest;
+		}
+		if (!this.paths) {
+			this.paths = await this.createPaths();
+		}
+		const adapter = this.app.vault.adapter;
+		try {
+			if (!(await adapter.exists(this.paths.manifest))) {
+				return null;
+			}
+			const data = JSON.parse(await adapter.read(this.paths.manifest)) as IndexManifest;
+			if (!data || typeof data.files !== "object" || data.files === null) {
+				return null;
+			}
+			this.manifest = data;
+			return data;
+		} catch (error) {
+			console.warn("[OmniSwitch] IndexStore: Failed to read manifest", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Merge entries into the manifest and write it atomically; writes are serialized because the
+	 * content index is saved independently of the other files. The v10 JSON files the new entries
+	 * replace are dropped from the manifest and then deleted, as are delta segments `segments` drops.
+	 */
+	private updateManifest(
+		entries: Array<[string, ManifestEntry]>,
+		replaced: IndexFileName[],
+		segments: (current: string[]) => string[] = (current) => current,
+	): Promise<void> {
+		const write = this.manifestWrite.then(async () => {
+			const paths = this.paths ?? (this.paths = await this.createPaths());
+			const current = (await this.loadManifest()) ?? { version: IndexStore.VERSION, files: {} };
+			const files = { ...current.files, ...Object.fromEntries(entries) };
+			const migrated = replaced.filter((name) => files[LEGACY_JSON_FILES[name]]);
+			for (const name of migrated) {
+				delete files[LEGACY_JSON_FILES[name]];
+			}
+			const currentSegments = current.segments ?? [];
+			const nextSegments = segments(currentSegments);
+			const dropped = currentSegments.filter((name) => !nextSegments.includes(name));
+			for (const name of dropped) {
+				delete files[name];
+			}
+			const next: IndexManifest = { version: IndexStore.VERSION, files, segments: nextSegments };
+			await this.writeAtomic(paths.manifest, JSON.stringify(next));
+			this.manifest = next;
+
+			const adapter = this.app.vault.adapter;
+			for (const name of dropped) {
+				const path = `${paths.root}/${name}`;
+				if (await adapter.exists(path)) {
+					await adapter.remove(path);
+				}
+			}
+			for (const name of replaced) {
+				const legacyPath = this.legacyPath(name);
+				if (await adapter.exists(legacyPath)) {
+					await adapter.remove(legacyPath);
+				}
+			}
+			if (migrated.length > 0) {
+				console.info(`[OmniSwitch] IndexStore: Migrated ${migrated.length} v${LEGACY_JSON_VERSION} JSON files to the binary format`);
+			}
+		});
+		this.manifestWrite = write.catch(() => undefined);
+		return write;
+	}
+
+	/**
+	 * Tell the user once that saved indexes were damaged; callers fall back to rebuilding them
+	 */
+	private reportDamaged(error: unknown): void {
+		if (!(error instanceof IndexIntegrityError) || this.damageReported) {
+			return;
+		}
+		this.damageReported = true;
+		console.warn(`[OmniSwitch] IndexStore: Integrity check failed: ${error.message}`);
+		this.onDamaged?.(`OmniSwitch: the saved search index is incomplete or damaged (${error.message}). Rebuilding it from the vault.`);
+	}
+
+	private legacyPath(name: IndexFileName): string {
+		const root = this.paths?.root ?? `.obsidian/plugins/${this.pluginId}/${IndexStore.DIR_NAME}`;
+		return `${root}/${LEGACY_JSON_FILES[name]}`;
+	}
+
+	private fileName(path: string): string {
+		return path.slice(path.lastIndexOf("/") + 1);
+	}
+
 	private async createPaths(): Promise<IndexPaths> {
 		const adapter = this.app.vault.adapter;
 		const pluginRoot = `.obsidian/plugins/${this.pluginId}`;
@@ -309,11 +811,110 @@ export class IndexStore {
 
 		return {
 			root,
-			fuseFiles: `${root}/fuse-files.json`,
-			fuseHeadings: `${root}/fuse-headings.json`,
-			miniFiles: `${root}/mini-files.json`,
-			miniHeadings: `${root}/mini-headings-v${IndexStore.VERSION}.json`,  // v6: Versioned, raw JSON
-			idMaps: `${root}/id-maps.json`,
+			fuseFiles: `${root}/${BINARY_FILES.fuseFiles}`,
+			fuseHeadings: `${root}/${BINARY_FILES.fuseHeadings}`,
+			miniFiles: `${root}/${BINARY_FILES.miniFiles}`,
+			miniHeadings: `${root}/${BINARY_FILES.miniHeadings}`,
+			idMaps: `${root}/${BINARY_FILES.idMaps}`,
+			content: `${root}/${BINARY_FILES.content}`,
+			blocks: `${root}/${BINARY_FILES.blocks}`,
+			manifest: `${root}/manifest.json`,
 		};
 	}
 }
+
+/** id-maps body: next IDs, then the file and heading ID maps */
+/** File stats come last, so ID maps saved before they were recorded still decode */
+function encodeIdMaps(data: IdMaps): Uint8Array {
+	const writer = new BinaryWriter();
+	writer.writeVarint(data.nextFileId);
+	writer.writeVarint(data.nextHeadingId);
+	writeIdMap(writer, data.fileIdMap);
+	writeIdMap(writer, data.headingIdMap);
+	if (data.fileStats) {
+		writeStringTable(writer, data.fileStats.map(([path]) => path));
+		for (const [, mtime, size] of data.fileStats) {
+			writer.writeVarint(Math.max(0, Math.floor(mtime)));
+			writer.writeVarint(Math.max(0, Math.floor(size)));
+		}
+	}
+	return writer.finish();
+}
+
+function decodeIdMaps(body: Uint8Array): IdMaps {
+	const reader = new BinaryReader(body);
+	const nextFileId = reader.readVarint();
+	const nextHeadingId = reader.readVarint();
+	const fileIdMap = readIdMap(reader);
+	const headingIdMap = readIdMap(reader);
+	if (reader.done) {
+		return { fileIdMap, headingIdMap, nextFileId, nextHeadingId };
+	}
+	const fileStats = readStringTable(reader).map((path): [string, number, number] => [path, reader.readVarint(), reader.readVarint()]);
+	return { fileIdMap, headingIdMap, nextFileId, nextHeadingId, fileStats };
+}
+
+/** blocks body: ID map, next ID, front-coded doc IDs, then each preview text */
+function encodeBlocks(data: BlocksData): Uint8Array {
+	const writer = new BinaryWriter();
+	writeIdMap(writer, data.blockIdMap);
+	writer.writeVarint(data.nextBlockId);
+	writeStringTable(writer, data.docs.map((doc) => doc.id));
+	for (const doc of data.docs) {
+		writer.writeString(doc.text);
+	}
+	return writer.finish();
+}
+
+function decodeBlocks(body: Uint8Array): BlocksData {
+	const reader = new BinaryReader(body);
+	const blockIdMap = readIdMap(reader);
+	const nextBlockId = reader.readVarint();
+	const docs = readStringTable(reader).map((id) => ({ id, text: reader.readString() }));
+	return { blockIdMap, nextBlockId, docs };
+}
+
+/** mini-content body: ID map, next ID, then the MiniSearch JSON */
+/** Note mtimes come last, so content files saved before they were recorded still decode */
+function encodeContent(data: ContentData): Uint8Array {
+	const writer = new BinaryWriter();
+	writeIdMap(writer, data.contentIdMap);
+	writer.writeVarint(data.nextContentId);
+	writer.writeString(JSON.stringify(data.index));
+	if (data.noteMtimes) {
+		writeStringTable(writer, data.noteMtimes.map(([path]) => path));
+		for (const [, mtime] of data.noteMtimes) {
+			writer.writeVarint(Math.max(0, Math.floor(mtime)));
+		}
+		writer.writeVarint(Math.max(0, Math.floor(data.savedAt ?? 0)));
+	}
+	return writer.finish();
+}
+
+function decodeContent(body: Uint8Array): ContentData {
+	const reader = new BinaryReader(body);
+	const contentIdMap = readIdMap(reader);
+	const nextContentId = reader.readVarint();
+	const index: unknown = JSON.parse(reader.readString());
+	if (reader.done) {
+		return { index, contentIdMap, nextContentId };
+	}
+	const noteMtimes = readStringTable(reader).map((path): [string, number] => [path, reader.readVarint()]);
+	const savedAt = reader.readVarint();
+	return { index, contentIdMap, nextContentId, noteMtimes, savedAt };
+}
+
+function segmentNumber(name: string): number {
+	const match = /^delta-(\d+)\.bin$/.exec(name);
+	return match ? Number(match[1]) : 0;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+	return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+		? bytes.buffer as ArrayBuffer
+		: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function formatBytes(bytes: number): string {
+	return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
@@ -1,3 +1,4 @@
 export { SearchCoordinator } from "./coordinator";
 export { StatusBroadcaster, type IndexStatus } from "./status";
-export type { SearchHit, SearchEngineId, SearchItem, FileSearchItem, CommandSearchItem, HeadingSearchItem, FolderSearchItem } from "./types";
+export type { SearchHit, SearchEngineId, SearchItem, FileSearchItem, CommandSearchItem, HeadingSearchItem, FolderSearchItem, TagSearchItem, ContentSearchItem, BlockSearchItem, TabSearchItem, CreateSearchItem, ProviderSearchItem } from "./types";
+export { ProviderRegistry, providerIdOf, providerMode, toProviderHits, type OmniSwitchProvider, type ProviderMode, type ProviderResult } from "./providers";
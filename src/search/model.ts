@@ -5,12 +5,19 @@ export interface PersistedHeadingEntry {
   level: number;
 }
 
+export interface PersistedBlockEntry {
+  id: string;   // block ID without "^"
+  text: string; // preview of the block's text
+}
+
 export interface PersistedFileEntry {
   path: string;
   extension: string;
   modified: number;
   size: number;
   headings: PersistedHeadingEntry[];
+  aliases?: string[];
+  blocks?: PersistedBlockEntry[];
 }
 
 export function normalizePath(path: string): string {
@@ -16,6 +16,8 @@ export interface JournalUpsert extends JournalEventBase {
     mtime: number;
     size: number;
     headings: Array<{ text: string; level: number; ord: number }>;
+    aliases?: string[];
+    blocks?: Array<{ id: string; text: string }>;
 }
 
 export interface JournalDelete extends JournalEventBase {
@@ -31,6 +33,70 @@ export interface JournalRename extends JournalEventBase {
 
 export type JournalEvent = JournalUpsert | JournalDelete | JournalRename;
 
+/** Compacted journal: the file list as of `ts`; only events from `ts` on are kept in chunks */
+export interface JournalBaseline {
+    v: number;
+    ts: number;
+    files: PersistedFileEntry[];
+}
+
+/** Everything journaled before a save took its snapshot: the chunks closed at that point */
+export interface JournalCheckpoint {
+    ts: number;
+    chunks: string[];
+}
+
+export interface JournalReplay {
+    entries: Map<string, PersistedFileEntry>;
+    touched: Set<string>; // paths changed by the replayed events (both sides of a rename)
+    upserts: number;
+    deletes: number;
+    renames: number;
+}
+
+/**
+ * Apply events on top of a baseline in timestamp order (ties keep log order): an upsert replaces the entry,
+ * a delete drops it, and a rename moves it (overwriting anything at the new path).
+ */
+export function replayJournal(events: readonly JournalEvent[], baseline: readonly PersistedFileEntry[] = []): JournalReplay {
+    const entries = new Map<string, PersistedFileEntry>();
+    for (const entry of baseline) {
+        const path = normalizePath(entry.path);
+        entries.set(path, { ...entry, path });
+    }
+    const touched = new Set<string>();
+    let upserts = 0; let deletes = 0; let renames = 0;
+    const ordered = events.map((ev, i) => ({ ev, i })).sort((a, b) => (a.ev.ts || 0) - (b.ev.ts || 0) || a.i - b.i);
+    for (const { ev } of ordered) {
+        if (ev.op === "upsert" && ev.path) {
+            const path = normalizePath(ev.path);
+            const headings = Array.isArray(ev.headings) ? ev.headings.map((h) => ({ text: h.text, level: h.level })) : [];
+            const aliases = Array.isArray(ev.aliases) ? ev.aliases.filter((a): a is string => typeof a === "string") : [];
+            const blocks = Array.isArray(ev.blocks) ? ev.blocks.filter((b) => typeof b?.id === "string").map((b) => ({ id: b.id, text: typeof b.text === "string" ? b.text : "" })) : [];
+            entries.set(path, { path, extension: (ev.ext ?? "").toLowerCase(), modified: Math.trunc(ev.mtime ?? 0), size: typeof ev.size === "number" ? ev.size : -1, headings, aliases, blocks });
+            touched.add(path);
+            upserts += 1;
+        } else if (ev.op === "delete" && ev.path) {
+            const path = normalizePath(ev.path);
+            entries.delete(path);
+            touched.add(path);
+            deletes += 1;
+        } else if (ev.op === "rename" && ev.oldPath && ev.newPath) {
+            const oldPath = normalizePath(ev.oldPath);
+            const newPath = normalizePath(ev.newPath);
+            const current = entries.get(oldPath);
+            if (current) {
+                entries.delete(oldPath);
+                entries.set(newPath, { ...current, path: newPath });
+            }
+            touched.add(oldPath);
+            touched.add(newPath);
+            renames += 1;
+        }
+    }
+    return { entries, touched, upserts, deletes, renames };
+}
+
 interface JournalPaths {
     baseDir: string;
     chunkPath: string;
@@ -57,6 +123,13 @@ export class JournalStore {
         this.paths = await this.createPaths();
     }
 
+    private async ensurePaths(): Promise<JournalPaths> {
+        if (!this.paths) {
+            this.paths = await this.createPaths();
+        }
+        return this.paths;
+    }
+
     private async createPaths(): Promise<JournalPaths> {
         const adapter = this.app.vault.adapter;
         const baseDir = `.obsidian/plugins/${this.pluginId}/journal`;
@@ -67,14 +140,23 @@ export class JournalStore {
         } catch {
             // ignore
         }
-        const now = Date.now();
-        const chunkPath = `${baseDir}/files-${now}.ndjson`;
+        const chunkPath = await this.newChunkPath(baseDir);
         // start fresh chunk per session
         await adapter.write(chunkPath, "");
         this.chunkContent = "";
         return { baseDir, chunkPath };
     }
 
+    private async newChunkPath(baseDir: string): Promise<string> {
+        const adapter = this.app.vault.adapter;
+        let stamp = Date.now();
+        // Never reuse a chunk name, even for two chunks started in the same millisecond
+        while (await adapter.exists(`${baseDir}/files-${stamp}.ndjson`)) {
+            stamp += 1;
+        }
+        return `${baseDir}/files-${stamp}.ndjson`;
+    }
+
     private enqueue(line: string): void {
         this.buffer.push(line);
         this.chunkBytes += line.length + 1;
@@ -92,29 +174,29 @@ export class JournalStore {
         }
     }
 
-    private async rotateChunk(): Promise<void> {
+    /** Returns the new chunk; every event enqueued before the returned promise settles is in an older one */
+    private async rotateChunk(): Promise<string> {
+        const paths = await this.ensurePaths();
+        const adapter = this.app.vault.adapter;
+        const chunkPath = await this.newChunkPath(paths.baseDir);
+        try { await adapter.write(chunkPath, ""); } catch {}
         await this.flush();
-        // start a new chunk file
+        // Switch without awaiting after the flush, so no later event lands in the old chunk
         this.chunkBytes = 0;
         this.chunkContent = "";
-        const paths = this.paths ?? (await this.createPaths());
-        const adapter = this.app.vault.adapter;
-        const chunkPath = `${paths.baseDir}/files-${Date.now()}.ndjson`;
-        try { await adapter.write(chunkPath, ""); } catch {}
         this.paths = { baseDir: paths.baseDir, chunkPath };
+        return chunkPath;
     }
 
     private async flush(): Promise<void> {
-        if (!this.paths) {
-            this.paths = await this.createPaths();
-        }
+        const paths = await this.ensurePaths();
         if (this.buffer.length === 0) return;
         const lines = this.buffer.join("\n") + "\n";
         this.buffer = [];
         const adapter = this.app.vault.adapter;
         // No append; rewrite full chunk content accumulated this session
         this.chunkContent += lines;
-        await adapter.write(this.paths.chunkPath, this.chunkContent);
+        await adapter.write(paths.chunkPath, this.chunkContent);
     }
 
     async close(): Promise<void> {
@@ -137,6 +219,12 @@ export class JournalStore {
             size: typeof entry.size === "number" ? entry.size : -1,
             headings: (entry.headings ?? []).map((h, i) => ({ text: h.text, level: h.level, ord: i + 1 })),
         };
+        if (entry.aliases && entry.aliases.length > 0) {
+            event.aliases = entry.aliases;
+        }
+        if (entry.blocks && entry.blocks.length > 0) {
+            event.blocks = entry.blocks;
+        }
         this.enqueue(JSON.stringify(event));
     }
 
@@ -150,18 +238,94 @@ export class JournalStore {
         this.enqueue(JSON.stringify(event));
     }
 
-    async loadAllEvents(): Promise<JournalEvent[]> {
+    /**
+     * Baseline plus every later event, replayed into the current file list
+     */
+    async loadState(): Promise<JournalReplay> {
+        const baseline = await this.loadBaseline();
+        const events = await this.loadAllEvents(baseline?.ts ?? 0);
+        const state = replayJournal(events, baseline?.files ?? []);
+        console.info(`[OmniSwitch] Journal: replayed baseline=${baseline?.files.length ?? 0} (upserts=${state.upserts}, deletes=${state.deletes}, renames=${state.renames}, files=${state.entries.size})`);
+        return state;
+    }
+
+    async loadBaseline(): Promise<JournalBaseline | null> {
+        const paths = await this.ensurePaths();
+        const adapter = this.app.vault.adapter;
+        const baselinePath = `${paths.baseDir}/baseline.json`;
+        try {
+            if (!(await adapter.exists(baselinePath))) return null;
+            const parsed = JSON.parse(await adapter.read(baselinePath)) as Partial<JournalBaseline>;
+            if (parsed.v !== 1 || typeof parsed.ts !== "number" || !Array.isArray(parsed.files)) {
+                console.warn("[OmniSwitch] Journal: ignoring unreadable baseline");
+                return null;
+            }
+            return { v: parsed.v, ts: parsed.ts, files: parsed.files };
+        } catch (e) {
+            console.warn("[OmniSwitch] Journal: failed to read baseline", e);
+            return null;
+        }
+    }
+
+    /**
+     * Close the current chunk. Taken right before a save snapshots the engines: the closed chunks hold
+     * only changes that snapshot covers, and anything journaled while the save is written goes to a new one.
+     */
+    async checkpoint(): Promise<JournalCheckpoint> {
+        // Later events get timestamps from here on, so the baseline never hides one of them
+        const ts = Date.now();
+        const chunkPath = await this.rotateChunk();
+        const paths = await this.ensurePaths();
+        const current = chunkStamp(chunkPath);
+        const chunks = (await this.listChunks(paths.baseDir)).filter((p) => chunkStamp(p) < current);
+        return { ts, chunks };
+    }
+
+    /**
+     * Fold the chunks closed at `checkpoint` into `baseline.json` and delete them. The coordinator compacts
+     * right after saving its indexes, so the chunks left at the next startup hold exactly the changes those
+     * indexes miss.
+     */
+    async compact(checkpoint: JournalCheckpoint): Promise<void> {
         const t0 = Date.now();
-        const paths = this.paths ?? (await this.createPaths());
+        const paths = await this.ensurePaths();
         const adapter = this.app.vault.adapter;
-        let files: string[] = [];
+        const baseline = await this.loadBaseline();
+        const { chunks } = checkpoint;
+        const events = await this.readChunks(chunks, baseline?.ts ?? 0);
+        const { entries } = replayJournal(events, baseline?.files ?? []);
+        const next: JournalBaseline = { v: 1, ts: Math.max(checkpoint.ts, baseline?.ts ?? 0), files: Array.from(entries.values()) };
+        await adapter.write(`${paths.baseDir}/baseline.json`, JSON.stringify(next));
+        for (const chunk of chunks) {
+            try { await adapter.remove(chunk); } catch {}
+        }
+        console.info(`[OmniSwitch] Journal: compacted ${events.length} events from ${chunks.length} chunks (files=${entries.size}) in ${Date.now() - t0} ms`);
+    }
+
+    /**
+     * Events logged since `since` (the baseline's timestamp), oldest first
+     */
+    async loadAllEvents(since = 0): Promise<JournalEvent[]> {
+        const t0 = Date.now();
+        const paths = await this.ensurePaths();
+        const events = await this.readChunks(await this.listChunks(paths.baseDir), since);
+        const ms = Date.now() - t0;
+        console.info(`[OmniSwitch] Journal: loaded ${events.length} events in ${ms} ms`);
+        return events;
+    }
+
+    private async listChunks(baseDir: string): Promise<string[]> {
         try {
-            // list directory
-            const listing = await (adapter as unknown as { list: (path: string) => Promise<{ files: string[]; folders: string[] }> }).list(paths.baseDir);
-            files = listing.files.filter((p) => p.endsWith(".ndjson"));
+            const listing = await (this.app.vault.adapter as unknown as { list: (path: string) => Promise<{ files: string[]; folders: string[] }> }).list(baseDir);
+            // Chunk names carry their creation time, so name order is log order
+            return listing.files.filter((p) => p.endsWith(".ndjson")).sort();
         } catch {
             return [];
         }
+    }
+
+    private async readChunks(files: string[], since: number): Promise<JournalEvent[]> {
+        const adapter = this.app.vault.adapter;
         const events: JournalEvent[] = [];
         for (const file of files) {
             try {
@@ -172,7 +336,7 @@ export class JournalStore {
                     if (!trimmed) continue;
                     try {
                         const parsed = JSON.parse(trimmed) as JournalEvent;
-                        if (parsed && typeof parsed === "object" && typeof (parsed as { op?: unknown }).op === "string") {
+                        if (parsed && typeof parsed === "object" && typeof (parsed as { op?: unknown }).op === "string" && (parsed.ts || 0) >= since) {
                             events.push(parsed);
                         }
                     } catch {
@@ -183,10 +347,13 @@ export class JournalStore {
                 // ignore
             }
         }
-        // sort by timestamp just in case
+        // sort by timestamp just in case (stable, so equal timestamps keep log order)
         events.sort((a, b) => (a.ts || 0) - (b.ts || 0));
-        const ms = Date.now() - t0;
-        console.info(`[OmniSwitch] Journal: loaded ${events.length} events in ${ms} ms`);
         return events;
     }
 }
+
+function chunkStamp(path: string): number {
+    const match = /files-(\d+)\.ndjson$/.exec(path);
+    return match ? Number(match[1]) : Number.POSITIVE_INFINITY;
+}
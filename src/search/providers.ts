@@ -0,0 +1,95 @@
+// Search providers: modes contributed by other plugins through OmniSwitchPlugin.registerProvider
+
+import type { Instruction } from "obsidian";
+import type { MatchRange, ProviderSearchItem, SearchHit } from "./types";
+
+export interface ProviderResult<T = unknown> {
+	id: string;             // stable within the provider; used for frecency and the preview
+	title: string;
+	subtitle?: string;
+	score?: number;         // higher is better; results without one keep the provider's order
+	matches?: MatchRange[]; // ranges of `title` to highlight
+	data: T;
+}
+
+export interface OmniSwitchProvider<T = unknown> {
+	id: string;
+	prefix: string;         // typed at the start of the query to enter the mode, e.g. "! "
+	label: string;          // mode pill text
+	placeholder?: string;
+	emptyStateText?: string;
+	instructions?: Instruction[];
+	search(query: string, limit: number): ProviderResult<T>[]; // called with "" for an empty query
+	render?(result: ProviderResult<T>, el: HTMLElement): void;
+	choose(result: ProviderResult<T>, evt: MouseEvent | KeyboardEvent): void | Promise<void>;
+}
+
+export type ProviderMode = `provider:${string}`;
+
+// Prefixes of the built-in modes (see detectPrefix); providers may not shadow them
+const BUILT_IN_PREFIXES = ["> ", "/ ", "# ", "@ ", "? ", "^ ", "~ ", "."];
+
+export function providerMode(id: string): ProviderMode {
+	return `provider:${id}`;
+}
+
+export function providerIdOf(mode: string): string | null {
+	return mode.startsWith("provider:") ? mode.slice("provider:".length) : null;
+}
+
+/**
+ * Registered providers. Ids must be unique and prefixes must not overlap each other or a built-in prefix.
+ */
+export class ProviderRegistry {
+	private readonly providers = new Map<string, OmniSwitchProvider>();
+
+	/**
+	 * Add a provider; returns a function that removes it again. Throws on an invalid or conflicting provider.
+	 */
+	register(provider: OmniSwitchProvider): () => void {
+		if (!provider.id || /\s/.test(provider.id)) {
+			throw new Error(`[OmniSwitch] Provider id "${provider.id}" must be non-empty without spaces`);
+		}
+		if (this.providers.has(provider.id)) {
+			throw new Error(`[OmniSwitch] Provider "${provider.id}" is already registered`);
+		}
+		if (!provider.prefix.trim()) {
+			throw new Error(`[OmniSwitch] Provider "${provider.id}" needs a prefix`);
+		}
+		const clash = [...BUILT_IN_PREFIXES, ...[...this.providers.values()].map((other) => other.prefix)]
+			.find((prefix) => prefix.startsWith(provider.prefix) || provider.prefix.startsWith(prefix));
+		if (clash !== undefined) {
+			throw new Error(`[OmniSwitch] Provider "${provider.id}" prefix "${provider.prefix}" overlaps "${clash}"`);
+		}
+		this.providers.set(provider.id, provider);
+		return () => {
+			if (this.providers.get(provider.id) === provider) {
+				this.providers.delete(provider.id);
+			}
+		};
+	}
+
+	get(id: string): OmniSwitchProvider | undefined {
+		return this.providers.get(id);
+	}
+
+	list(): OmniSwitchProvider[] {
+		return [...this.providers.values()];
+	}
+}
+
+/**
+ * Wrap provider results as hits: at most `limit`, scored so unscored results keep their order.
+ */
+export function toProviderHits(providerId: string, results: ProviderResult[], limit: number): SearchHit[] {
+	const kept = results.slice(0, Math.max(0, limit));
+	return kept.map((result, index) => {
+		const item: ProviderSearchItem = { type: "provider", providerId, result };
+		return {
+			item,
+			score: typeof result.score === "number" && Number.isFinite(result.score) ? result.score : 1 - index / kept.length,
+			engine: "provider",
+			matches: result.matches,
+		};
+	});
+}
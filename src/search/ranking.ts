@@ -0,0 +1,65 @@
+// Re-ranking pass: boosts structural matches the engines' scores ignore (exact, prefix, word starts, short names)
+
+import { hitTitle } from "./calibration";
+import type { SearchHit } from "./types";
+
+export interface RankingWeights {
+	exact: number;     // title equals the query
+	prefix: number;    // title starts with the query
+	wordStart: number; // every query word starts a word of the title, or the query spells the title's initials
+	shortName: number; // scaled by how much of the title the query covers
+}
+
+const WORD_SPLIT = /[^\p{L}\p{N}]+/u;
+
+/**
+ * True when each query word begins a word of `text` ("get sta" → "Getting Started"), or when a single-word
+ * query spells the initials of the text's words ("gs" → "Getting Started").
+ */
+export function matchesWordStarts(text: string, query: string): boolean {
+	const words = text.toLowerCase().split(WORD_SPLIT).filter(Boolean);
+	const terms = query.trim().toLowerCase().split(WORD_SPLIT).filter(Boolean);
+	if (words.length === 0 || terms.length === 0) {
+		return false;
+	}
+	if (terms.every((term) => words.some((word) => word.startsWith(term)))) {
+		return true;
+	}
+	return terms.length === 1 && terms[0]!.length > 1 && words.map((word) => word[0]).join("").startsWith(terms[0]!);
+}
+
+/**
+ * Sum of the boosts `text` earns for the query; 0 when the query is empty or the item has no title.
+ */
+export function structuralBoost(text: string | null, query: string, weights: RankingWeights): number {
+	const q = query.trim().toLowerCase();
+	if (!text || q.length === 0) {
+		return 0;
+	}
+	const t = text.toLowerCase();
+	let boost = 0;
+	if (t === q) {
+		boost += weights.exact;
+	}
+	if (t.startsWith(q)) {
+		boost += weights.prefix;
+	}
+	if (matchesWordStarts(t, q)) {
+		boost += weights.wordStart;
+	}
+	return boost + weights.shortName * Math.min(1, q.length / t.length);
+}
+
+/**
+ * Add structural boosts to calibrated scores and re-sort. Scores are divided by the largest possible total
+ * so they stay within 0..1 and keep comparing across modes.
+ */
+export function rerankHits(hits: SearchHit[], query: string, weights: RankingWeights): SearchHit[] {
+	const maxBoost = weights.exact + weights.prefix + weights.wordStart + weights.shortName;
+	if (maxBoost <= 0 || hits.length === 0) {
+		return hits;
+	}
+	return hits
+		.map((hit) => ({ ...hit, score: (hit.score + structuralBoost(hitTitle(hit.item), query, weights)) / (1 + maxBoost) }))
+		.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,47 @@
+// Startup reconciliation: what changed in the vault since the persisted indexes were saved
+
+export interface FileStat {
+	mtime: number;
+	size: number;
+}
+
+export interface ReconcileResult {
+	created: string[];
+	modified: string[];
+	deleted: string[];
+}
+
+/**
+ * Diff the persisted file list against the vault by path, mtime and size. A persisted path with no
+ * stats (`null`) is treated as modified, since nothing shows it is current; excluded paths count as deleted.
+ */
+export function reconcileFiles(
+	persisted: ReadonlyMap<string, FileStat | null>,
+	vault: ReadonlyMap<string, FileStat>,
+	isExcluded: (path: string) => boolean = () => false,
+): ReconcileResult {
+	const result: ReconcileResult = { created: [], modified: [], deleted: [] };
+	for (const [path, stat] of vault) {
+		if (isExcluded(path)) {
+			continue;
+		}
+		if (!persisted.has(path)) {
+			result.created.push(path);
+			continue;
+		}
+		const known = persisted.get(path);
+		if (!known || known.mtime !== stat.mtime || known.size !== stat.size) {
+			result.modified.push(path);
+		}
+	}
+	for (const path of persisted.keys()) {
+		if (!vault.has(path) || isExcluded(path)) {
+			result.deleted.push(path);
+		}
+	}
+	return result;
+}
+
+export function reconciledCount(result: ReconcileResult): number {
+	return result.created.length + result.modified.length + result.deleted.length;
+}
@@ -0,0 +1,48 @@
+// File name tokenization shared by both engines: camelCase, snake_case, kebab-case, digits and dots
+
+const SEPARATORS = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Lower-cased words of a name, split at separators and at case and letter/digit changes:
+ * "quarterlyRevenueReport_v2" → ["quarterly", "revenue", "report", "v", "2"], "XMLParser" → ["xml", "parser"].
+ */
+export function splitWords(text: string): string[] {
+	return text
+		.replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+		.replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+		.replace(/(\p{L})(\p{N})/gu, "$1 $2")
+		.replace(/(\p{N})(\p{L})/gu, "$1 $2")
+		.split(SEPARATORS)
+		.filter(Boolean)
+		.map((word) => word.toLowerCase());
+}
+
+/**
+ * Index-time tokens for a name: its words plus each space-separated chunk with separators removed, so a
+ * query typed without breaks ("quarterlyrev") still prefix-matches.
+ */
+export function tokenizeName(text: string): string[] {
+	const tokens = new Set<string>();
+	for (const chunk of text.split(/\s+/)) {
+		const words = splitWords(chunk);
+		for (const word of words) {
+			tokens.add(word);
+		}
+		if (words.length > 1) {
+			tokens.add(words.join(""));
+		}
+	}
+	return [...tokens];
+}
+
+/**
+ * First letter of each word (digit runs kept whole), or "" for single-word names:
+ * "quarterlyRevenueReport_v2" → "qrrv2", "Getting Started" → "gs".
+ */
+export function initialism(text: string): string {
+	const words = splitWords(text);
+	if (words.length < 2) {
+		return "";
+	}
+	return words.map((word) => (/^\p{N}+$/u.test(word) ? word : word[0])).join("");
+}
@@ -1,10 +1,12 @@
-import type { Command, HeadingCache, TFile, TFolder } from "obsidian";
+import type { Command, HeadingCache, TFile, TFolder, WorkspaceLeaf } from "obsidian";
+import type { ProviderResult } from "./providers";
 
-export type SearchItem = FileSearchItem | CommandSearchItem | HeadingSearchItem | FolderSearchItem;
+export type SearchItem = FileSearchItem | CommandSearchItem | HeadingSearchItem | FolderSearchItem | TagSearchItem | ContentSearchItem | BlockSearchItem | TabSearchItem | CreateSearchItem | ProviderSearchItem;
 
 export interface FileSearchItem {
 	type: "file";
 	file: TFile;
+	alias?: string; // frontmatter alias that produced this hit, if not the name
 }
 
 export interface CommandSearchItem {
@@ -23,10 +25,59 @@ export interface FolderSearchItem {
 	folder: TFolder;
 }
 
+export interface TagSearchItem {
+	type: "tag";
+	tag: string;   // without leading "#", e.g. "project/alpha"
+	count: number; // notes using this tag or any nested tag
+}
+
+export interface ContentSearchItem {
+	type: "content";
+	file: TFile;
+	line: number;    // 0-based line of the matched text
+	snippet: string; // matched line, clipped around the hit
+}
+
+export interface BlockSearchItem {
+	type: "block";
+	file: TFile;
+	blockId: string; // without leading "^"
+	text: string;    // preview of the block's text
+}
+
+export type TabLocation = "main" | "aux" | "popout";
+
+export interface TabSearchItem {
+	type: "tab";
+	leaf: WorkspaceLeaf;
+	path: string;
+	title: string;         // tab header text
+	location: TabLocation;
+}
+
+// Synthetic suggestion offering to create a note (or, when picking a folder, a folder) from the typed query
+export interface CreateSearchItem {
+	type: "create";
+	kind: "note" | "folder";
+	path: string; // vault path to create; notes include ".md"
+}
+
+// Result contributed by a registered provider
+export interface ProviderSearchItem {
+	type: "provider";
+	providerId: string;
+	result: ProviderResult;
+}
+
 export type SearchEngineId = "fuse" | "mini" | "hybrid";
 
+export type MatchRange = [number, number]; // [start, end) offsets into the matched text
+
 export interface SearchHit {
 	item: SearchItem;
-	score: number;
-	engine: SearchEngineId;
+	score: number;          // 0..1 after calibration, comparable across engines
+	rawScore?: number;      // engine's own score before calibration (Fuse 0..1, MiniSearch BM25)
+	engine: SearchEngineId | "provider";
+	matches?: MatchRange[]; // ranges in the item's title (or matched alias), when the engine reports them
+	terms?: string[];       // terms that matched, for highlighting other text of the item
 }
@@ -1,6 +1,8 @@
-import type { App, WorkspaceLeaf } from "obsidian";
+import type { App, BlockCache, CachedMetadata, HeadingCache, WorkspaceLeaf } from "obsidian";
+import type { SearchItem, TabLocation } from "./types";
+import { providerMode, type OmniSwitchProvider, type ProviderMode } from "./providers";
 
-export type OmniSwitchMode = "files" | "commands" | "attachments" | "headings" | "directories";
+export type OmniSwitchMode = "files" | "everything" | "commands" | "attachments" | "headings" | "directories" | "tags" | "content" | "blocks" | "tabs" | ProviderMode;
 
 export interface PrefixDetectionResult {
 	mode: OmniSwitchMode;
@@ -23,8 +25,10 @@ export function detectPrefix(
 	raw: string,
 	currentMode: OmniSwitchMode,
 	currentExtension: string | null,
+	providers: ReadonlyArray<Pick<OmniSwitchProvider, "id" | "prefix">> = [],
 ): PrefixDetectionResult {
-	if (currentMode !== "files") {
+	// Prefixes switch modes only from a home mode (notes or everything); other modes keep their own text
+	if (currentMode !== "files" && currentMode !== "everything") {
 		// Still strip the mode prefix even when already in that mode
 		// (e.g., user types "> reload" while already in commands mode)
 		let search = raw;
@@ -34,6 +38,19 @@ export function detectPrefix(
 			search = raw.slice(2);
 		} else if (currentMode === "directories" && raw.startsWith("/ ")) {
 			search = raw.slice(2);
+		} else if (currentMode === "tags" && raw.startsWith("@ ")) {
+			search = raw.slice(2);
+		} else if (currentMode === "content" && raw.startsWith("? ")) {
+			search = raw.slice(2);
+		} else if (currentMode === "blocks" && raw.startsWith("^ ")) {
+			search = raw.slice(2);
+		} else if (currentMode === "tabs" && raw.startsWith("~ ")) {
+			search = raw.slice(2);
+		} else if (currentMode.startsWith("provider:")) {
+			const provider = providers.find((entry) => providerMode(entry.id) === currentMode);
+			if (provider && raw.startsWith(provider.prefix)) {
+				search = raw.slice(provider.prefix.length);
+			}
 		} else if (currentMode === "attachments" && raw.startsWith(".")) {
 			// Handle attachment prefix (either `. ` or `.ext `)
 			const rest = raw.slice(1);
@@ -81,6 +98,55 @@ export function detectPrefix(
 		};
 	}
 
+	if (raw.startsWith("@ ")) {
+		return {
+			mode: "tags",
+			extensionFilter: null,
+			search: raw.slice(2),
+			prefixApplied: true,
+		};
+	}
+
+	if (raw.startsWith("? ")) {
+		return {
+			mode: "content",
+			extensionFilter: null,
+			search: raw.slice(2),
+			prefixApplied: true,
+		};
+	}
+
+	if (raw.startsWith("^ ")) {
+		return {
+			mode: "blocks",
+			extensionFilter: null,
+			search: raw.slice(2),
+			prefixApplied: true,
+		};
+	}
+
+	if (raw.startsWith("~ ")) {
+		return {
+			mode: "tabs",
+			extensionFilter: null,
+			search: raw.slice(2),
+			prefixApplied: true,
+		};
+	}
+
+	// Registered providers; prefixes never overlap the built-in ones, longest wins among providers
+	const provider = [...providers]
+		.sort((a, b) => b.prefix.length - a.prefix.length)
+		.find((entry) => raw.startsWith(entry.prefix));
+	if (provider) {
+		return {
+			mode: providerMode(provider.id),
+			extensionFilter: null,
+			search: raw.slice(provider.prefix.length),
+			prefixApplied: true,
+		};
+	}
+
 	if (raw.startsWith(".")) {
 		const rest = raw.slice(1);
 		if (rest.startsWith(" ")) {
@@ -143,6 +209,133 @@ export function resolveAttachmentCategory(filter: string | null): string[] | nul
 	return ATTACHMENT_CATEGORIES[filter] ?? null;
 }
 
+/**
+ * Collect the tags of a file from its inline `#tags` and frontmatter `tags`/`tag` keys.
+ * Tags are returned without the leading `#`, deduplicated case-insensitively.
+ */
+export function extractFileTags(cache: CachedMetadata | null | undefined): string[] {
+	if (!cache) {
+		return [];
+	}
+	const raw: string[] = [];
+	for (const entry of cache.tags ?? []) {
+		raw.push(entry.tag);
+	}
+	const frontmatter = cache.frontmatter as Record<string, unknown> | undefined;
+	for (const key of ["tags", "tag"]) {
+		const value = frontmatter?.[key];
+		if (typeof value === "string") {
+			raw.push(...value.split(/[,\s]+/));
+		} else if (Array.isArray(value)) {
+			for (const entry of value) {
+				if (typeof entry === "string") {
+					raw.push(entry);
+				}
+			}
+		}
+	}
+
+	const seen = new Set<string>();
+	const tags: string[] = [];
+	for (const entry of raw) {
+		const tag = normalizeTag(entry);
+		if (!tag || seen.has(tag.toLowerCase())) {
+			continue;
+		}
+		seen.add(tag.toLowerCase());
+		tags.push(tag);
+	}
+	return tags;
+}
+
+/**
+ * Collect frontmatter aliases (`aliases` or `alias`, as a list or comma-separated string).
+ */
+export function extractFileAliases(cache: CachedMetadata | null | undefined): string[] {
+	const frontmatter = cache?.frontmatter as Record<string, unknown> | undefined;
+	if (!frontmatter) {
+		return [];
+	}
+	const raw: string[] = [];
+	for (const key of ["aliases", "alias"]) {
+		const value = frontmatter[key];
+		if (typeof value === "string") {
+			raw.push(...value.split(","));
+		} else if (Array.isArray(value)) {
+			for (const entry of value) {
+				if (typeof entry === "string" || typeof entry === "number") {
+					raw.push(String(entry));
+				}
+			}
+		}
+	}
+
+	const seen = new Set<string>();
+	const aliases: string[] = [];
+	for (const entry of raw) {
+		const alias = entry.trim();
+		if (!alias || seen.has(alias.toLowerCase())) {
+			continue;
+		}
+		seen.add(alias.toLowerCase());
+		aliases.push(alias);
+	}
+	return aliases;
+}
+
+/**
+ * Text preview of a `^block-id` block: the cached range without the ID marker,
+ * list/task bullets or line breaks, clipped to `maxLength`.
+ */
+export function extractBlockPreview(content: string, block: BlockCache, maxLength = 200): string {
+	let text = content.slice(block.position.start.offset, block.position.end.offset).trim();
+	const marker = `^${block.id}`;
+	if (text.endsWith(marker)) {
+		text = text.slice(0, -marker.length);
+	}
+	text = text
+		.replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, "")
+		.replace(/\s+/g, " ")
+		.trim();
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Expand a nested tag into itself plus every parent (`a/b/c` → `a`, `a/b`, `a/b/c`).
+ */
+export function expandTagHierarchy(tag: string): string[] {
+	const segments = normalizeTag(tag).split("/").filter(Boolean);
+	const expanded: string[] = [];
+	for (let i = 1; i <= segments.length; i++) {
+		expanded.push(segments.slice(0, i).join("/"));
+	}
+	return expanded;
+}
+
+export function isTagWithin(tag: string, parent: string): boolean {
+	const t = tag.toLowerCase();
+	const p = parent.toLowerCase();
+	return t === p || t.startsWith(`${p}/`);
+}
+
+/**
+ * Text of a heading's section: from the heading up to the next heading of the same or a higher level.
+ */
+export function extractHeadingSection(content: string, headings: HeadingCache[], heading: HeadingCache): string {
+	const start = heading.position.start.offset;
+	let end = content.length;
+	for (const other of headings) {
+		if (other.position.start.offset > start && other.level <= heading.level) {
+			end = Math.min(end, other.position.start.offset);
+		}
+	}
+	return content.slice(start, end).trimEnd();
+}
+
 export function getLeafFilePath(leaf: WorkspaceLeaf): string | null {
 	const filePath = (leaf.view as { file?: { path: string } }).file?.path;
 	if (filePath) {
@@ -182,3 +375,258 @@ export function collectFileLeaves(app: App): LeafDescriptor[] {
 	});
 	return leaves;
 }
+
+export interface OpenTabDescriptor extends LeafDescriptor {
+	path: string;
+	location: TabLocation;
+	lastActive: number;
+}
+
+/**
+ * Main editor area, a sidebar, or a popout window.
+ */
+export function getLeafLocation(app: App, leaf: WorkspaceLeaf): TabLocation {
+	const mainRoot = app.workspace.rootSplit;
+	if (leaf.getRoot() === mainRoot) {
+		return "main";
+	}
+	return leaf.getContainer() === mainRoot ? "aux" : "popout";
+}
+
+/**
+ * File leaves in most-recently-used order (Obsidian stamps `activeTime` on focus).
+ */
+export function collectOpenTabs(app: App): OpenTabDescriptor[] {
+	const tabs: OpenTabDescriptor[] = [];
+	for (const entry of collectFileLeaves(app)) {
+		if (!entry.path) {
+			continue;
+		}
+		const activeTime = (entry.leaf as unknown as { activeTime?: unknown }).activeTime;
+		tabs.push({
+			...entry,
+			path: entry.path,
+			location: getLeafLocation(app, entry.leaf),
+			lastActive: typeof activeTime === "number" ? activeTime : 0,
+		});
+	}
+	return tabs.sort((a, b) => b.lastActive - a.lastActive);
+}
+
+export type QueryFilterKind = "path" | "ext" | "tag" | "modified" | "size";
+
+export type QueryFilter =
+	| { kind: "path" | "ext" | "tag"; value: string; negate: boolean; raw: string }
+	| { kind: "modified" | "size"; op: ">" | "<"; value: number; negate: boolean; raw: string };
+
+export interface ParsedQuery {
+	text: string;            // query with filter tokens removed
+	filters: QueryFilter[];
+}
+
+// Modes whose results are files or live in files, so file filters make sense
+export const FILTERABLE_MODES: ReadonlySet<OmniSwitchMode> = new Set(["files", "attachments", "headings"]);
+
+const FILTER_TOKEN = /(^|\s)(-?)(path|ext|tag|modified|size):("[^"]*"|\S+)/gi;
+const DURATION_UNITS_MS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+	m: 30 * 24 * 60 * 60 * 1000,
+	y: 365 * 24 * 60 * 60 * 1000,
+};
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * Pull `path:`, `ext:`, `tag:`, `modified:` and `size:` tokens (optionally `-` negated) out of a query.
+ * `modified:>7d` means changed within the last 7 days, `modified:<2024-01-01` before that date;
+ * `size:>1mb` compares bytes. Tokens with unreadable values stay in the search text.
+ */
+export function parseQuery(raw: string, now = Date.now()): ParsedQuery {
+	const filters: QueryFilter[] = [];
+	const text = raw.replace(FILTER_TOKEN, (token, lead: string, neg: string, key: string, rawValue: string) => {
+		const filter = parseFilterToken(key.toLowerCase() as QueryFilterKind, unquote(rawValue), neg === "-", token.trim(), now);
+		if (!filter) {
+			return token;
+		}
+		filters.push(filter);
+		return lead;
+	});
+	return { text: text.replace(/\s+/g, " ").trim(), filters };
+}
+
+function parseFilterToken(kind: QueryFilterKind, value: string, negate: boolean, raw: string, now: number): QueryFilter | null {
+	if (value.length === 0) {
+		return null;
+	}
+	switch (kind) {
+		case "path":
+			return { kind, value: value.toLowerCase(), negate, raw };
+		case "ext":
+			return { kind, value: value.replace(/^\./, "").toLowerCase(), negate, raw };
+		case "tag":
+			return { kind, value: value.replace(/^#/, ""), negate, raw };
+		case "modified": {
+			const { op, rest } = splitComparison(value);
+			const duration = /^(\d+(?:\.\d+)?)([hdwmy])$/i.exec(rest);
+			if (duration) {
+				const ms = parseFloat(duration[1]) * DURATION_UNITS_MS[duration[2].toLowerCase()];
+				return { kind, op, value: now - ms, negate, raw };
+			}
+			const date = /^\d{4}-\d{2}-\d{2}$/.test(rest) ? Date.parse(`${rest}T00:00:00`) : NaN;
+			return Number.isFinite(date) ? { kind, op, value: date, negate, raw } : null;
+		}
+		case "size": {
+			const { op, rest } = splitComparison(value);
+			const size = /^(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/i.exec(rest);
+			if (!size) {
+				return null;
+			}
+			return { kind, op, value: parseFloat(size[1]) * SIZE_UNITS[(size[2] ?? "b").toLowerCase()], negate, raw };
+		}
+	}
+}
+
+function splitComparison(value: string): { op: ">" | "<"; rest: string } {
+	if (value.startsWith("<")) {
+		return { op: "<", rest: value.slice(1) };
+	}
+	return { op: ">", rest: value.startsWith(">") ? value.slice(1) : value };
+}
+
+function unquote(value: string): string {
+	return value.length >= 2 && value.startsWith("\"") && value.endsWith("\"") ? value.slice(1, -1) : value;
+}
+
+export interface FilterableFile {
+	path: string;
+	extension: string;
+	mtime: number;
+	size: number;
+}
+
+/**
+ * Whether a file passes every filter. `hasTag` answers tag filters (nested tags count for their parents).
+ */
+export function matchesQueryFilters(file: FilterableFile, filters: QueryFilter[], hasTag: (path: string, tag: string) => boolean): boolean {
+	for (const filter of filters) {
+		let pass: boolean;
+		switch (filter.kind) {
+			case "path":
+				pass = file.path.toLowerCase().includes(filter.value);
+				break;
+			case "ext":
+				pass = file.extension.toLowerCase() === filter.value;
+				break;
+			case "tag":
+				pass = hasTag(file.path, filter.value);
+				break;
+			case "modified":
+				pass = filter.op === ">" ? file.mtime > filter.value : file.mtime < filter.value;
+				break;
+			case "size":
+				pass = filter.op === ">" ? file.size > filter.value : file.size < filter.value;
+				break;
+		}
+		if (pass === filter.negate) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Split `query|alias` as typed in link-insertion mode; alias is null when none was typed.
+ */
+export function splitLinkAlias(raw: string): { query: string; alias: string | null } {
+	const bar = raw.indexOf("|");
+	if (bar < 0) {
+		return { query: raw, alias: null };
+	}
+	const alias = raw.slice(bar + 1).trim();
+	return { query: raw.slice(0, bar), alias: alias.length > 0 ? alias : null };
+}
+
+const INVALID_NAME_CHARS = /[*"<>:|?#^[\]]/g;
+
+/**
+ * Vault path for a note typed as a query. `/` separated segments become folders under `baseFolder`,
+ * characters Obsidian doesn't allow in names are dropped and ".md" is added when missing.
+ * Returns null when nothing usable is left.
+ */
+export function resolveNewNotePath(query: string, baseFolder: string): string | null {
+	const segments = pathSegments(query);
+	const last = segments.pop();
+	if (!last) {
+		return null;
+	}
+	const name = /\.md$/i.test(last) ? last : `${last}.md`;
+	return joinSegments(baseFolder, [...segments, name]);
+}
+
+/**
+ * Vault path for a folder typed as a query, nested under `baseFolder` like {@link resolveNewNotePath}.
+ */
+export function resolveNewFolderPath(query: string, baseFolder: string): string | null {
+	const segments = pathSegments(query);
+	return segments.length > 0 ? joinSegments(baseFolder, segments) : null;
+}
+
+function pathSegments(query: string): string[] {
+	return query
+		.split(/[\\/]/)
+		.map((segment) => segment.replace(INVALID_NAME_CHARS, "").trim())
+		.filter((segment) => segment.length > 0 && segment !== "." && segment !== "..");
+}
+
+function joinSegments(baseFolder: string, segments: string[]): string {
+	const base = baseFolder.replace(/^\/+|\/+$/g, "");
+	return [base, ...segments].filter((part) => part.length > 0).join("/");
+}
+
+/**
+ * Fill `{{title}}`, `{{date}}` (YYYY-MM-DD) and `{{time}}` (HH:mm) in a new-note template, like core Templates.
+ */
+export function applyTemplateVariables(template: string, title: string, now: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+	const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+	return template.replace(/{{\s*(title|date|time)\s*}}/gi, (_match, name: string) => {
+		switch (name.toLowerCase()) {
+			case "title":
+				return title;
+			case "date":
+				return date;
+			default:
+				return time;
+		}
+	});
+}
+
+/**
+ * Stable identity of a result, so it can be recognised across queries (preview, multi-selection).
+ */
+export function itemKey(item: SearchItem): string {
+	switch (item.type) {
+		case "file":
+			return `file:${item.file.path}`;
+		case "heading":
+			return `heading:${item.file.path}:${item.heading.position.start.line}`;
+		case "block":
+			return `block:${item.file.path}#^${item.blockId}`;
+		case "content":
+			return `content:${item.file.path}:${item.line}`;
+		case "tab":
+			return `tab:${item.path}`;
+		case "command":
+			return `command:${item.command.id}`;
+		case "folder":
+			return `folder:${item.folder.path}`;
+		case "tag":
+			return `tag:${item.tag}`;
+		case "create":
+			return `create:${item.kind}:${item.path}`;
+		case "provider":
+			return `provider:${item.providerId}:${item.result.id}`;
+	}
+}
@@ -1,23 +1,69 @@
 export type SearchEngine = "fuse" | "mini" | "hybrid";
+export type DefaultMode = "files" | "everything";
 
 export interface OmniSwitchSettings {
+	settingsVersion?: number; // bumped when a stored value needs a one-time migration
 	excludedPaths: string[];
 	searchEngine: SearchEngine;
 	prebuildBothEngines?: boolean;
 	verboseLogging?: boolean;
 	maxResults?: number; // 5..50 (default 20)
 	forceRebuild?: boolean;
+	aliasWeight?: number; // 0.1..1 relative to the file name (default 0.8)
+	contentMemoryBudgetMB?: number; // 0..256 MB of note text kept for content search; 0 disables it (default 32)
+	frecencyWeight?: number; // 0..1 share of ranking taken by how often/recently an item was opened; 0 disables it (default 0.3)
+	frecencyHalfLifeDays?: number; // 1..90 days for a visit to lose half its weight (default 14)
+	showPreview?: boolean; // show the preview pane beside the results (toggle with Alt+P)
+	newNoteFolder?: string; // folder for notes created from the query; "" follows Obsidian's default location
+	newNoteTemplate?: string; // note whose content seeds created notes; "" creates empty notes
+	defaultMode?: DefaultMode; // mode the switcher opens in without a prefix: notes only, or notes, headings and commands together
+	exactMatchBoost?: number; // 0..1 re-ranking boost when the title equals the query (default 0.5)
+	prefixMatchBoost?: number; // 0..1 boost when the title starts with the query (default 0.3)
+	wordStartBoost?: number; // 0..1 boost when query words start title words or spell its initials (default 0.2)
+	shortNameBoost?: number; // 0..1 boost scaled by how much of the title the query covers (default 0.1)
 }
 
+/**
+ * 1: `forceRebuild` defaulted to true before version 1 and was saved with every other setting,
+ * so a stored true from an older version is the old default, not a choice
+ */
+export const SETTINGS_VERSION = 1;
+
 export const DEFAULT_SETTINGS: OmniSwitchSettings = {
+	settingsVersion: SETTINGS_VERSION,
 	excludedPaths: [],
 	searchEngine: "fuse",
 	prebuildBothEngines: true,
 	verboseLogging: false,
 	maxResults: 20,
-	forceRebuild: true, // Force rebuild by default to avoid loading incompatible cached data
+	forceRebuild: false, // Cached indexes are reconciled against the vault on startup
+	aliasWeight: 0.8,
+	contentMemoryBudgetMB: 32,
+	frecencyWeight: 0.3,
+	frecencyHalfLifeDays: 14,
+	showPreview: false,
+	newNoteFolder: "",
+	newNoteTemplate: "",
+	defaultMode: "files",
+	exactMatchBoost: 0.5,
+	prefixMatchBoost: 0.3,
+	wordStartBoost: 0.2,
+	shortNameBoost: 0.1,
 };
 
+export function clampAliasWeight(value: number): number {
+	return Math.min(1, Math.max(0.1, Math.round(value * 20) / 20));
+}
+
+/** 0..1 in steps of 0.05: frecency weight and ranking boosts */
+export function clampUnitWeight(value: number): number {
+	return Math.min(1, Math.max(0, Math.round(value * 20) / 20));
+}
+
+export function clampFrecencyHalfLife(value: number): number {
+	return Math.min(90, Math.max(1, Math.round(value)));
+}
+
 export function parseExcludedPaths(input: string): string[] {
 	return input
 		.split(/\r?\n/)
@@ -31,12 +77,25 @@ export function formatExcludedPaths(paths: string[]): string {
 
 export function migrateSettings(data: unknown): OmniSwitchSettings {
     const settings: OmniSwitchSettings = {
+        settingsVersion: SETTINGS_VERSION,
         excludedPaths: [...DEFAULT_SETTINGS.excludedPaths],
         searchEngine: DEFAULT_SETTINGS.searchEngine,
         prebuildBothEngines: DEFAULT_SETTINGS.prebuildBothEngines,
         verboseLogging: DEFAULT_SETTINGS.verboseLogging,
         maxResults: DEFAULT_SETTINGS.maxResults,
         forceRebuild: DEFAULT_SETTINGS.forceRebuild,
+        aliasWeight: DEFAULT_SETTINGS.aliasWeight,
+        contentMemoryBudgetMB: DEFAULT_SETTINGS.contentMemoryBudgetMB,
+        frecencyWeight: DEFAULT_SETTINGS.frecencyWeight,
+        frecencyHalfLifeDays: DEFAULT_SETTINGS.frecencyHalfLifeDays,
+        showPreview: DEFAULT_SETTINGS.showPreview,
+        newNoteFolder: DEFAULT_SETTINGS.newNoteFolder,
+        newNoteTemplate: DEFAULT_SETTINGS.newNoteTemplate,
+        defaultMode: DEFAULT_SETTINGS.defaultMode,
+        exactMatchBoost: DEFAULT_SETTINGS.exactMatchBoost,
+        prefixMatchBoost: DEFAULT_SETTINGS.prefixMatchBoost,
+        wordStartBoost: DEFAULT_SETTINGS.wordStartBoost,
+        shortNameBoost: DEFAULT_SETTINGS.shortNameBoost,
     };
 
 	if (!data || typeof data !== "object") {
@@ -69,9 +128,49 @@ export function migrateSettings(data: unknown): OmniSwitchSettings {
 		settings.maxResults = Math.min(50, Math.max(5, Number.isFinite(n) ? n : DEFAULT_SETTINGS.maxResults!));
 	}
 
-	if (typeof record.forceRebuild === "boolean") {
+	const version = typeof record.settingsVersion === "number" ? record.settingsVersion : 0;
+	if (typeof record.forceRebuild === "boolean" && version >= 1) {
 		settings.forceRebuild = record.forceRebuild;
 	}
 
+	if (typeof record.aliasWeight === "number" && Number.isFinite(record.aliasWeight)) {
+		settings.aliasWeight = clampAliasWeight(record.aliasWeight);
+	}
+
+	if (typeof record.contentMemoryBudgetMB === "number" && Number.isFinite(record.contentMemoryBudgetMB)) {
+		settings.contentMemoryBudgetMB = Math.min(256, Math.max(0, Math.round(record.contentMemoryBudgetMB)));
+	}
+
+	if (typeof record.frecencyWeight === "number" && Number.isFinite(record.frecencyWeight)) {
+		settings.frecencyWeight = clampUnitWeight(record.frecencyWeight);
+	}
+
+	if (typeof record.frecencyHalfLifeDays === "number" && Number.isFinite(record.frecencyHalfLifeDays)) {
+		settings.frecencyHalfLifeDays = clampFrecencyHalfLife(record.frecencyHalfLifeDays);
+	}
+
+	if (typeof record.showPreview === "boolean") {
+		settings.showPreview = record.showPreview;
+	}
+
+	if (typeof record.newNoteFolder === "string") {
+		settings.newNoteFolder = record.newNoteFolder.trim().replace(/^\/+|\/+$/g, "");
+	}
+
+	if (typeof record.newNoteTemplate === "string") {
+		settings.newNoteTemplate = record.newNoteTemplate.trim();
+	}
+
+	if (record.defaultMode === "files" || record.defaultMode === "everything") {
+		settings.defaultMode = record.defaultMode;
+	}
+
+	for (const key of ["exactMatchBoost", "prefixMatchBoost", "wordStartBoost", "shortNameBoost"] as const) {
+		const value = record[key];
+		if (typeof value === "number" && Number.isFinite(value)) {
+			settings[key] = clampUnitWeight(value);
+		}
+	}
+
 	return settings;
 }
@@ -1,10 +1,11 @@
 import { App, Plugin, PluginSettingTab, Setting } from "obsidian";
-import { formatExcludedPaths, parseExcludedPaths, type OmniSwitchSettings } from "./index";
+import { clampAliasWeight, clampFrecencyHalfLife, clampUnitWeight, DEFAULT_SETTINGS, formatExcludedPaths, parseExcludedPaths, type OmniSwitchSettings } from "./index";
 
 interface SettingsHost {
 	settings: OmniSwitchSettings;
 	saveSettings(): Promise<void>;
 	rebuildIndex(): Promise<void>;
+	clearFrecency(): Promise<void>;
 }
 
 export class OmniSwitchSettingTab extends PluginSettingTab {
@@ -50,6 +51,21 @@ export class OmniSwitchSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName("Default mode")
+			.setDesc("What the switcher searches before a prefix is typed: notes only, or notes, headings and commands in grouped sections.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("files", "Notes");
+				dropdown.addOption("everything", "Everything");
+				dropdown.setValue(this.host.settings.defaultMode ?? DEFAULT_SETTINGS.defaultMode!);
+				dropdown.onChange(async (value) => {
+					if (value === "files" || value === "everything") {
+						this.host.settings.defaultMode = value;
+					}
+					await this.host.saveSettings();
+				});
+			});
+
 		new Setting(containerEl)
 			.setName("Prebuild both engines")
 			.setDesc("Build Fuse and Mini indexes on startup. When off, only the active engine builds and the other builds on first use.")
@@ -63,7 +79,7 @@ export class OmniSwitchSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Force rebuild on startup")
-			.setDesc("Always rebuild indexes from scratch instead of loading cached data. Enable this after updates or if experiencing issues.")
+			.setDesc("Always rebuild indexes from scratch instead of loading cached data. Cached indexes are already checked against the vault on startup; enable this only if experiencing issues.")
 			.addToggle((toggle) => {
 				toggle.setValue(Boolean(this.host.settings.forceRebuild));
 				toggle.onChange(async (value) => {
@@ -83,6 +99,41 @@ export class OmniSwitchSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName("Show preview pane")
+			.setDesc("Preview the selected note, heading, attachment or command beside the results. Toggle it in the switcher with Alt+P.")
+			.addToggle((toggle) => {
+				toggle.setValue(Boolean(this.host.settings.showPreview));
+				toggle.onChange(async (value) => {
+					this.host.settings.showPreview = value;
+					await this.host.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("New note folder")
+			.setDesc("Where \"Create note\" (Shift+Enter) puts notes typed in the switcher. Leave empty to use Obsidian's default location for new notes.")
+			.addText((text) => {
+				text.setPlaceholder("Inbox");
+				text.setValue(this.host.settings.newNoteFolder ?? "");
+				text.onChange(async (value) => {
+					this.host.settings.newNoteFolder = value.trim().replace(/^\/+|\/+$/g, "");
+					await this.host.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("New note template")
+			.setDesc("Optional note copied into created notes. {{title}}, {{date}} and {{time}} are filled in.")
+			.addText((text) => {
+				text.setPlaceholder("Templates/Note.md");
+				text.setValue(this.host.settings.newNoteTemplate ?? "");
+				text.onChange(async (value) => {
+					this.host.settings.newNoteTemplate = value.trim();
+					await this.host.saveSettings();
+				});
+			});
+
 		new Setting(containerEl)
 			.setName("Max results per search")
 			.setDesc("Limit the number of results returned by any mode or engine (5–50). Default: 20.")
@@ -96,6 +147,86 @@ export class OmniSwitchSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName("Alias weight")
+			.setDesc("How strongly frontmatter aliases count compared to the note name when searching files (0.1–1). Default: 0.8.")
+			.addSlider((slider) => {
+				slider.setLimits(0.1, 1, 0.05);
+				slider.setValue(this.host.settings.aliasWeight ?? DEFAULT_SETTINGS.aliasWeight!);
+				slider.setDynamicTooltip();
+				slider.onChange(async (value) => {
+					this.host.settings.aliasWeight = clampAliasWeight(value);
+					await this.host.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Content index budget (MB)")
+			.setDesc("Maximum note text kept in memory for content search (? prefix). Notes beyond the budget are not indexed. Set to 0 to disable content search. Default: 32.")
+			.addSlider((slider) => {
+				slider.setLimits(0, 256, 8);
+				slider.setValue(this.host.settings.contentMemoryBudgetMB ?? DEFAULT_SETTINGS.contentMemoryBudgetMB!);
+				slider.setDynamicTooltip();
+				slider.onChange(async (value) => {
+					this.host.settings.contentMemoryBudgetMB = Math.min(256, Math.max(0, Math.round(value)));
+					await this.host.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Frecency weight")
+			.setDesc("How much ranking favours items you open often and recently, versus pure match quality (0–1). Set to 0 to disable. Default: 0.3.")
+			.addSlider((slider) => {
+				slider.setLimits(0, 1, 0.05);
+				slider.setValue(this.host.settings.frecencyWeight ?? DEFAULT_SETTINGS.frecencyWeight!);
+				slider.setDynamicTooltip();
+				slider.onChange(async (value) => {
+					this.host.settings.frecencyWeight = clampUnitWeight(value);
+					await this.host.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Frecency half-life (days)")
+			.setDesc("After this many days an open counts half as much (1–90). Default: 14.")
+			.addSlider((slider) => {
+				slider.setLimits(1, 90, 1);
+				slider.setValue(this.host.settings.frecencyHalfLifeDays ?? DEFAULT_SETTINGS.frecencyHalfLifeDays!);
+				slider.setDynamicTooltip();
+				slider.onChange(async (value) => {
+					this.host.settings.frecencyHalfLifeDays = clampFrecencyHalfLife(value);
+					await this.host.saveSettings();
+				});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText("Clear history")
+					.onClick(async () => {
+						await this.host.clearFrecency();
+					}),
+			);
+
+		const boosts = [
+			["exactMatchBoost", "Exact match boost", "Ranking boost when a title equals the query (0–1)."],
+			["prefixMatchBoost", "Prefix match boost", "Ranking boost when a title starts with the query (0–1)."],
+			["wordStartBoost", "Word start boost", "Ranking boost when query words start words of the title, or spell its initials like \"gs\" for \"Getting Started\" (0–1)."],
+			["shortNameBoost", "Short name boost", "Ranking boost for titles the query covers most of, so shorter names win ties (0–1)."],
+		] as const;
+		for (const [key, name, desc] of boosts) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(`${desc} Set to 0 to disable. Default: ${DEFAULT_SETTINGS[key]}.`)
+				.addSlider((slider) => {
+					slider.setLimits(0, 1, 0.05);
+					slider.setValue(this.host.settings[key] ?? DEFAULT_SETTINGS[key]!);
+					slider.setDynamicTooltip();
+					slider.onChange(async (value) => {
+						this.host.settings[key] = clampUnitWeight(value);
+						await this.host.saveSettings();
+					});
+				});
+		}
+
 		new Setting(containerEl)
 			.setName("Rebuild index")
 			.setDesc("Force OmniSwitch to rescan the vault immediately.")
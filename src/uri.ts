@@ -0,0 +1,76 @@
+// obsidian://omniswitch deep links, e.g. obsidian://omniswitch?mode=headings&query=roadmap&open=first
+
+import { providerMode } from "./search/providers";
+import type { SearchItem } from "./search/types";
+import type { OmniSwitchMode } from "./search/utils";
+
+export interface OmniSwitchUriRequest {
+	initialMode?: OmniSwitchMode;
+	initialQuery?: string;
+	extensionFilter?: string;
+	initialDirectoryTrail?: string[];
+	openFirst: boolean; // open=first: open the top hit without showing the switcher
+}
+
+/** Items open=first may open unattended; commands and provider actions always go through the switcher */
+const URI_OPENABLE_TYPES: ReadonlySet<SearchItem["type"]> = new Set(["file", "heading", "block", "content", "tab"]);
+
+export function isUriOpenable(item: SearchItem): boolean {
+	return URI_OPENABLE_TYPES.has(item.type);
+}
+
+const URI_MODES: Record<string, OmniSwitchMode> = {
+	files: "files",
+	notes: "files",
+	everything: "everything",
+	commands: "commands",
+	attachments: "attachments",
+	headings: "headings",
+	directories: "directories",
+	folders: "directories",
+	tags: "tags",
+	content: "content",
+	blocks: "blocks",
+	tabs: "tabs",
+};
+
+/**
+ * Map URI parameters onto modal options. `ext` implies attachment mode and `folder` implies folder mode
+ * unless `mode` says otherwise; `mode` may also name a registered provider.
+ */
+export function parseOmniSwitchUri(params: Record<string, string | undefined>, hasProvider: (id: string) => boolean = () => false): OmniSwitchUriRequest {
+	const request: OmniSwitchUriRequest = { openFirst: params.open?.toLowerCase() === "first" };
+
+	const modeParam = params.mode?.trim();
+	if (modeParam) {
+		const providerId = modeParam.startsWith("provider:") ? modeParam.slice("provider:".length) : modeParam;
+		const mode = URI_MODES[modeParam.toLowerCase()] ?? (hasProvider(providerId) ? providerMode(providerId) : undefined);
+		if (mode) {
+			request.initialMode = mode;
+		} else {
+			console.warn(`[OmniSwitch] URI: unknown mode "${modeParam}"`);
+		}
+	}
+
+	const ext = params.ext?.trim().replace(/^\./, "").toLowerCase();
+	if (ext && (request.initialMode ?? "attachments") === "attachments") {
+		request.initialMode = "attachments";
+		request.extensionFilter = ext;
+	}
+
+	const folder = params.folder?.trim().replace(/^\/+|\/+$/g, "");
+	if (folder && (request.initialMode ?? "directories") === "directories") {
+		request.initialMode = "directories";
+		const segments = folder.split("/").filter(Boolean);
+		request.initialDirectoryTrail = segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+	}
+
+	if (params.query) {
+		request.initialQuery = params.query;
+	}
+	if (request.initialMode === "commands" || request.initialMode?.startsWith("provider:")) {
+		// A link must never run a command or provider action without confirmation
+		request.openFirst = false;
+	}
+	return request;
+}
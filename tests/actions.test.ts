@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { App, TFile } from "obsidian";
+import { ActionRegistry, addFrontmatterTag, describeItem, formatMarkdownLink, formatWikiLink, type ActionContext, type ItemAction } from "../src/actions/registry";
+import type { SearchItem } from "../src/search/types";
+
+const context: ActionContext = { app: {} as App, sourcePath: "" };
+const file = { path: "Notes/Plan.md", basename: "Plan", extension: "md" } as TFile;
+const fileItem: SearchItem = { type: "file", file };
+const tagItem: SearchItem = { type: "tag", tag: "project", count: 3 };
+
+function action(id: string, overrides: Partial<ItemAction> = {}): ItemAction {
+	return { id, name: id, types: ["file"], run: () => undefined, ...overrides };
+}
+
+describe("ActionRegistry", () => {
+	it("lists actions registered for the item's type in registration order", () => {
+		const registry = new ActionRegistry();
+		registry.register(action("b"));
+		registry.register(action("a"));
+		registry.register(action("tag-only", { types: ["tag"] }));
+		expect(registry.getActions(fileItem, context).map((a) => a.id)).toEqual(["b", "a"]);
+		expect(registry.getActions(tagItem, context).map((a) => a.id)).toEqual(["tag-only"]);
+	});
+
+	it("skips actions that are unavailable or whose check throws", () => {
+		const registry = new ActionRegistry();
+		registry.register(action("hidden", { isAvailable: () => false }));
+		registry.register(action("broken", { isAvailable: () => { throw new Error("boom"); } }));
+		registry.register(action("shown", { isAvailable: (item) => item.type === "file" }));
+		expect(registry.getActions(fileItem, context).map((a) => a.id)).toEqual(["shown"]);
+	});
+
+	it("replaces an action with the same id in place", () => {
+		const registry = new ActionRegistry();
+		registry.register(action("first"));
+		registry.register(action("second"));
+		registry.register(action("first", { name: "Replaced" }));
+		expect(registry.getActions(fileItem, context).map((a) => a.name)).toEqual(["Replaced", "second"]);
+	});
+
+	it("unregisters only the action it registered", () => {
+		const registry = new ActionRegistry();
+		const unregisterOld = registry.register(action("x", { name: "old" }));
+		const unregisterNew = registry.register(action("x", { name: "new" }));
+		unregisterOld();
+		expect(registry.get("x")?.name).toBe("new");
+		unregisterNew();
+		expect(registry.get("x")).toBeUndefined();
+	});
+
+	it("keeps batch actions separate from item actions", () => {
+		const registry = new ActionRegistry();
+		registry.register(action("single"));
+		const unregister = registry.registerBatch({ id: "all", name: "All", run: () => undefined });
+		registry.registerBatch({ id: "many", name: "Many", isAvailable: (items) => items.length > 1, run: () => undefined });
+		expect(registry.getBatchActions([fileItem], context).map((a) => a.id)).toEqual(["all"]);
+		expect(registry.getBatchActions([fileItem, tagItem], context).map((a) => a.id)).toEqual(["all", "many"]);
+		unregister();
+		expect(registry.getBatchActions([fileItem, tagItem], context).map((a) => a.id)).toEqual(["many"]);
+	});
+});
+
+describe("addFrontmatterTag", () => {
+	it("adds to list, string and missing tags without duplicates", () => {
+		expect(addFrontmatterTag(undefined, "#work")).toEqual(["work"]);
+		expect(addFrontmatterTag(["a", 2024], "b")).toEqual(["a", "2024", "b"]);
+		expect(addFrontmatterTag("a, b c", "d")).toEqual(["a", "b", "c", "d"]);
+		expect(addFrontmatterTag(["#Work"], "work")).toEqual(["#Work"]);
+	});
+});
+
+describe("link formatting", () => {
+	it("formats wiki links and embeds with subpaths", () => {
+		expect(formatWikiLink("Plan")).toBe("[[Plan]]");
+		expect(formatWikiLink("Plan", "#Goals")).toBe("[[Plan#Goals]]");
+		expect(formatWikiLink("Plan", "#^abc", true)).toBe("![[Plan#^abc]]");
+	});
+
+	it("escapes markdown link destinations and text", () => {
+		expect(formatMarkdownLink("My Plan", "Notes/My Plan.md")).toBe("[My Plan](Notes/My%20Plan.md)");
+		expect(formatMarkdownLink("Goals (Q1)", "Plan (v2).md", "#Goals (Q1)")).toBe("[Goals (Q1)](Plan%20%28v2%29.md#Goals%20%28Q1%29)");
+		expect(formatMarkdownLink("[draft]", "draft.md", "", true)).toBe("![\\[draft\\]](draft.md)");
+	});
+
+	it("describes items for the menu placeholder", () => {
+		expect(describeItem(fileItem)).toBe("Notes/Plan.md");
+		expect(describeItem(tagItem)).toBe("#project");
+		expect(describeItem({ type: "content", file, line: 4, snippet: "" })).toBe("Notes/Plan.md:5");
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+	BinaryReader,
+	BinaryWriter,
+	hashBytes,
+	packIndexFile,
+	readIdMap,
+	readStringTable,
+	unpackIndexFile,
+	writeIdMap,
+	writeStringTable,
+} from "../src/search/binary-format";
+
+describe("BinaryWriter / BinaryReader", () => {
+	it("round-trips varints up to 2^53 and zigzag deltas", () => {
+		const unsigned = [0, 1, 127, 128, 300, 2 ** 31, Number.MAX_SAFE_INTEGER];
+		const signed = [0, -1, 1, -64, 64, -(2 ** 40)];
+		const writer = new BinaryWriter();
+		unsigned.forEach((value) => writer.writeVarint(value));
+		signed.forEach((value) => writer.writeSignedVarint(value));
+		const reader = new BinaryReader(writer.finish());
+		expect(unsigned.map(() => reader.readVarint())).toEqual(unsigned);
+		expect(signed.map(() => reader.readSignedVarint())).toEqual(signed);
+		expect(reader.done).toBe(true);
+	});
+
+	it("encodes small values in one byte", () => {
+		const writer = new BinaryWriter();
+		writer.writeVarint(127);
+		writer.writeSignedVarint(-1);
+		expect(writer.finish()).toHaveLength(2);
+	});
+
+	it("rejects values that are not varints", () => {
+		expect(() => new BinaryWriter().writeVarint(-1)).toThrow();
+		expect(() => new BinaryWriter().writeVarint(1.5)).toThrow();
+	});
+
+	it("throws on truncated input", () => {
+		const writer = new BinaryWriter();
+		writer.writeString("hello");
+		const bytes = writer.finish();
+		expect(() => new BinaryReader(bytes.slice(0, 3)).readString()).toThrow("Unexpected end of index data");
+	});
+});
+
+describe("string tables", () => {
+	function roundTrip(strings: string[]): { strings: string[]; size: number } {
+		const writer = new BinaryWriter();
+		writeStringTable(writer, strings);
+		const bytes = writer.finish();
+		return { strings: readStringTable(new BinaryReader(bytes)), size: bytes.length };
+	}
+
+	it("shares prefixes between neighbours", () => {
+		const ids = Array.from({ length: 100 }, (_, i) => `some/long/folder/name/note.md::${i}`);
+		const { strings, size } = roundTrip(ids);
+		expect(strings).toEqual(ids);
+		expect(size).toBeLessThan(ids.join("").length / 5);
+	});
+
+	it("never splits a surrogate pair", () => {
+		const strings = ["a😀b", "a😁c", "😀", "😀x", "", "ü/ü"];
+		expect(roundTrip(strings).strings).toEqual(strings);
+	});
+});
+
+describe("ID maps", () => {
+	it("round-trips out-of-order IDs", () => {
+		const entries: Array<[string, string]> = [["0", "a.md"], ["1", "b.md"], ["7", "c.md"], ["3", "d.md"]];
+		const writer = new BinaryWriter();
+		writeIdMap(writer, entries);
+		expect(readIdMap(new BinaryReader(writer.finish()))).toEqual(entries);
+	});
+
+	it("rejects IDs that are not canonical integers", () => {
+		expect(() => writeIdMap(new BinaryWriter(), [["01", "a.md"]])).toThrow();
+		expect(() => writeIdMap(new BinaryWriter(), [["x", "a.md"]])).toThrow();
+	});
+});
+
+describe("index file container", () => {
+	const body = new TextEncoder().encode(JSON.stringify({ terms: Array.from({ length: 200 }, (_, i) => `term${i % 20}`) }));
+
+	it("round-trips with and without gzip", async () => {
+		for (const compress of [false, true]) {
+			const packed = await packIndexFile(11, body, compress);
+			const { version, body: unpacked } = await unpackIndexFile(packed);
+			expect(version).toBe(11);
+			expect(unpacked).toEqual(body);
+		}
+		expect((await packIndexFile(11, body, true)).length).toBeLessThan(body.length / 2);
+	});
+
+	it("rejects foreign files", async () => {
+		await expect(unpackIndexFile(new TextEncoder().encode("{\"version\":10}"))).rejects.toThrow("Not an OmniSwitch index file");
+	});
+});
+
+describe("hashBytes", () => {
+	it("is stable and sensitive to every byte", () => {
+		expect(hashBytes(new Uint8Array([1, 2, 3]))).toBe(hashBytes(new Uint8Array([1, 2, 3])));
+		expect(hashBytes(new Uint8Array([1, 2, 3]))).not.toBe(hashBytes(new Uint8Array([1, 2, 4])));
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { FuseEngine, type EngineFileDoc } from "../src/search/engines/fuse-engine";
+import { MiniSearchEngine } from "../src/search/engines/mini-engine";
+import { calibrateScores, matchBonus } from "../src/search/calibration";
+
+const files: EngineFileDoc[] = [
+	{ id: "1", name: "API Reference" },
+	{ id: "2", name: "Rapid capital" },
+	{ id: "3", name: "API" },
+	{ id: "4", name: "Getting Started" },
+	{ id: "5", name: "Api design notes" },
+	{ id: "6", name: "Meeting notes" },
+];
+const nameOf = (result: { id: string }) => files.find((file) => file.id === result.id)?.name ?? null;
+
+function searchBoth(query: string) {
+	const fuse = new FuseEngine();
+	fuse.setFiles(files);
+	const mini = new MiniSearchEngine();
+	mini.setFiles(files);
+	return {
+		fuse: calibrateScores(fuse.searchFiles(query, 10), query, nameOf),
+		mini: calibrateScores(mini.searchFiles(query, 10), query, nameOf),
+	};
+}
+
+describe("matchBonus", () => {
+	it("ranks exact over prefix over substring matches, ignoring case", () => {
+		expect(matchBonus("API", "api")).toBe(1);
+		expect(matchBonus("API Reference", "api")).toBeGreaterThan(matchBonus("Rapid capital", "api"));
+		expect(matchBonus("Rapid capital", "api")).toBeGreaterThan(0);
+		expect(matchBonus("Meeting notes", "api")).toBe(0);
+		expect(matchBonus(null, "api")).toBe(0);
+	});
+});
+
+describe("calibrateScores", () => {
+	it("scales scores to 0..1 relative to the best hit and keeps the raw score", () => {
+		const calibrated = calibrateScores([{ id: "6", score: 12 }, { id: "5", score: 6 }], "zzz", nameOf);
+		expect(calibrated.map((result) => result.score)).toEqual([0.75, 0.375]);
+		expect(calibrated.map((result) => result.rawScore)).toEqual([12, 6]);
+	});
+
+	it("lets an exact title match overtake a higher raw score", () => {
+		const calibrated = calibrateScores([{ id: "1", score: 2 }, { id: "3", score: 1.8 }], "api", nameOf);
+		expect(calibrated.map((result) => result.id)).toEqual(["3", "1"]);
+		expect(calibrated[0]!.score).toBeLessThanOrEqual(1);
+	});
+
+	it("handles empty and zero-score results", () => {
+		expect(calibrateScores([], "api", nameOf)).toEqual([]);
+		expect(calibrateScores([{ id: "6", score: 0 }], "api", nameOf)[0]!.score).toBe(0);
+	});
+});
+
+describe("Calibrated rankings across engines", () => {
+	it("puts Fuse and MiniSearch scores for the same corpus on one 0..1 scale", () => {
+		for (const query of ["api", "notes", "getting", "api reference"]) {
+			const { fuse, mini } = searchBoth(query);
+			for (const result of [...fuse, ...mini]) {
+				expect(result.score).toBeGreaterThanOrEqual(0);
+				expect(result.score).toBeLessThanOrEqual(1);
+			}
+			// Raw best scores differ wildly (Fuse ~1, BM25 up to ~7); calibrated best scores agree
+			expect(Math.abs(fuse[0]!.score - mini[0]!.score)).toBeLessThan(0.15);
+		}
+	});
+
+	it("agrees on the top hit and on the order of results both engines return", () => {
+		for (const query of ["api", "notes", "getting", "api reference"]) {
+			const { fuse, mini } = searchBoth(query);
+			expect(nameOf(fuse[0]!)).toBe(nameOf(mini[0]!));
+			const shared = (results: typeof fuse, other: typeof fuse) => results.map((result) => result.id).filter((id) => other.some((entry) => entry.id === id));
+			expect(shared(fuse, mini)).toEqual(shared(mini, fuse));
+		}
+	});
+
+	it("ranks the exact match first for both engines", () => {
+		const { fuse, mini } = searchBoth("api");
+		expect(nameOf(fuse[0]!)).toBe("API");
+		expect(nameOf(mini[0]!)).toBe("API");
+		expect(fuse[0]!.score).toBe(1);
+		expect(mini[0]!.score).toBe(1);
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { chunkContent, extractSnippet } from "../src/search/content";
+import { MiniSearchEngine } from "../src/search/engines/mini-engine";
+
+describe("chunkContent", () => {
+	it("splits paragraphs on blank lines and keeps start lines", () => {
+		const text = "---\ntags: [a]\n---\nFirst para\nstill first\n\nSecond para\n\n\nThird";
+		expect(chunkContent(text)).toEqual([
+			{ line: 3, text: "First para\nstill first" },
+			{ line: 6, text: "Second para" },
+			{ line: 9, text: "Third" },
+		]);
+	});
+
+	it("splits long paragraphs on line boundaries", () => {
+		const text = ["aaaa", "bbbb", "cccc"].join("\n");
+		const chunks = chunkContent(text, 8);
+		expect(chunks.map((c) => c.line)).toEqual([0, 1, 2]);
+	});
+});
+
+describe("extractSnippet", () => {
+	it("returns the first line containing a matched term", () => {
+		const snippet = extractSnippet("intro line\nthe roadmap for Q3\nmore", ["roadmap"]);
+		expect(snippet).toEqual({ line: 1, text: "the roadmap for Q3" });
+	});
+
+	it("clips long lines around the match", () => {
+		const line = `${"x ".repeat(200)}needle${" y".repeat(200)}`;
+		const snippet = extractSnippet(line, ["needle"], 40);
+		expect(snippet.text).toContain("needle");
+		expect(snippet.text.startsWith("…")).toBe(true);
+		expect(snippet.text.endsWith("…")).toBe(true);
+	});
+});
+
+describe("Mini content index", () => {
+	it("returns stored chunk text and line with matched terms", () => {
+		const engine = new MiniSearchEngine();
+		engine.addContent([
+			{ id: "0", text: "Quarterly roadmap review", line: 4 },
+			{ id: "1", text: "Grocery list", line: 0 },
+		]);
+		const hits = engine.searchContent("roadm", 10);
+		expect(hits).toHaveLength(1);
+		expect(hits[0]).toMatchObject({ id: "0", line: 4, text: "Quarterly roadmap review", terms: ["roadmap"] });
+
+		engine.removeContent(["0"]);
+		expect(engine.searchContent("roadmap", 10)).toHaveLength(0);
+	});
+
+	it("requires every word to match", () => {
+		const engine = new MiniSearchEngine();
+		engine.addContent([
+			{ id: "0", text: "project alpha kickoff", line: 0 },
+			{ id: "1", text: "project beta", line: 0 },
+		]);
+		expect(engine.searchContent("project alpha", 10).map((h) => h.id)).toEqual(["0"]);
+	});
+});
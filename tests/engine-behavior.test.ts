@@ -1,6 +1,12 @@
 import { describe, it, expect } from "vitest";
 import Fuse, { type IFuseOptions } from "fuse.js";
 import MiniSearch from "minisearch";
+import { FuseEngine, type EngineBlockDoc, type EngineFileDoc } from "../src/search/engines/fuse-engine";
+import { MiniSearchEngine } from "../src/search/engines/mini-engine";
+import type { TFile } from "obsidian";
+import { calibrateHits } from "../src/search/calibration";
+import { matchesWordStarts, rerankHits, structuralBoost, type RankingWeights } from "../src/search/ranking";
+import type { SearchHit } from "../src/search/types";
 
 describe("Engine behavior on array fields", () => {
   const docs = [
@@ -50,3 +56,202 @@ describe("Engine behavior on array fields", () => {
     expect((match as any).arrayIndex).toBeUndefined();
   });
 });
+
+describe("Alias search", () => {
+  const files: EngineFileDoc[] = [
+    { id: "1", name: "Container orchestration", aliases: ["K8s", "Kube"] },
+    { id: "2", name: "Kubernetes cluster notes" },
+  ];
+
+  it("Fuse: reports the alias when only an alias matched", () => {
+    const engine = new FuseEngine();
+    engine.setFiles(files);
+    const hits = engine.searchFiles("k8s", 10);
+    expect(hits[0]).toMatchObject({ id: "1", alias: "K8s" });
+    const byName = engine.searchFiles("container", 10);
+    expect(byName[0]?.id).toBe("1");
+    expect(byName[0]?.alias).toBeUndefined();
+  });
+
+  it("Fuse: reports match ranges in the name, or in the alias for alias hits", () => {
+    const engine = new FuseEngine();
+    engine.setFiles(files);
+    expect(engine.searchFiles("container", 10)[0]?.matches).toEqual([[0, 9]]);
+    expect(engine.searchFiles("k8s", 10)[0]?.matches).toEqual([[0, 3]]);
+  });
+
+  it("Mini: reports the alias when only an alias matched", () => {
+    const engine = new MiniSearchEngine();
+    engine.setFiles(files);
+    const hits = engine.searchFiles("kube", 10);
+    expect(hits.find((h) => h.id === "1")?.alias).toBe("Kube");
+    expect(hits.find((h) => h.id === "2")?.alias).toBeUndefined();
+  });
+
+  it("Mini: reports the matched terms for highlighting", () => {
+    const engine = new MiniSearchEngine();
+    engine.setFiles(files);
+    expect(engine.searchFiles("orchestr", 10)[0]?.terms).toEqual(["orchestration"]);
+  });
+});
+
+describe("Block search", () => {
+  const blocks: EngineBlockDoc[] = [
+    { id: "0", text: "Decided to migrate the database", blockId: "decision-1" },
+    { id: "1", text: "Grocery list for the weekend", blockId: "abc123" },
+  ];
+
+  it("Fuse: finds blocks by text and by block id, and indexes the first add", () => {
+    const engine = new FuseEngine();
+    engine.addBlocks(blocks);
+    expect(engine.searchBlocks("migrate", 10)[0]?.id).toBe("0");
+    expect(engine.searchBlocks("abc123", 10)[0]?.id).toBe("1");
+    engine.removeBlocks((d) => d.id === "0");
+    expect(engine.searchBlocks("migrate", 10).map((h) => h.id)).not.toContain("0");
+  });
+
+  it("Mini: finds blocks by text and by block id, and indexes the first add", () => {
+    const engine = new MiniSearchEngine();
+    engine.addBlocks(blocks);
+    expect(engine.searchBlocks("migrate", 10)[0]?.id).toBe("0");
+    expect(engine.searchBlocks("abc123", 10)[0]?.id).toBe("1");
+    engine.removeBlocks([blocks[0]]);
+    expect(engine.searchBlocks("migrate", 10)).toHaveLength(0);
+  });
+});
+
+describe("Ranking boosts", () => {
+  const weights: RankingWeights = { exact: 0.5, prefix: 0.3, wordStart: 0.2, shortName: 0.1 };
+  const none: RankingWeights = { exact: 0, prefix: 0, wordStart: 0, shortName: 0 };
+  const files: EngineFileDoc[] = [
+    { id: "1", name: "Rapid capital" },
+    { id: "2", name: "API Reference" },
+    { id: "3", name: "Getting Started" },
+    { id: "4", name: "Gas stations" },
+    { id: "5", name: "Grocery shopping list" },
+    { id: "6", name: "API" },
+  ];
+  const nameOf = (id: string) => files.find((file) => file.id === id)!.name;
+
+  // Engine search → calibration → re-ranking, as the coordinator does it
+  function rank(engine: FuseEngine | MiniSearchEngine, query: string, rankingWeights: RankingWeights): string[] {
+    const hits: SearchHit[] = engine.searchFiles(query, 10).map((result) => ({
+      item: { type: "file", file: { basename: nameOf(result.id), path: `${nameOf(result.id)}.md` } as TFile },
+      score: result.score,
+      engine: "fuse",
+    }));
+    const ranked = rerankHits(calibrateHits(hits, query, "fuse"), query, rankingWeights);
+    return ranked.map((hit) => (hit.item.type === "file" ? hit.item.file.basename : ""));
+  }
+
+  it("recognises word starts and initials", () => {
+    expect(matchesWordStarts("Getting Started", "gs")).toBe(true);
+    expect(matchesWordStarts("Getting Started", "get sta")).toBe(true);
+    expect(matchesWordStarts("my-api_reference", "ref")).toBe(true);
+    expect(matchesWordStarts("Rapid capital", "api")).toBe(false);
+    expect(matchesWordStarts("Gas", "g")).toBe(true);
+    expect(matchesWordStarts("Grocery shopping list", "gsl")).toBe(true);
+  });
+
+  it("adds up exact, prefix, word-start and short-name boosts", () => {
+    expect(structuralBoost("API", "api", weights)).toBeCloseTo(1.1);
+    expect(structuralBoost("API Reference", "api", weights)).toBeCloseTo(0.5 + 0.1 * 3 / 13);
+    expect(structuralBoost("Rapid capital", "api", weights)).toBeCloseTo(0.1 * 3 / 13);
+    expect(structuralBoost("API", "api", none)).toBe(0);
+    expect(structuralBoost(null, "api", weights)).toBe(0);
+  });
+
+  it("Fuse: ranks API Reference above Rapid capital for `api`", () => {
+    const engine = new FuseEngine();
+    engine.setFiles(files);
+    const ranked = rank(engine, "api", weights);
+    expect(ranked.slice(0, 2)).toEqual(["API", "API Reference"]);
+    expect(ranked.indexOf("API Reference")).toBeLessThan(ranked.indexOf("Rapid capital"));
+  });
+
+  it("`gs` puts Getting Started above a plain substring match only with the word-start boost", () => {
+    const hits: SearchHit[] = [
+      { item: { type: "file", file: { basename: "Bugs" } as TFile }, score: 0.9, engine: "fuse" },
+      { item: { type: "file", file: { basename: "Getting Started" } as TFile }, score: 0.8, engine: "fuse" },
+    ];
+    const titles = (ranked: SearchHit[]) => ranked.map((hit) => (hit.item.type === "file" ? hit.item.file.basename : ""));
+    expect(titles(rerankHits(hits, "gs", weights))).toEqual(["Getting Started", "Bugs"]);
+    expect(titles(rerankHits(hits, "gs", { ...weights, wordStart: 0 }))).toEqual(["Bugs", "Getting Started"]);
+  });
+
+  it("Mini: re-ranking keeps scores within 0..1 and the exact match first", () => {
+    const engine = new MiniSearchEngine();
+    engine.setFiles(files);
+    const hits: SearchHit[] = engine.searchFiles("api", 10).map((result) => ({
+      item: { type: "file", file: { basename: nameOf(result.id), path: `${nameOf(result.id)}.md` } as TFile },
+      score: result.score,
+      engine: "mini",
+    }));
+    const ranked = rerankHits(calibrateHits(hits, "api", "mini"), "api", weights);
+    expect(ranked[0]?.item.type === "file" && ranked[0].item.file.basename).toBe("API");
+    for (const hit of ranked) {
+      expect(hit.score).toBeGreaterThanOrEqual(0);
+      expect(hit.score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("leaves calibrated order alone when every weight is 0", () => {
+    const hits: SearchHit[] = [
+      { item: { type: "file", file: { basename: "Rapid capital" } as TFile }, score: 0.9, engine: "fuse" },
+      { item: { type: "file", file: { basename: "API" } as TFile }, score: 0.8, engine: "fuse" },
+    ];
+    expect(rerankHits(hits, "api", none)).toBe(hits);
+  });
+});
+
+describe("File name tokenization", () => {
+  const files: EngineFileDoc[] = [
+    { id: "1", name: "quarterlyRevenueReport_v2" },
+    { id: "2", name: "my-project-notes" },
+    { id: "3", name: "Meeting notes" },
+    { id: "4", name: "release.notes.2024" },
+  ];
+
+  for (const [label, create] of [["Fuse", () => new FuseEngine()], ["Mini", () => new MiniSearchEngine()]] as const) {
+    it(`${label}: finds camelCase, snake_case, kebab-case and dotted parts`, () => {
+      const engine = create();
+      engine.setFiles(files);
+      expect(engine.searchFiles("revenue report", 10)[0]?.id).toBe("1");
+      expect(engine.searchFiles("project notes", 10)[0]?.id).toBe("2");
+      expect(engine.searchFiles("release 2024", 10)[0]?.id).toBe("4");
+    });
+
+    it(`${label}: finds a file by its initials`, () => {
+      const engine = create();
+      engine.setFiles(files);
+      expect(engine.searchFiles("qrr", 10)[0]?.id).toBe("1");
+    });
+  }
+
+  it("Mini: matches names typed without breaks and keeps tokens in the persisted index", () => {
+    const engine = new MiniSearchEngine();
+    engine.setFiles(files);
+    expect(engine.searchFiles("quarterlyrev", 10)[0]?.id).toBe("1");
+    const restored = new MiniSearchEngine();
+    restored.loadFilesFromJS(files, JSON.parse(JSON.stringify(engine.filesToJSON())));
+    expect(restored.searchFiles("qrr", 10)[0]?.id).toBe("1");
+    expect(restored.searchFiles("revenue", 10)[0]?.id).toBe("1");
+  });
+
+  it("Fuse: keeps words and initials in the persisted index and for files added after loading", () => {
+    const engine = new FuseEngine();
+    engine.setFiles(files);
+    const restored = new FuseEngine();
+    restored.loadFilesFromIndex(files, JSON.parse(JSON.stringify(engine.filesToJSON())));
+    expect(restored.searchFiles("qrr", 10)[0]?.id).toBe("1");
+    restored.addFiles([{ id: "5", name: "annualBudgetForecast" }]);
+    expect(restored.searchFiles("abf", 10)[0]?.id).toBe("5");
+  });
+
+  it("Fuse: highlights only name positions", () => {
+    const engine = new FuseEngine();
+    engine.setFiles(files);
+    expect(engine.searchFiles("meeting", 10)[0]?.matches).toEqual([[0, 7]]);
+    expect(engine.searchFiles("qrr", 10)[0]?.matches).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { Command, HeadingCache, TFile } from "obsidian";
+import { everythingGroupOf, groupEverythingHits } from "../src/search/everything";
+import { detectPrefix } from "../src/search/utils";
+import type { SearchHit } from "../src/search/types";
+
+const note = (path: string, score: number): SearchHit => ({ item: { type: "file", file: { path } as TFile }, score, engine: "fuse" });
+const heading = (text: string, score: number): SearchHit => ({
+	item: { type: "heading", file: { path: "a.md" } as TFile, heading: { heading: text } as HeadingCache },
+	score,
+	engine: "mini",
+});
+const command = (id: string, score: number): SearchHit => ({ item: { type: "command", command: { id, name: id } as Command }, score, engine: "mini" });
+
+describe("groupEverythingHits", () => {
+	it("orders sections by their best hit and keeps each section together", () => {
+		const grouped = groupEverythingHits([note("a.md", 0.4), command("reload", 0.9), heading("Intro", 0.6), note("b.md", 0.5)], 20);
+		expect(grouped.map((hit) => everythingGroupOf(hit.item))).toEqual(["commands", "headings", "files", "files"]);
+		expect(grouped[2]!.score).toBe(0.5);
+	});
+
+	it("caps each section and the total", () => {
+		const notes = Array.from({ length: 12 }, (_, i) => note(`${i}.md`, 1 - i / 100));
+		const commands = Array.from({ length: 12 }, (_, i) => command(`c${i}`, 0.5));
+		const grouped = groupEverythingHits([...notes, ...commands], 20, [
+			{ id: "files", label: "Notes", cap: 8 },
+			{ id: "commands", label: "Commands", cap: 5 },
+		]);
+		expect(grouped.filter((hit) => hit.item.type === "file")).toHaveLength(8);
+		expect(grouped.filter((hit) => hit.item.type === "command")).toHaveLength(5);
+		expect(groupEverythingHits(notes, 3)).toHaveLength(3);
+	});
+});
+
+describe("everything mode prefixes", () => {
+	it("still switches modes with the usual prefixes", () => {
+		expect(detectPrefix("# intro", "everything", null)).toMatchObject({ mode: "headings", search: "intro", prefixApplied: true });
+		expect(detectPrefix("plain", "everything", null)).toMatchObject({ mode: "everything", prefixApplied: false });
+	});
+});
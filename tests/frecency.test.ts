@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { TFile } from "obsidian";
+import { blendFrecency, FrecencyStore, frecencyKey } from "../src/search/frecency";
+import type { SearchHit, SearchItem } from "../src/search/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+const file = (path: string): SearchItem => ({ type: "file", file: { path } as TFile });
+const hit = (path: string, score: number): SearchHit => ({ item: file(path), score, engine: "fuse" });
+
+describe("frecencyKey", () => {
+	it("counts content matches and tabs towards their file", () => {
+		const tFile = { path: "notes/a.md" } as TFile;
+		expect(frecencyKey({ type: "content", file: tFile, line: 3, snippet: "x" })).toBe("file:notes/a.md");
+		expect(frecencyKey(file("notes/a.md"))).toBe("file:notes/a.md");
+	});
+
+	it("ignores navigation-only items", () => {
+		expect(frecencyKey({ type: "tag", tag: "project", count: 2 })).toBeNull();
+	});
+});
+
+describe("FrecencyStore", () => {
+	it("halves a visit's weight every half-life", () => {
+		const store = new FrecencyStore();
+		const now = 100 * DAY;
+		store.record(file("a.md"), now - 14 * DAY);
+		store.record(file("a.md"), now);
+		expect(store.score(file("a.md"), 14, now)).toBeCloseTo(1.5);
+		expect(store.score(file("b.md"), 14, now)).toBe(0);
+	});
+
+	it("round-trips through JSON and notifies on change", () => {
+		let changes = 0;
+		const store = new FrecencyStore(null, () => changes++);
+		store.record(file("a.md"), 1000);
+		const restored = new FrecencyStore(JSON.parse(JSON.stringify(store.toJSON())));
+		expect(restored.score(file("a.md"), 14, 1000)).toBe(1);
+		expect(changes).toBe(1);
+	});
+
+	it("moves history to a renamed file, including its headings", () => {
+		const store = new FrecencyStore();
+		const tFile = { path: "old.md" } as TFile;
+		store.record(file("old.md"), 0);
+		store.record({ type: "heading", file: tFile, heading: { heading: "Intro" } } as SearchItem, 0);
+		store.renamePath("old.md", "new.md");
+		expect(store.toJSON().entries).toEqual({ "file:new.md": [0], "heading:new.md#Intro": [0] });
+	});
+
+	it("lists the notes behind file, heading and block history", () => {
+		const store = new FrecencyStore();
+		const tFile = { path: "dir/b.md" } as TFile;
+		store.record(file("a.md"), 0);
+		store.record({ type: "heading", file: tFile, heading: { heading: "Intro" } } as SearchItem, 0);
+		store.record({ type: "command", command: { id: "app:reload", name: "Reload" } } as SearchItem, 0);
+		expect([...store.visitedPaths()].sort()).toEqual(["a.md", "dir/b.md"]);
+	});
+
+	it("clears all history", () => {
+		const store = new FrecencyStore();
+		store.record(file("a.md"));
+		store.clear();
+		expect(store.size).toBe(0);
+	});
+});
+
+describe("blendFrecency", () => {
+	it("lifts frequently opened items over slightly better matches", () => {
+		const hits = [hit("exact.md", 1), hit("habit.md", 0.9)];
+		const frecency = (item: SearchItem) => (item.type === "file" && item.file.path === "habit.md" ? 5 : 0);
+		const ranked = blendFrecency(hits, frecency, 0.3);
+		expect(ranked.map((h) => (h.item as { file: TFile }).file.path)).toEqual(["habit.md", "exact.md"]);
+	});
+
+	it("ties keep their order while frecency lifts visited items", () => {
+		const store = new FrecencyStore();
+		store.record(file("c.md"), 0);
+		const rows = ["a.md", "b.md", "c.md"].map((path) => ({ item: file(path), score: 1, path }));
+		const blended = blendFrecency(rows, (item) => store.score(item, 14, 0), 0.3);
+		expect(blended.map((row) => row.path)).toEqual(["c.md", "a.md", "b.md"]);
+	});
+
+	it("keeps engine scores when the weight is 0", () => {
+		const hits = [hit("a.md", 3), hit("b.md", 1)];
+		expect(blendFrecency(hits, () => 10, 0)).toBe(hits);
+	});
+});
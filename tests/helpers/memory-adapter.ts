@@ -0,0 +1,58 @@
+/** In-memory stand-in for the vault adapter used by IndexStore and JournalStore */
+export class MemoryAdapter {
+	readonly storage = new Map<string, string | Uint8Array>();
+	private readonly dirs = new Set<string>();
+
+	async exists(path: string): Promise<boolean> {
+		return this.storage.has(path) || this.dirs.has(path);
+	}
+
+	async mkdir(path: string): Promise<void> {
+		this.dirs.add(path);
+	}
+
+	async read(path: string): Promise<string> {
+		const data = this.storage.get(path);
+		if (typeof data !== "string") throw new Error(`ENOENT: ${path}`);
+		return data;
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		const data = this.storage.get(path);
+		if (!(data instanceof Uint8Array)) throw new Error(`ENOENT: ${path}`);
+		return data.slice().buffer;
+	}
+
+	async write(path: string, data: string): Promise<void> {
+		this.storage.set(path, data);
+	}
+
+	async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+		this.storage.set(path, new Uint8Array(data.slice(0)));
+	}
+
+	async remove(path: string): Promise<void> {
+		this.storage.delete(path);
+	}
+
+	async rename(from: string, to: string): Promise<void> {
+		if (this.storage.has(to)) throw new Error("Destination file already exists!");
+		const data = this.storage.get(from);
+		if (data === undefined) throw new Error(`ENOENT: ${from}`);
+		this.storage.set(to, data);
+		this.storage.delete(from);
+	}
+
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		return { files: [...this.storage.keys()].filter((key) => key.startsWith(`${path}/`)), folders: [] };
+	}
+
+	/** On-disk size in bytes (UTF-8 for text files) */
+	get size(): number {
+		let bytes = 0;
+		for (const data of this.storage.values()) {
+			bytes += typeof data === "string" ? Buffer.byteLength(data) : data.length;
+		}
+		return bytes;
+	}
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { fromFuseIndices, highlightRanges, literalRanges, mergeRanges, queryTerms } from "../src/search/highlight";
+
+describe("queryTerms", () => {
+	it("strips extended-search operators and drops negated words", () => {
+		expect(queryTerms("  'exact ^pre suf$ !skip =eq plain ")).toEqual(["exact", "pre", "suf", "eq", "plain"]);
+	});
+});
+
+describe("highlightRanges", () => {
+	it("marks every case-insensitive occurrence of each term", () => {
+		expect(highlightRanges("Road to the roadmap", ["road"])).toEqual([[0, 4], [12, 16]]);
+	});
+
+	it("merges overlapping and adjacent terms", () => {
+		expect(highlightRanges("Roadmap", ["road", "map", "dma"])).toEqual([[0, 7]]);
+	});
+
+	it("falls back to in-order characters for fuzzy terms", () => {
+		expect(highlightRanges("Roadmap", ["rdmp"])).toEqual([[0, 1], [3, 5], [6, 7]]);
+		expect(highlightRanges("Roadmap", ["xyz"])).toEqual([]);
+		expect(literalRanges("Roadmap", ["rdmp"])).toEqual([]);
+	});
+});
+
+describe("range helpers", () => {
+	it("converts inclusive Fuse indices", () => {
+		expect(fromFuseIndices([[4, 6], [0, 1]])).toEqual([[0, 2], [4, 7]]);
+	});
+
+	it("leaves disjoint ranges alone", () => {
+		expect(mergeRanges([[5, 6], [0, 2]])).toEqual([[0, 2], [5, 6]]);
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import type { App, CachedMetadata, TFile } from "obsidian";
+import { IndexManager } from "../src/search/index-manager";
+import { StatusBroadcaster } from "../src/search/status";
+import { DEFAULT_SETTINGS } from "../src/settings";
+
+function createFile(path: string, mtime: number, size: number): TFile {
+	const name = path.split("/").pop()!;
+	return { path, name, basename: name.replace(/\.md$/, ""), extension: "md", stat: { mtime, size, ctime: 0 }, parent: null } as unknown as TFile;
+}
+
+class MockApp {
+	readonly files = new Map<string, TFile>();
+	readonly metadata = new Map<string, CachedMetadata>();
+	readonly contents = new Map<string, string>();
+
+	readonly vault = {
+		getAbstractFileByPath: (path: string) => this.files.get(path) ?? null,
+		getAllLoadedFiles: () => Array.from(this.files.values()),
+		getRoot: () => null,
+		cachedRead: async (file: TFile) => this.contents.get(file.path) ?? "",
+	};
+
+	readonly metadataCache = {
+		getFileCache: (file: TFile) => this.metadata.get(file.path) ?? null,
+	};
+
+	readonly workspace = { layoutReady: true, onLayoutReady: () => undefined };
+}
+
+function createManager(app: MockApp, onEngineFileRemove?: (path: string) => void): IndexManager {
+	return new IndexManager({
+		app: app as unknown as App,
+		status: new StatusBroadcaster(),
+		getSettings: () => DEFAULT_SETTINGS,
+		onFilesUpdated: () => undefined,
+		onCommandsUpdated: () => undefined,
+		onEngineFileRemove,
+	});
+}
+
+async function settle(manager: IndexManager): Promise<void> {
+	// Past the per-path debounce, then until the queue is drained
+	await new Promise((resolve) => setTimeout(resolve, 400));
+	while (!manager.isIdle()) {
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+}
+
+describe("IndexManager metadata changes", () => {
+	it("re-captures aliases once metadataCache catches up with an edit", async () => {
+		const app = new MockApp();
+		const file = createFile("note.md", 1, 10);
+		app.files.set(file.path, file);
+		const manager = createManager(app);
+		manager.queueVaultChange({ type: "created", path: file.path });
+		await settle(manager);
+
+		// The modify event is handled while the cache still has the old frontmatter
+		file.stat.mtime = 2;
+		file.stat.size = 30;
+		manager.queueVaultChange({ type: "modified", path: file.path });
+		await settle(manager);
+		expect(manager.getFileDocs()[0]?.aliases).toEqual([]);
+
+		app.metadata.set(file.path, { frontmatter: { aliases: ["Nickname"] } } as unknown as CachedMetadata);
+		manager.queueVaultChange({ type: "modified", path: file.path, metadata: true });
+		await settle(manager);
+		expect(manager.getFileDocs()[0]?.aliases).toEqual(["Nickname"]);
+	});
+
+	it("indexes a block written in the last edit once its metadata arrives", async () => {
+		const app = new MockApp();
+		const file = createFile("note.md", 1, 10);
+		app.files.set(file.path, file);
+		const manager = createManager(app);
+		manager.queueVaultChange({ type: "created", path: file.path });
+		await settle(manager);
+
+		const content = "Intro\n\nRemember this ^idea1\n";
+		app.contents.set(file.path, content);
+		file.stat.mtime = 2;
+		file.stat.size = content.length;
+		manager.queueVaultChange({ type: "modified", path: file.path });
+		await settle(manager);
+		expect(manager.getBlockDocs()).toEqual([]);
+
+		const start = content.indexOf("Remember");
+		const end = content.indexOf("\n", start);
+		app.metadata.set(file.path, {
+			blocks: { idea1: { id: "idea1", position: { start: { line: 2, col: 0, offset: start }, end: { line: 2, col: end - start, offset: end } } } },
+		} as unknown as CachedMetadata);
+		manager.queueVaultChange({ type: "modified", path: file.path, metadata: true });
+		await settle(manager);
+		expect(manager.getBlockDocs().map((b) => [b.id, b.text])).toEqual([["note.md#^idea1", "Remember this"]]);
+	});
+});
+
+describe("IndexManager reconcile", () => {
+	it("trusts file stats saved with the indexes when the journal has no entry", async () => {
+		const app = new MockApp();
+		for (const file of [createFile("same.md", 1, 10), createFile("edited.md", 5, 20), createFile("new.md", 1, 10)]) {
+			app.files.set(file.path, file);
+		}
+		const removed: string[] = [];
+		const manager = createManager(app, (path) => removed.push(path));
+		const stats = new Map([["same.md", { mtime: 1, size: 10 }], ["edited.md", { mtime: 2, size: 20 }], ["gone.md", { mtime: 1, size: 10 }]]);
+		const result = manager.reconcileWithVault(["same.md", "edited.md", "gone.md", "unknown.md"], undefined, stats);
+		expect(result).toEqual({ created: ["new.md"], modified: ["edited.md"], deleted: ["gone.md", "unknown.md"] });
+
+		// Its headings were never read, so the next edit replaces the note's docs even if it looks unchanged
+		await settle(manager);
+		removed.length = 0;
+		app.files.get("same.md")!.stat.mtime = 3;
+		manager.queueVaultChange({ type: "modified", path: "same.md" });
+		await settle(manager);
+		expect(removed).toEqual(["same.md"]);
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { DeltaBuilder, MAX_DELTA_SEGMENTS, decodeDelta, encodeDelta, shouldMerge } from "../src/search/index-segments";
+
+const NEXT = { nextFileId: 10, nextHeadingId: 20, nextBlockId: 3 };
+
+describe("DeltaBuilder", () => {
+	it("collects additions and removals per kind", () => {
+		const builder = new DeltaBuilder();
+		builder.add("files", "7", { id: "a.md", name: "a.md", extension: "md", mtime: 5 });
+		builder.add("headings", "12", { id: "a.md::0", title: "Intro" });
+		builder.remove("blocks", "2");
+		expect(builder.size).toBe(3);
+
+		const delta = builder.take(NEXT);
+		expect(delta.added.files).toEqual([["7", { id: "a.md", name: "a.md", extension: "md", mtime: 5 }]]);
+		expect(delta.added.headings).toEqual([["12", { id: "a.md::0", title: "Intro" }]]);
+		expect(delta.removed.blocks).toEqual(["2"]);
+		expect(delta.nextHeadingId).toBe(20);
+		expect(builder.size).toBe(0);
+	});
+
+	it("drops an addition that is removed again but keeps the removal", () => {
+		const builder = new DeltaBuilder();
+		builder.add("files", "7", { id: "a.md", name: "a.md", extension: "md", mtime: 5 });
+		builder.remove("files", "7");
+		const delta = builder.take(NEXT);
+		expect(delta.added.files).toEqual([]);
+		expect(delta.removed.files).toEqual(["7"]);
+	});
+
+	it("keeps both when an ID is removed and then re-added", () => {
+		const builder = new DeltaBuilder();
+		builder.remove("headings", "4");
+		builder.add("headings", "4", { id: "a.md::1", title: "Again" });
+		const delta = builder.take(NEXT);
+		expect(delta.removed.headings).toEqual(["4"]);
+		expect(delta.added.headings).toEqual([["4", { id: "a.md::1", title: "Again" }]]);
+	});
+});
+
+describe("delta encoding", () => {
+	it("round-trips every field", () => {
+		const builder = new DeltaBuilder();
+		builder.add("files", "7", { id: "dir/a.md", name: "a.md", extension: "md", mtime: 1700000000000, aliases: ["Alpha", "Ä"] });
+		builder.add("files", "8", { id: "dir/b.png", name: "b.png", extension: "png", mtime: 1 });
+		builder.add("headings", "12", { id: "dir/a.md::0", title: "Intro" });
+		builder.add("headings", "13", { id: "dir/a.md::1", title: "Details 😀" });
+		builder.add("blocks", "2", { id: "dir/a.md#^x1", text: "A block" });
+		builder.remove("files", "3");
+		builder.remove("headings", "9");
+		builder.remove("headings", "5");
+		const delta = builder.take(NEXT);
+
+		const decoded = decodeDelta(encodeDelta(delta));
+		expect(decoded).toEqual({ ...delta, removed: { ...delta.removed, headings: ["5", "9"] } });
+	});
+
+	it("rejects truncated segments", () => {
+		const builder = new DeltaBuilder();
+		builder.add("headings", "12", { id: "a.md::0", title: "Intro" });
+		const bytes = encodeDelta(builder.take(NEXT));
+		expect(() => decodeDelta(bytes.slice(0, bytes.length - 2))).toThrow();
+	});
+});
+
+describe("shouldMerge", () => {
+	it("merges when segments pile up or outgrow a share of the base", () => {
+		expect(shouldMerge([], 1000)).toBe(false);
+		expect(shouldMerge([10, 10], 1000)).toBe(false);
+		expect(shouldMerge(new Array(MAX_DELTA_SEGMENTS).fill(1), 1000)).toBe(true);
+		expect(shouldMerge([200, 100], 1000)).toBe(true);
+	});
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { App } from "obsidian";
+import { IndexStore, hashContent } from "../src/search/index-store";
+import { hashBytes } from "../src/search/binary-format";
+import { MemoryAdapter } from "./helpers/memory-adapter";
+
+const ROOT = ".obsidian/plugins/test/indexes";
+
+function sampleIndexes(label = "a") {
+	return {
+		fuseFiles: { keys: [label] },
+		fuseHeadings: { keys: [] },
+		miniFiles: { documentCount: 1 },
+		miniHeadings: { documentCount: 2 },
+		fileIdMap: [["0", `${label}.md`]] as Array<[string, string]>,
+		headingIdMap: [["0", `${label}.md::0`]] as Array<[string, string]>,
+		nextFileId: 1,
+		nextHeadingId: 1,
+		blockIdMap: [] as Array<[string, string]>,
+		nextBlockId: 0,
+		blockDocs: [],
+	};
+}
+
+describe("IndexStore integrity", () => {
+	let adapter: MemoryAdapter;
+	let notices: string[];
+
+	function createStore(compress?: boolean): IndexStore {
+		return new IndexStore({ vault: { adapter } } as unknown as App, "test", (message) => notices.push(message), { compress });
+	}
+
+	function bytes(name: string): Uint8Array {
+		return adapter.storage.get(`${ROOT}/${name}`) as Uint8Array;
+	}
+
+	function manifest(): { version: number; files: Record<string, { size: number; hash: string; version: number }> } {
+		return JSON.parse(adapter.storage.get(`${ROOT}/manifest.json`) as string);
+	}
+
+	beforeEach(() => {
+		adapter = new MemoryAdapter();
+		notices = [];
+	});
+
+	it("round-trips through temp files and leaves none behind", async () => {
+		await createStore().saveIndexes(sampleIndexes());
+		expect([...adapter.storage.keys()].filter((key) => key.endsWith(".tmp"))).toEqual([]);
+
+		const idMaps = bytes("id-maps.bin");
+		expect(manifest().files["id-maps.bin"]).toEqual({ size: idMaps.length, hash: hashBytes(idMaps), version: IndexStore.VERSION });
+
+		const loaded = await createStore().loadIndexes("both");
+		expect(loaded?.fileIdMap).toEqual([["0", "a.md"]]);
+		expect(loaded?.miniHeadings).toEqual({ documentCount: 2 });
+		expect(notices).toEqual([]);
+	});
+
+	it("overwrites a previous save", async () => {
+		await createStore().saveIndexes(sampleIndexes("a"));
+		await createStore().saveIndexes(sampleIndexes("b"));
+		expect((await createStore().loadIndexes("fuse"))?.fileIdMap).toEqual([["0", "b.md"]]);
+	});
+
+	it("round-trips blocks and gzipped files", async () => {
+		const data = { ...sampleIndexes(), blockIdMap: [["0", "a.md#^x"], ["1", "a.md#^y"]] as Array<[string, string]>, nextBlockId: 2 };
+		await createStore(true).saveIndexes({ ...data, blockDocs: [{ id: "a.md#^x", text: "First" }, { id: "a.md#^y", text: "Second ✓" }] });
+
+		expect(await createStore().loadBlocks()).toEqual({
+			blockIdMap: [["0", "a.md#^x"], ["1", "a.md#^y"]],
+			nextBlockId: 2,
+			docs: [{ id: "a.md#^x", text: "First" }, { id: "a.md#^y", text: "Second ✓" }],
+		});
+		expect(await createStore().readIndexJSON("fuseFiles")).toBe(JSON.stringify({ keys: ["a"] }));
+	});
+
+	it("rejects a truncated mini-headings file with a notice", async () => {
+		await createStore().saveIndexes(sampleIndexes());
+		const path = `${ROOT}/mini-headings.bin`;
+		adapter.storage.set(path, bytes("mini-headings.bin").slice(0, 5));
+
+		expect(await createStore().loadIndexes("hybrid")).toBeNull();
+		expect(notices).toHaveLength(1);
+		expect(notices[0]).toContain("mini-headings");
+	});
+
+	it("detects same-length corruption by hash", async () => {
+		await createStore().saveIndexes(sampleIndexes("a"));
+		const corrupted = bytes("id-maps.bin").slice();
+		corrupted[corrupted.length - 1] ^= 0xff;
+		adapter.storage.set(`${ROOT}/id-maps.bin`, corrupted);
+
+		expect(await createStore().loadIdMaps()).toBeNull();
+		expect(notices[0]).toContain("hash");
+	});
+
+	it("treats a file the manifest lists but the disk lacks as an interrupted save", async () => {
+		await createStore().saveIndexes(sampleIndexes());
+		adapter.storage.delete(`${ROOT}/fuse-files.bin`);
+
+		expect(await createStore().loadIndexes("fuse")).toBeNull();
+		expect(notices[0]).toContain("fuse-files.bin is missing");
+	});
+
+	it("notices a mix of old and new files from a save cut short", async () => {
+		await createStore().saveIndexes(sampleIndexes("a"));
+		const oldFuseFiles = bytes("fuse-files.bin");
+		await createStore().saveIndexes(sampleIndexes("b"));
+		adapter.storage.set(`${ROOT}/fuse-files.bin`, oldFuseFiles);
+
+		expect(await createStore().loadIndexes("fuse")).toBeNull();
+		expect(notices).toHaveLength(1);
+	});
+
+	it("quietly ignores indexes saved without a manifest", async () => {
+		await createStore().saveIndexes(sampleIndexes());
+		adapter.storage.delete(`${ROOT}/manifest.json`);
+
+		expect(await createStore().loadIndexes("fuse")).toBeNull();
+		expect(notices).toEqual([]);
+	});
+
+	it("keeps the content index in the same manifest", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		await store.saveContentIndex({ index: { documentCount: 3 }, contentIdMap: [["0", "a.md::0"]], nextContentId: 1 });
+
+		const reloaded = createStore();
+		expect((await reloaded.loadContentIndex())?.contentIdMap).toEqual([["0", "a.md::0"]]);
+		expect(await reloaded.loadIndexes("fuse")).not.toBeNull();
+	});
+
+	it("round-trips the note mtimes content staleness is checked against", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		await store.saveContentIndex({
+			index: {},
+			contentIdMap: [["0", "a.md::0"], ["1", "b.md::0"]],
+			nextContentId: 2,
+			noteMtimes: [["a.md", 1700000000000], ["b.md", 5]],
+			savedAt: 1700000000500,
+		});
+
+		const loaded = await createStore().loadContentIndex();
+		expect(loaded?.noteMtimes).toEqual([["a.md", 1700000000000], ["b.md", 5]]);
+		expect(loaded?.savedAt).toBe(1700000000500);
+	});
+
+	it("round-trips the file stats startup reconciliation compares against", async () => {
+		await createStore().saveIndexes({ ...sampleIndexes(), fileStats: [["a.md", 1700000000000, 42]] });
+		expect((await createStore().loadIdMaps())?.fileStats).toEqual([["a.md", 1700000000000, 42]]);
+
+		// ID maps saved before stats were recorded have none
+		await createStore().saveIndexes(sampleIndexes());
+		const loaded = await createStore().loadIdMaps();
+		expect(loaded?.fileIdMap).toEqual([["0", "a.md"]]);
+		expect(loaded?.fileStats).toBeUndefined();
+	});
+
+	it("loads v10 JSON indexes and replaces them on the next save", async () => {
+		const legacy: Record<string, string> = {
+			"fuse-files.json": JSON.stringify({ version: 10, index: { keys: ["old"] } }),
+			"mini-headings-v10.json": JSON.stringify({ documentCount: 7 }),
+			"id-maps.json": JSON.stringify({ version: 10, fileIdMap: [["0", "old.md"]], headingIdMap: [], nextFileId: 1, nextHeadingId: 0 }),
+			"blocks.json": JSON.stringify({ version: 10, blockIdMap: [], nextBlockId: 0, docs: [] }),
+		};
+		const files: Record<string, { size: number; hash: string; version: number }> = {};
+		for (const [name, text] of Object.entries(legacy)) {
+			adapter.storage.set(`${ROOT}/${name}`, text);
+			files[name] = { size: text.length, hash: hashContent(text), version: 10 };
+		}
+		adapter.storage.set(`${ROOT}/manifest.json`, JSON.stringify({ version: 10, files }));
+
+		const loaded = await createStore().loadIndexes("hybrid");
+		expect(loaded).toMatchObject({ fuseFiles: { keys: ["old"] }, miniHeadings: { documentCount: 7 }, fileIdMap: [["0", "old.md"]] });
+		expect(await createStore().readIndexJSON("miniHeadings")).toBe(legacy["mini-headings-v10.json"]);
+		expect((await createStore().loadBlocks())?.docs).toEqual([]);
+
+		await createStore().saveIndexes(sampleIndexes("new"));
+		expect([...adapter.storage.keys()].filter((key) => key.endsWith(".json"))).toEqual([`${ROOT}/manifest.json`]);
+		expect(Object.keys(manifest().files).sort()).toEqual([
+			"blocks.bin", "fuse-files.bin", "fuse-headings.bin", "id-maps.bin", "mini-files.bin", "mini-headings.bin",
+		]);
+		expect((await createStore().loadIndexes("hybrid"))?.fileIdMap).toEqual([["0", "new.md"]]);
+		expect(notices).toEqual([]);
+	});
+
+	it("rejects v10 JSON files whose manifest entry does not match", async () => {
+		const text = JSON.stringify({ version: 10, fileIdMap: [], headingIdMap: [], nextFileId: 0, nextHeadingId: 0 });
+		adapter.storage.set(`${ROOT}/id-maps.json`, text.slice(0, -1));
+		adapter.storage.set(`${ROOT}/manifest.json`, JSON.stringify({ version: 10, files: { "id-maps.json": { size: text.length, hash: hashContent(text), version: 10 } } }));
+
+		expect(await createStore().loadIdMaps()).toBeNull();
+		expect(notices[0]).toContain("id-maps.json has");
+	});
+});
+
+describe("IndexStore delta segments", () => {
+	let adapter: MemoryAdapter;
+	let notices: string[];
+	const next = { nextFileId: 5, nextHeadingId: 6, nextBlockId: 0 };
+
+	function createStore(): IndexStore {
+		return new IndexStore({ vault: { adapter } } as unknown as App, "test", (message) => notices.push(message));
+	}
+
+	function segmentFiles(): string[] {
+		return [...adapter.storage.keys()].filter((key) => /delta-\d+\.bin$/.test(key)).sort();
+	}
+
+	beforeEach(() => {
+		adapter = new MemoryAdapter();
+		notices = [];
+	});
+
+	it("writes recorded changes as a segment and loads them back", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		expect(store.hasPendingChanges()).toBe(false);
+
+		store.recordRemove("files", "0");
+		store.recordAdd("files", "1", { id: "b.md", name: "b.md", extension: "md", mtime: 9 });
+		expect(store.hasPendingChanges()).toBe(true);
+		expect(await store.saveDelta(next)).toBe(true);
+		expect(store.hasPendingChanges()).toBe(false);
+		expect(await store.saveDelta(next)).toBe(false); // nothing new to write
+
+		const deltas = await createStore().loadDeltas();
+		expect(deltas).toHaveLength(1);
+		expect(deltas?.[0]?.removed.files).toEqual(["0"]);
+		expect(deltas?.[0]?.added.files).toEqual([["1", { id: "b.md", name: "b.md", extension: "md", mtime: 9 }]]);
+		expect(deltas?.[0]?.nextFileId).toBe(5);
+	});
+
+	it("keeps segments in order across sessions and drops them on a full save", async () => {
+		await createStore().saveIndexes(sampleIndexes());
+		for (let i = 0; i < 2; i++) {
+			const store = createStore();
+			store.recordRemove("headings", String(i));
+			await store.saveDelta(next);
+		}
+		expect(segmentFiles()).toEqual([`${ROOT}/delta-1.bin`, `${ROOT}/delta-2.bin`]);
+		expect((await createStore().loadDeltas())?.map((d) => d.removed.headings)).toEqual([["0"], ["1"]]);
+
+		await createStore().saveIndexes(sampleIndexes("b"));
+		expect(segmentFiles()).toEqual([]);
+		expect(await createStore().loadDeltas()).toEqual([]);
+	});
+
+	it("asks for a merge once segments pile up", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		for (let i = 0; i < 8 && !store.needsMerge(); i++) {
+			store.recordRemove("files", String(i));
+			await store.saveDelta(next);
+		}
+		expect(store.needsMerge()).toBe(true);
+	});
+
+	it("reports a damaged segment so the indexes are rebuilt", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		store.recordRemove("files", "0");
+		await store.saveDelta(next);
+		const path = `${ROOT}/delta-1.bin`;
+		adapter.storage.set(path, (adapter.storage.get(path) as Uint8Array).slice(0, 4));
+
+		expect(await createStore().loadDeltas()).toBeNull();
+		expect(notices[0]).toContain("delta-1.bin");
+	});
+
+	it("needs a full save when there is no base to write a segment on", async () => {
+		const store = createStore();
+		store.recordRemove("files", "0");
+		expect(await store.saveDelta(next)).toBe(false);
+		expect(store.isBaseDirty()).toBe(true);
+		expect(segmentFiles()).toEqual([]);
+
+		await store.saveIndexes(sampleIndexes());
+		expect(store.isBaseDirty()).toBe(false);
+	});
+
+	it("skips segments while the base is dirty", async () => {
+		const store = createStore();
+		await store.saveIndexes(sampleIndexes());
+		store.markBaseDirty();
+		store.recordRemove("files", "0");
+		expect(await store.saveDelta(next)).toBe(false);
+		expect(segmentFiles()).toEqual([]);
+	});
+
+	it("tracks whether the content index changed since it was saved", async () => {
+		const store = createStore();
+		expect(store.isContentDirty()).toBe(false);
+		store.markContentDirty();
+		await store.saveContentIndex({ index: {}, contentIdMap: [], nextContentId: 0 });
+		expect(store.isContentDirty()).toBe(false);
+	});
+});
+
+describe("hashContent", () => {
+	it("is stable and sensitive to every character", () => {
+		expect(hashContent("abc")).toBe(hashContent("abc"));
+		expect(hashContent("abc")).not.toBe(hashContent("abd"));
+		expect(hashContent("")).toMatch(/^[0-9a-f]{8}$/);
+	});
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import type { App } from "obsidian";
+import { JournalStore, replayJournal, type JournalEvent } from "../src/search/persist-journal";
+import type { PersistedFileEntry } from "../src/search/model";
+import { MemoryAdapter } from "./helpers/memory-adapter";
+
+function upsert(ts: number, path: string, headings: string[] = []): JournalEvent {
+	return { v: 1, ts, op: "upsert", path, ext: "md", mtime: ts, size: 10, headings: headings.map((text, i) => ({ text, level: 1, ord: i + 1 })) };
+}
+
+function del(ts: number, path: string): JournalEvent {
+	return { v: 1, ts, op: "delete", path };
+}
+
+function rename(ts: number, oldPath: string, newPath: string): JournalEvent {
+	return { v: 1, ts, op: "rename", oldPath, newPath };
+}
+
+function entry(path: string): PersistedFileEntry {
+	return { path, extension: "md", modified: 1, size: 10, headings: [] };
+}
+
+describe("replayJournal", () => {
+	it("keeps the last upsert for a path", () => {
+		const { entries } = replayJournal([upsert(1, "a.md", ["One"]), upsert(2, "a.md", ["Two"])]);
+		expect(entries.get("a.md")?.headings).toEqual([{ text: "Two", level: 1 }]);
+	});
+
+	it("applies events by timestamp, not log order", () => {
+		const { entries } = replayJournal([upsert(3, "a.md"), del(2, "a.md"), upsert(1, "a.md")]);
+		expect(entries.has("a.md")).toBe(true);
+		expect(entries.get("a.md")?.modified).toBe(3);
+	});
+
+	it("keeps log order for equal timestamps", () => {
+		expect(replayJournal([upsert(5, "a.md"), del(5, "a.md")]).entries.has("a.md")).toBe(false);
+		expect(replayJournal([del(5, "a.md"), upsert(5, "a.md")]).entries.has("a.md")).toBe(true);
+	});
+
+	it("re-creates a deleted path only when upserted again", () => {
+		const { entries } = replayJournal([upsert(1, "a.md"), del(2, "a.md"), upsert(3, "a.md", ["Back"])]);
+		expect(entries.get("a.md")?.headings[0]?.text).toBe("Back");
+		expect(replayJournal([upsert(1, "a.md"), upsert(2, "a.md"), del(3, "a.md")]).entries.size).toBe(0);
+	});
+
+	it("follows rename chains and carries the entry along", () => {
+		const { entries, touched } = replayJournal([
+			upsert(1, "a.md", ["Kept"]),
+			rename(2, "a.md", "b.md"),
+			rename(3, "b.md", "dir/c.md"),
+		]);
+		expect([...entries.keys()]).toEqual(["dir/c.md"]);
+		expect(entries.get("dir/c.md")).toMatchObject({ path: "dir/c.md", headings: [{ text: "Kept", level: 1 }] });
+		expect([...touched].sort()).toEqual(["a.md", "b.md", "dir/c.md"]);
+	});
+
+	it("replays the delete/rename/upsert triple the index manager writes for a rename", () => {
+		const { entries } = replayJournal([
+			upsert(1, "old.md", ["Stale"]),
+			del(2, "old.md"),
+			rename(2, "old.md", "new.md"),
+			upsert(2, "new.md", ["Fresh"]),
+		]);
+		expect([...entries.keys()]).toEqual(["new.md"]);
+		expect(entries.get("new.md")?.headings[0]?.text).toBe("Fresh");
+	});
+
+	it("lets a rename overwrite the target and a later delete of the target drop it", () => {
+		const chain = [upsert(1, "a.md", ["A"]), upsert(1, "b.md", ["B"]), rename(2, "a.md", "b.md")];
+		expect(replayJournal(chain).entries.get("b.md")?.headings[0]?.text).toBe("A");
+		expect(replayJournal([...chain, del(3, "b.md")]).entries.size).toBe(0);
+	});
+
+	it("patches a baseline and reports only the paths events touched", () => {
+		const { entries, touched, upserts, deletes, renames } = replayJournal(
+			[del(1, "gone.md"), rename(2, "moved.md", "here.md")],
+			[entry("gone.md"), entry("moved.md"), entry("kept.md")],
+		);
+		expect([...entries.keys()].sort()).toEqual(["here.md", "kept.md"]);
+		expect([...touched].sort()).toEqual(["gone.md", "here.md", "moved.md"]);
+		expect({ upserts, deletes, renames }).toEqual({ upserts: 0, deletes: 1, renames: 1 });
+	});
+
+	it("normalizes paths", () => {
+		const { entries } = replayJournal([upsert(1, "/dir\\a.md"), rename(2, "dir/a.md", "/b.md")]);
+		expect([...entries.keys()]).toEqual(["b.md"]);
+	});
+});
+
+describe("JournalStore compaction", () => {
+	const baseDir = ".obsidian/plugins/test/journal";
+
+	function createStore(adapter: MemoryAdapter): JournalStore {
+		return new JournalStore({ vault: { adapter } } as unknown as App, "test");
+	}
+
+	function chunks(adapter: MemoryAdapter): string[] {
+		return [...adapter.storage.keys()].filter((key) => key.endsWith(".ndjson"));
+	}
+
+	it("folds chunks into the baseline and deletes them", async () => {
+		const adapter = new MemoryAdapter();
+		adapter.storage.set(`${baseDir}/files-1.ndjson`, [upsert(1, "a.md"), upsert(1, "b.md")].map((e) => JSON.stringify(e)).join("\n"));
+		adapter.storage.set(`${baseDir}/files-2.ndjson`, [rename(2, "a.md", "c.md"), del(3, "b.md")].map((e) => JSON.stringify(e)).join("\n"));
+		const store = createStore(adapter);
+		await store.initialize();
+
+		await store.compact(await store.checkpoint());
+
+		expect(chunks(adapter)).toHaveLength(1); // the fresh chunk for this session
+		const baseline = await store.loadBaseline();
+		expect(baseline?.files.map((f) => f.path)).toEqual(["c.md"]);
+		const state = await store.loadState();
+		expect([...state.entries.keys()]).toEqual(["c.md"]);
+		expect(state.touched.size).toBe(0);
+	});
+
+	it("replays events logged after compaction on top of the baseline", async () => {
+		const adapter = new MemoryAdapter();
+		const store = createStore(adapter);
+		await store.initialize();
+		store.appendUpsert(entry("a.md"));
+		store.appendUpsert(entry("b.md"));
+		await store.compact(await store.checkpoint());
+
+		store.appendRename("a.md", "z.md");
+		await store.close();
+
+		const state = await createStore(adapter).loadState();
+		expect([...state.entries.keys()].sort()).toEqual(["b.md", "z.md"]);
+		expect([...state.touched].sort()).toEqual(["a.md", "z.md"]);
+	});
+
+	it("keeps events journaled between the checkpoint and the compaction", async () => {
+		const adapter = new MemoryAdapter();
+		const store = createStore(adapter);
+		await store.initialize();
+		store.appendUpsert(entry("saved.md"));
+		const checkpoint = await store.checkpoint();
+		// Journaled while the indexes are being written: not in their snapshot
+		store.appendUpsert(entry("late.md"));
+		await store.compact(checkpoint);
+		await store.close();
+
+		expect((await store.loadBaseline())?.files.map((f) => f.path)).toEqual(["saved.md"]);
+		const state = await createStore(adapter).loadState();
+		expect([...state.entries.keys()].sort()).toEqual(["late.md", "saved.md"]);
+		expect([...state.touched]).toEqual(["late.md"]);
+	});
+
+	it("ignores stale events older than the baseline", async () => {
+		const adapter = new MemoryAdapter();
+		adapter.storage.set(`${baseDir}/baseline.json`, JSON.stringify({ v: 1, ts: 100, files: [entry("kept.md")] }));
+		adapter.storage.set(`${baseDir}/files-50.ndjson`, JSON.stringify(del(50, "kept.md")));
+		const state = await createStore(adapter).loadState();
+		expect([...state.entries.keys()]).toEqual(["kept.md"]);
+	});
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach } from "vitest";
+import type { App } from "obsidian";
 import { FuseEngine, type MinimalFileDoc, type MinimalHeadingDoc } from "../src/search/engines/fuse-engine";
 import { MiniSearchEngine } from "../src/search/engines/mini-engine";
+import { IndexStore } from "../src/search/index-store";
+import { MemoryAdapter } from "./helpers/memory-adapter";
 
 /**
  * Performance Tests for Search Engines
@@ -47,6 +50,10 @@ function generateHeadings(count: number): MinimalHeadingDoc[] {
     return headings;
 }
 
+function idMap(ids: string[]): Array<[string, string]> {
+    return ids.map((id, i) => [String(i), id]);
+}
+
 describe("Search Engine Performance", () => {
     describe("Index Building", () => {
         it("Fuse should build 10k file index in <500ms", () => {
@@ -212,6 +219,72 @@ describe("Search Engine Performance", () => {
         });
     });
 
+    describe("Index Persistence", () => {
+        it("Binary format should be smaller than v10 JSON and load in <5s (10k files, 100k headings)", async () => {
+            const files = generateFiles(10000);
+            const headings = generateHeadings(100000);
+            const fuse = new FuseEngine();
+            fuse.setFiles(files);
+            fuse.setHeadings(headings);
+            const mini = new MiniSearchEngine();
+            mini.setFiles(files);
+            mini.setHeadings(headings);
+
+            const data = {
+                fuseFiles: fuse.filesToJSON(),
+                fuseHeadings: fuse.headingsToJSON(),
+                miniFiles: mini.filesToJSON(),
+                miniHeadings: mini.headingsToJSON(),
+                fileIdMap: idMap(files.map((f) => f.id)),
+                headingIdMap: idMap(headings.map((h) => h.id)),
+                nextFileId: files.length,
+                nextHeadingId: headings.length,
+                blockIdMap: [] as Array<[string, string]>,
+                nextBlockId: 0,
+                blockDocs: [],
+            };
+
+            // v10 layout: one JSON document per file
+            const jsonStart = performance.now();
+            const json = [
+                JSON.stringify({ version: 10, index: data.fuseFiles }),
+                JSON.stringify({ version: 10, index: data.fuseHeadings }),
+                JSON.stringify({ version: 10, index: data.miniFiles }),
+                JSON.stringify(data.miniHeadings),
+                JSON.stringify({ version: 10, fileIdMap: data.fileIdMap, headingIdMap: data.headingIdMap, nextFileId: data.nextFileId, nextHeadingId: data.nextHeadingId }),
+            ];
+            const jsonSave = performance.now() - jsonStart;
+            const jsonLoadStart = performance.now();
+            json.forEach((text) => JSON.parse(text));
+            const jsonLoad = performance.now() - jsonLoadStart;
+            const jsonSize = json.reduce((sum, text) => sum + Buffer.byteLength(text), 0);
+            console.log(`[Perf] v10 JSON: save=${jsonSave.toFixed(1)}ms load=${jsonLoad.toFixed(1)}ms size=${(jsonSize / 1024 / 1024).toFixed(2)}MB`);
+
+            const sizes: Record<string, number> = {};
+            for (const compress of [false, true]) {
+                const adapter = new MemoryAdapter();
+                const app = { vault: { adapter } } as unknown as App;
+                const label = compress ? "binary+gzip" : "binary";
+
+                const saveStart = performance.now();
+                await new IndexStore(app, "perf", undefined, { compress }).saveIndexes(data);
+                const save = performance.now() - saveStart;
+
+                const loadStart = performance.now();
+                const loaded = await new IndexStore(app, "perf", undefined, { compress }).loadIndexes("both");
+                const load = performance.now() - loadStart;
+
+                expect(loaded?.headingIdMap).toHaveLength(headings.length);
+                sizes[label] = adapter.size;
+                console.log(`[Perf] ${label}: save=${save.toFixed(1)}ms load=${load.toFixed(1)}ms size=${(adapter.size / 1024 / 1024).toFixed(2)}MB (${(100 * adapter.size / jsonSize).toFixed(0)}% of JSON)`);
+                expect(load).toBeLessThan(5000);
+            }
+
+            expect(sizes["binary"]!).toBeLessThan(jsonSize);
+            expect(sizes["binary+gzip"]!).toBeLessThan(sizes["binary"]! / 2);
+        }, 60000);
+    });
+
     describe("Comparative Performance", () => {
         it("Compare Fuse vs Mini for heading search", async () => {
             const sizes = [10000, 50000, 100000];
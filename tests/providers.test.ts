@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ProviderRegistry, providerIdOf, providerMode, toProviderHits, type OmniSwitchProvider, type ProviderResult } from "../src/search/providers";
+import { detectPrefix, itemKey } from "../src/search/utils";
+import { frecencyKey } from "../src/search/frecency";
+
+function provider(id: string, prefix: string): OmniSwitchProvider {
+	return { id, prefix, label: id, search: () => [], choose: () => undefined };
+}
+
+function result(id: string, score?: number): ProviderResult {
+	return { id, title: id.toUpperCase(), score, data: { id } };
+}
+
+describe("ProviderRegistry", () => {
+	it("registers and unregisters providers", () => {
+		const registry = new ProviderRegistry();
+		const unregister = registry.register(provider("jira", "! "));
+		expect(registry.get("jira")?.prefix).toBe("! ");
+		unregister();
+		expect(registry.list()).toEqual([]);
+	});
+
+	it("rejects duplicate ids, empty prefixes and overlapping prefixes", () => {
+		const registry = new ProviderRegistry();
+		registry.register(provider("jira", "!j "));
+		expect(() => registry.register(provider("jira", "& "))).toThrow(/already registered/);
+		expect(() => registry.register(provider("empty", " "))).toThrow(/needs a prefix/);
+		expect(() => registry.register(provider("heading", "#"))).toThrow(/overlaps "# "/);
+		expect(() => registry.register(provider("ext", ".pdf "))).toThrow(/overlaps "\."/);
+		expect(() => registry.register(provider("shadow", "!"))).toThrow(/overlaps "!j "/);
+		expect(() => registry.register(provider("bad id", "& "))).toThrow(/without spaces/);
+	});
+});
+
+describe("provider modes", () => {
+	it("round-trips provider ids through modes", () => {
+		expect(providerIdOf(providerMode("people"))).toBe("people");
+		expect(providerIdOf("files")).toBeNull();
+	});
+
+	it("detects provider prefixes, preferring the longest", () => {
+		const providers = [provider("snippets", "$ "), provider("people", "$$ ")];
+		expect(detectPrefix("$$ ada", "files", null, providers)).toEqual({ mode: "provider:people", extensionFilter: null, search: "ada", prefixApplied: true });
+		expect(detectPrefix("$ loop", "files", null, providers).mode).toBe("provider:snippets");
+		expect(detectPrefix("> reload", "files", null, providers).mode).toBe("commands");
+	});
+
+	it("strips a repeated prefix inside the provider's mode", () => {
+		const providers = [provider("snippets", "$ ")];
+		expect(detectPrefix("$ loop", "provider:snippets", null, providers)).toEqual({ mode: "provider:snippets", extensionFilter: null, search: "loop", prefixApplied: false });
+	});
+});
+
+describe("toProviderHits", () => {
+	it("caps results at the limit and keeps unscored results in order", () => {
+		const hits = toProviderHits("jira", [result("a"), result("b"), result("c")], 2);
+		expect(hits.map((hit) => hit.item.type === "provider" ? hit.item.result.id : null)).toEqual(["a", "b"]);
+		expect(hits[0].score).toBeGreaterThan(hits[1].score);
+		expect(hits[0].engine).toBe("provider");
+	});
+
+	it("uses provider scores and gives items stable keys", () => {
+		const [hit] = toProviderHits("jira", [result("abc-1", 0.4)], 5);
+		expect(hit.score).toBe(0.4);
+		expect(itemKey(hit.item)).toBe("provider:jira:abc-1");
+		expect(frecencyKey(hit.item)).toBe("provider:jira:abc-1");
+	});
+});
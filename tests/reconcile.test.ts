@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { reconcileFiles, reconciledCount, type FileStat } from "../src/search/reconcile";
+
+function stats(entries: Array<[string, number, number]>): Map<string, FileStat> {
+	return new Map(entries.map(([path, mtime, size]) => [path, { mtime, size }]));
+}
+
+describe("reconcileFiles", () => {
+	it("reports nothing when the vault matches the persisted list", () => {
+		const files = stats([["a.md", 1, 10], ["b.md", 2, 20]]);
+		const result = reconcileFiles(files, files);
+		expect(result).toEqual({ created: [], modified: [], deleted: [] });
+		expect(reconciledCount(result)).toBe(0);
+	});
+
+	it("classifies created, modified and deleted files", () => {
+		const persisted = stats([["same.md", 1, 10], ["touched.md", 1, 10], ["resized.md", 1, 10], ["gone.md", 1, 10]]);
+		const vault = stats([["same.md", 1, 10], ["touched.md", 5, 10], ["resized.md", 1, 11], ["new.md", 3, 30]]);
+		const result = reconcileFiles(persisted, vault);
+		expect(result.created).toEqual(["new.md"]);
+		expect(result.modified).toEqual(["touched.md", "resized.md"]);
+		expect(result.deleted).toEqual(["gone.md"]);
+		expect(reconciledCount(result)).toBe(4);
+	});
+
+	it("treats persisted paths without stats as modified", () => {
+		const persisted = new Map<string, FileStat | null>([["a.md", null]]);
+		expect(reconcileFiles(persisted, stats([["a.md", 1, 10]])).modified).toEqual(["a.md"]);
+	});
+
+	it("skips excluded vault files and drops excluded persisted ones", () => {
+		const persisted = stats([["private/old.md", 1, 10], ["a.md", 1, 10]]);
+		const vault = stats([["private/old.md", 1, 10], ["private/new.md", 1, 10], ["a.md", 1, 10]]);
+		const result = reconcileFiles(persisted, vault, (path) => path.startsWith("private/"));
+		expect(result).toEqual({ created: [], modified: [], deleted: ["private/old.md"] });
+	});
+});
@@ -1,11 +1,14 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import type { App, Command, HeadingCache, TFile, TFolder } from "obsidian";
 import { SearchCoordinator } from "../src/search";
-import type { OmniSwitchSettings } from "../src/settings";
+import { JournalStore } from "../src/search/persist-journal";
+import { DEFAULT_SETTINGS, type OmniSwitchSettings } from "../src/settings";
+import { MemoryAdapter } from "./helpers/memory-adapter";
 
 interface MockFileDescriptor {
 	path: string;
 	mtime: number;
+	size?: number;
 }
 
 interface HeadingDescriptor {
@@ -13,45 +16,10 @@ interface HeadingDescriptor {
 	level?: number;
 }
 
-class MockAdapter {
-	private readonly storage = new Map<string, string>();
-	private readonly dirs = new Set<string>();
-
-	async exists(path: string): Promise<boolean> {
-		return this.storage.has(path) || this.dirs.has(path);
-	}
-
-	async mkdir(path: string): Promise<void> {
-		this.dirs.add(path);
-	}
-
-	async read(path: string): Promise<string> {
-		return this.storage.get(path) ?? "";
-	}
-
-	async write(path: string, data: string): Promise<void> {
-		this.storage.set(path, data);
-	}
-
-	async remove(path: string): Promise<void> {
-		this.storage.delete(path);
-	}
-
-	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
-		const files: string[] = [];
-		for (const key of this.storage.keys()) {
-			if (key.startsWith(path + "/")) {
-				files.push(key);
-			}
-		}
-		return { files, folders: [] };
-	}
-}
-
 class MockVault {
 	private readonly files = new Map<string, TFile>();
 	private readonly root: TFolder;
-	readonly adapter = new MockAdapter();
+	readonly adapter = new MemoryAdapter();
 
 	constructor() {
 		this.root = {
@@ -88,6 +56,14 @@ class MockVault {
 		return this.getFile(path);
 	}
 
+	getMarkdownFiles(): TFile[] {
+		return this.getAllLoadedFiles().filter((file) => file.extension === "md");
+	}
+
+	async cachedRead(_file: TFile): Promise<string> {
+		return "";
+	}
+
 	getRoot(): TFolder {
 		return this.root;
 	}
@@ -95,19 +71,26 @@ class MockVault {
 
 class MockMetadataCache {
 	private readonly headings = new Map<string, HeadingCache[]>();
+	private readonly frontmatter = new Map<string, Record<string, unknown>>();
 
 	setHeadings(path: string, descriptors: HeadingDescriptor[]): void {
 		const entries = descriptors.map((descriptor) => createHeading(descriptor.text, descriptor.level ?? 1));
 		this.headings.set(path, entries);
 	}
 
+	setFrontmatter(path: string, frontmatter: Record<string, unknown>): void {
+		this.frontmatter.set(path, frontmatter);
+	}
+
 	clear(): void {
 		this.headings.clear();
+		this.frontmatter.clear();
 	}
 
-	getFileCache(file: TFile): { headings: HeadingCache[] } | null {
-		const stored = this.headings.get(file.path);
-		return stored ? { headings: stored } : null;
+	getFileCache(file: TFile): { headings?: HeadingCache[]; frontmatter?: Record<string, unknown> } | null {
+		const headings = this.headings.get(file.path);
+		const frontmatter = this.frontmatter.get(file.path);
+		return headings || frontmatter ? { headings, frontmatter } : null;
 	}
 }
 
@@ -160,7 +143,7 @@ function createFile(descriptor: MockFileDescriptor): TFile {
 		name,
 		basename,
 		extension,
-		stat: { mtime: descriptor.mtime } as { mtime: number },
+		stat: { mtime: descriptor.mtime, size: descriptor.size ?? 0 },
 		parent,
 	} as unknown as TFile;
 	return file;
@@ -190,40 +173,11 @@ interface CoordinatorSetup {
 }
 
 
-interface JournalEventLike { v: number; ts: number; op: string; path?: string; ext?: string; mtime?: number; size?: number; headings?: Array<{ text: string; level: number; ord: number }>; oldPath?: string; newPath?: string }
-
-class InMemoryJournal {
-    private events: JournalEventLike[];
-    constructor(events: JournalEventLike[]) { this.events = events; }
-    async initialize(): Promise<void> { /* no-op */ }
-    appendUpsert(entry: { path: string; extension: string; modified: number; size: number; headings: Array<{ text: string; level: number }> }): void {
-        const ts = Date.now();
-        const ev: JournalEventLike = {
-            v: 1, ts, op: "upsert", path: entry.path, ext: entry.extension, mtime: entry.modified, size: entry.size,
-            headings: entry.headings.map((h, i) => ({ text: h.text, level: h.level, ord: i + 1 })),
-        };
-        this.events.push(ev);
-    }
-    appendDelete(path: string): void { this.events.push({ v: 1, ts: Date.now(), op: "delete", path }); }
-    appendRename(oldPath: string, newPath: string): void { this.events.push({ v: 1, ts: Date.now(), op: "rename", oldPath, newPath }); }
-    async loadAllEvents(): Promise<JournalEventLike[]> { return this.events.slice(); }
-}
-
-function buildJournalEvents(files: MockFileDescriptor[], headings: Record<string, HeadingDescriptor[]>): JournalEventLike[] {
-    const events: JournalEventLike[] = [];
-    for (const descriptor of files) {
-        const path = descriptor.path;
-        const hs = (headings[path] ?? []).map((h, i) => ({ text: h.text, level: h.level ?? 0, ord: i + 1 }));
-        events.push({ v: 1, ts: 1, op: "upsert", path, ext: "md", mtime: descriptor.mtime, size: -1, headings: hs });
-    }
-    return events;
-}
-
 async function setupCoordinator(
     files: MockFileDescriptor[],
     headings: Record<string, HeadingDescriptor[]>,
     commands: Command[] = [],
-    settings: OmniSwitchSettings = { excludedPaths: [], searchEngine: "fuse" },
+    settings: OmniSwitchSettings = { ...DEFAULT_SETTINGS, searchEngine: "fuse" },
 ): Promise<CoordinatorSetup> {
     const app = new MockApp(commands);
 
@@ -236,11 +190,18 @@ async function setupCoordinator(
         }
     }
 
+    return startSession(app, settings);
+}
+
+/**
+ * Start a coordinator on an existing app, e.g. a second session that loads what the first one persisted
+ */
+async function startSession(app: MockApp, settings: OmniSwitchSettings = { ...DEFAULT_SETTINGS, searchEngine: "fuse" }): Promise<CoordinatorSetup> {
     const coordinator = new SearchCoordinator({
         app: app as unknown as App,
         pluginId: "test-plugin",
         initialSettings: settings,
-        journal: new InMemoryJournal(buildJournalEvents(files, headings)),
+        journal: new JournalStore(app as unknown as App, "test-plugin"),
     });
 
     await coordinator.initialize();
@@ -325,10 +286,64 @@ describe("SearchCoordinator", () => {
             { text: "Findings foxtrot", level: 2 },
             { text: "Conclusion golf", level: 1 },
         ];
-        const setup = await setupCoordinator(files, { "Notes/big.md": hs }, [], { excludedPaths: [], searchEngine: "mini" });
+        const setup = await setupCoordinator(files, { "Notes/big.md": hs }, [], { ...DEFAULT_SETTINGS, searchEngine: "mini" });
         const { coordinator } = setup;
         // search for a later heading token that would be missed if only the first tokens were indexed
         const hits = coordinator.search("headings", "foxtrot", null);
         expect(hits.some((h) => h.item.type === "heading")).toBe(true);
     });
+
+	it("replaces edited headings after a hybrid warm start", async () => {
+		const hybrid = { ...DEFAULT_SETTINGS, searchEngine: "hybrid" as const };
+		const first = await setupCoordinator(baselineFiles, { "Notes/alpha.md": [{ text: "Overview" }, { text: "Roadmap" }] }, [], hybrid);
+		await first.coordinator.shutdown();
+
+		const { coordinator, vault, cache } = await startSession(first.app, hybrid);
+		expect(coordinator.search("headings", "roadmap", null)).toHaveLength(1);
+
+		const file = vault.getFile("Notes/alpha.md")!;
+		cache.setHeadings(file.path, [{ text: "Summary" }, { text: "Roadmap" }]);
+		file.stat.mtime = 5;
+		coordinator.handleVaultModify(file);
+		await delay(500);
+
+		expect(coordinator.search("headings", "overview", null)).toHaveLength(0);
+		expect(coordinator.search("headings", "summary", null)).toHaveLength(1);
+		expect(coordinator.search("headings", "roadmap", null)).toHaveLength(1);
+	});
+
+	it("keeps aliases when an engine is rebuilt after a warm start", async () => {
+		const fuseOnly = { ...DEFAULT_SETTINGS, searchEngine: "fuse" as const, prebuildBothEngines: false };
+		const app = new MockApp();
+		for (const descriptor of baselineFiles) {
+			app.vault.addFile(createFile(descriptor));
+		}
+		app.metadataCache.setHeadings("Notes/alpha.md", [{ text: "Overview" }]);
+		app.metadataCache.setFrontmatter("Notes/alpha.md", { aliases: ["Kickoff"] });
+		const first = await startSession(app, fuseOnly);
+		await first.coordinator.shutdown();
+
+		// Mini was not saved, so switching to it builds its file index from the restored docs
+		const { coordinator } = await startSession(app, fuseOnly);
+		coordinator.setEngine("mini");
+		const hits = coordinator.search("files", "kickoff", null);
+		expect(hits.map((hit) => hit.item.type === "file" ? [hit.item.file.path, hit.item.alias] : null)).toEqual([["Notes/alpha.md", "Kickoff"]]);
+	});
+
+	it("filters by modification time after loading persisted indexes", async () => {
+		const day = 24 * 60 * 60 * 1000;
+		const files = [
+			{ path: "Notes/stale.md", mtime: Date.now() - 30 * day },
+			{ path: "Notes/recent.md", mtime: Date.now() - day },
+			{ path: "Notes/fresh.md", mtime: Date.now() - 60 * 1000 },
+		];
+		const first = await setupCoordinator(files, { "Notes/recent.md": [{ text: "Plan" }] });
+		await first.coordinator.shutdown();
+
+		const { coordinator } = await startSession(first.app);
+		const paths = (query: string) => coordinator.search("files", query, null).map((hit) => hit.item.type === "file" ? hit.item.file.path : null);
+		expect(paths("modified:>7d")).toEqual(["Notes/fresh.md", "Notes/recent.md"]);
+		expect(paths("ext:md")).toEqual(["Notes/fresh.md", "Notes/recent.md", "Notes/stale.md"]);
+		expect(paths("recent modified:>7d")).toEqual(["Notes/recent.md"]);
+	});
 });
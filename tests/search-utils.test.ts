@@ -1,8 +1,23 @@
 import { describe, expect, it } from "vitest";
+import type { App, BlockCache, CachedMetadata, HeadingCache, TFile } from "obsidian";
 import {
+	applyTemplateVariables,
+	collectOpenTabs,
 	detectPrefix,
+	expandTagHierarchy,
+	extractBlockPreview,
+	extractHeadingSection,
+	extractFileAliases,
+	extractFileTags,
 	isNoteExtension,
+	isTagWithin,
+	itemKey,
 	matchesAttachmentExtension,
+	matchesQueryFilters,
+	parseQuery,
+	resolveNewFolderPath,
+	resolveNewNotePath,
+	splitLinkAlias,
 	type OmniSwitchMode,
 } from "../src/search/utils";
 
@@ -39,6 +54,56 @@ describe("detectPrefix", () => {
 		});
 	});
 
+	it("returns tag mode when query starts with '@ '", () => {
+		const result = detectPrefix("@ project", defaultMode, null);
+		expect(result).toEqual({
+			mode: "tags",
+			extensionFilter: null,
+			search: "project",
+			prefixApplied: true,
+		});
+	});
+
+	it("strips tag prefix when already in tag mode", () => {
+		const result = detectPrefix("@ alpha", "tags", null);
+		expect(result).toEqual({
+			mode: "tags",
+			extensionFilter: null,
+			search: "alpha",
+			prefixApplied: false,
+		});
+	});
+
+	it("returns blocks mode when query starts with '^ '", () => {
+		const result = detectPrefix("^ decision", defaultMode, null);
+		expect(result).toEqual({
+			mode: "blocks",
+			extensionFilter: null,
+			search: "decision",
+			prefixApplied: true,
+		});
+	});
+
+	it("returns tabs mode when query starts with '~ '", () => {
+		const result = detectPrefix("~ daily", defaultMode, null);
+		expect(result).toEqual({
+			mode: "tabs",
+			extensionFilter: null,
+			search: "daily",
+			prefixApplied: true,
+		});
+	});
+
+	it("returns content mode when query starts with '? '", () => {
+		const result = detectPrefix("? quarterly roadmap", defaultMode, null);
+		expect(result).toEqual({
+			mode: "content",
+			extensionFilter: null,
+			search: "quarterly roadmap",
+			prefixApplied: true,
+		});
+	});
+
 	it("does not activate directory mode without trailing space", () => {
 		const result = detectPrefix("/projects", defaultMode, null);
 		expect(result).toEqual({
@@ -172,3 +237,232 @@ describe("isNoteExtension", () => {
 		expect(isNoteExtension("png")).toBe(false);
 	});
 });
+
+describe("tag helpers", () => {
+	it("collects inline and frontmatter tags without duplicates", () => {
+		const cache = {
+			tags: [
+				{ tag: "#project/alpha" },
+				{ tag: "#Meeting" },
+			],
+			frontmatter: { tags: ["meeting", "#status/open"], tag: "draft, review" },
+		} as unknown as CachedMetadata;
+		expect(extractFileTags(cache)).toEqual(["project/alpha", "Meeting", "status/open", "draft", "review"]);
+	});
+
+	it("returns no tags for missing metadata", () => {
+		expect(extractFileTags(null)).toEqual([]);
+	});
+
+	it("expands nested tags into their parents", () => {
+		expect(expandTagHierarchy("#project/alpha/api")).toEqual(["project", "project/alpha", "project/alpha/api"]);
+	});
+
+	it("matches a tag against itself and its parents only", () => {
+		expect(isTagWithin("project/alpha", "project")).toBe(true);
+		expect(isTagWithin("Project", "project")).toBe(true);
+		expect(isTagWithin("projects", "project")).toBe(false);
+	});
+});
+
+describe("extractFileAliases", () => {
+	it("reads alias lists and comma-separated strings", () => {
+		const cache = {
+			frontmatter: { aliases: ["K8s", "Kubernetes", "k8s"], alias: "Kube, Cluster" },
+		} as unknown as CachedMetadata;
+		expect(extractFileAliases(cache)).toEqual(["K8s", "Kubernetes", "Kube", "Cluster"]);
+	});
+
+	it("returns no aliases without frontmatter", () => {
+		expect(extractFileAliases({} as CachedMetadata)).toEqual([]);
+	});
+});
+
+describe("extractBlockPreview", () => {
+	const blockAt = (content: string, text: string, id: string): BlockCache => {
+		const start = content.indexOf(text);
+		return { id, position: { start: { line: 0, col: 0, offset: start }, end: { line: 0, col: 0, offset: start + text.length } } } as BlockCache;
+	};
+
+	it("drops the block marker, list bullet and line breaks", () => {
+		const content = "# Log\n- [x] Ship the\n  release ^ship-1\n";
+		const block = blockAt(content, "- [x] Ship the\n  release ^ship-1", "ship-1");
+		expect(extractBlockPreview(content, block)).toBe("Ship the release");
+	});
+
+	it("clips long blocks", () => {
+		const content = `${"word ".repeat(100)}^long`;
+		const block = blockAt(content, content, "long");
+		const preview = extractBlockPreview(content, block, 20);
+		expect(preview).toHaveLength(20);
+		expect(preview.endsWith("…")).toBe(true);
+	});
+});
+
+describe("collectOpenTabs", () => {
+	const rootSplit = { name: "root" };
+	const leftSplit = { name: "left" };
+	const popout = { name: "popout" };
+	const leaf = (path: string, activeTime: number | undefined, root: object, container: object, viewType = "markdown") => ({
+		activeTime,
+		view: { file: { path }, getViewType: () => viewType },
+		getRoot: () => root,
+		getContainer: () => container,
+		getViewState: () => ({ state: {} }),
+	});
+	const appWith = (leaves: ReturnType<typeof leaf>[]) => ({
+		workspace: {
+			rootSplit,
+			iterateAllLeaves: (cb: (l: unknown) => void) => leaves.forEach(cb),
+		},
+	}) as unknown as App;
+
+	it("orders tabs by last activation and labels their location", () => {
+		const app = appWith([
+			leaf("a.md", 100, rootSplit, rootSplit),
+			leaf("b.md", 300, popout, popout),
+			leaf("c.pdf", 200, leftSplit, rootSplit, "pdf"),
+			leaf("d.md", undefined, rootSplit, rootSplit),
+		]);
+		expect(collectOpenTabs(app).map((t) => [t.path, t.location])).toEqual([
+			["b.md", "popout"],
+			["c.pdf", "aux"],
+			["a.md", "main"],
+			["d.md", "main"],
+		]);
+	});
+
+	it("skips sidebar panels that only mirror a file", () => {
+		const app = appWith([
+			leaf("a.md", 1, rootSplit, rootSplit),
+			leaf("a.md", 2, leftSplit, rootSplit, "outline"),
+		]);
+		expect(collectOpenTabs(app).map((t) => t.viewType)).toEqual(["markdown"]);
+	});
+});
+
+describe("parseQuery", () => {
+	const DAY = 24 * 60 * 60 * 1000;
+	const now = Date.UTC(2024, 5, 15);
+
+	it("pulls filter tokens out of the search text", () => {
+		const parsed = parseQuery("roadmap path:Projects/ ext:.MD -path:archive tag:#work q3", now);
+		expect(parsed.text).toBe("roadmap q3");
+		expect(parsed.filters).toEqual([
+			{ kind: "path", value: "projects/", negate: false, raw: "path:Projects/" },
+			{ kind: "ext", value: "md", negate: false, raw: "ext:.MD" },
+			{ kind: "path", value: "archive", negate: true, raw: "-path:archive" },
+			{ kind: "tag", value: "work", negate: false, raw: "tag:#work" },
+		]);
+	});
+
+	it("parses relative ages, dates and sizes", () => {
+		const { filters } = parseQuery("modified:>7d modified:<2024-01-01 size:>1.5mb size:<200kb", now);
+		expect(filters.map((f) => ("op" in f ? [f.kind, f.op, f.value] : null))).toEqual([
+			["modified", ">", now - 7 * DAY],
+			["modified", "<", Date.parse("2024-01-01T00:00:00")],
+			["size", ">", 1.5 * 1024 * 1024],
+			["size", "<", 200 * 1024],
+		]);
+	});
+
+	it("supports quoted values and leaves unreadable tokens as text", () => {
+		const parsed = parseQuery('path:"Team Notes" size:huge notes', now);
+		expect(parsed.filters.map((f) => f.raw)).toEqual(['path:"Team Notes"']);
+		expect(parsed.filters[0]).toMatchObject({ value: "team notes" });
+		expect(parsed.text).toBe("size:huge notes");
+	});
+});
+
+describe("matchesQueryFilters", () => {
+	const file = { path: "Projects/Roadmap.md", extension: "md", mtime: 5_000, size: 2048 };
+	const noTags = () => false;
+
+	it("requires every filter to pass and honours negation", () => {
+		expect(matchesQueryFilters(file, parseQuery("path:projects ext:md size:>1kb").filters, noTags)).toBe(true);
+		expect(matchesQueryFilters(file, parseQuery("path:projects -path:roadmap").filters, noTags)).toBe(false);
+		expect(matchesQueryFilters(file, parseQuery("ext:pdf").filters, noTags)).toBe(false);
+	});
+
+	it("compares modification time against the parsed cutoff", () => {
+		const recent = parseQuery("modified:>1d", 10_000).filters;
+		expect(matchesQueryFilters({ ...file, mtime: 9_000 }, recent, noTags)).toBe(true);
+		expect(matchesQueryFilters({ ...file, mtime: 10_000 - 2 * 24 * 60 * 60 * 1000 }, recent, noTags)).toBe(false);
+	});
+
+	it("asks the tag lookup for tag filters", () => {
+		const hasTag = (path: string, tag: string) => path === file.path && tag === "work";
+		expect(matchesQueryFilters(file, parseQuery("tag:work").filters, hasTag)).toBe(true);
+		expect(matchesQueryFilters(file, parseQuery("-tag:work").filters, hasTag)).toBe(false);
+	});
+});
+
+describe("extractHeadingSection", () => {
+	const content = "# Top\nintro\n## Plan\nsteps\n### Detail\nmore\n## Next\nlater\n";
+	const headings = ["# Top", "## Plan", "### Detail", "## Next"].map((line) => {
+		const offset = content.indexOf(line);
+		return { heading: line.replace(/^#+ /, ""), level: line.indexOf(" "), position: { start: { line: 0, col: 0, offset }, end: { line: 0, col: 0, offset: offset + line.length } } } as HeadingCache;
+	});
+
+	it("runs until the next heading of the same or higher level, keeping subsections", () => {
+		expect(extractHeadingSection(content, headings, headings[1])).toBe("## Plan\nsteps\n### Detail\nmore");
+	});
+
+	it("runs to the end of the note for the last section", () => {
+		expect(extractHeadingSection(content, headings, headings[3])).toBe("## Next\nlater");
+	});
+});
+
+describe("splitLinkAlias", () => {
+	it("splits the alias after the first bar", () => {
+		expect(splitLinkAlias("roadmap|the plan")).toEqual({ query: "roadmap", alias: "the plan" });
+		expect(splitLinkAlias("a|b|c")).toEqual({ query: "a", alias: "b|c" });
+	});
+
+	it("returns a null alias when none was typed", () => {
+		expect(splitLinkAlias("roadmap")).toEqual({ query: "roadmap", alias: null });
+		expect(splitLinkAlias("roadmap| ")).toEqual({ query: "roadmap", alias: null });
+	});
+});
+
+describe("resolveNewNotePath", () => {
+	it("places the note in the base folder and adds .md", () => {
+		expect(resolveNewNotePath("Meeting notes", "Inbox")).toBe("Inbox/Meeting notes.md");
+		expect(resolveNewNotePath("Plan.md", "")).toBe("Plan.md");
+	});
+
+	it("turns path separators into nested folders", () => {
+		expect(resolveNewNotePath("Projects/2024/ Kickoff ", "/Inbox/")).toBe("Inbox/Projects/2024/Kickoff.md");
+		expect(resolveNewNotePath("a\\b", "")).toBe("a/b.md");
+	});
+
+	it("drops characters Obsidian rejects and empty or relative segments", () => {
+		expect(resolveNewNotePath("What? #idea: *draft*", "")).toBe("What idea draft.md");
+		expect(resolveNewNotePath("../x//y", "")).toBe("x/y.md");
+		expect(resolveNewNotePath(" / ?", "Inbox")).toBeNull();
+	});
+});
+
+describe("resolveNewFolderPath", () => {
+	it("nests typed folders under the base folder", () => {
+		expect(resolveNewFolderPath("Archive/2024", "Projects")).toBe("Projects/Archive/2024");
+		expect(resolveNewFolderPath(" Inbox ", "")).toBe("Inbox");
+		expect(resolveNewFolderPath("//", "Projects")).toBeNull();
+	});
+});
+
+describe("applyTemplateVariables", () => {
+	it("fills title, date and time", () => {
+		const now = new Date(2024, 0, 5, 9, 7);
+		expect(applyTemplateVariables("# {{title}}\n{{date}} {{ TIME }} {{other}}", "Plan", now)).toBe("# Plan\n2024-01-05 09:07 {{other}}");
+	});
+});
+
+describe("itemKey", () => {
+	it("identifies items independently of the query that found them", () => {
+		const file = { path: "Notes/Plan.md" } as TFile;
+		expect(itemKey({ type: "file", file })).toBe(itemKey({ type: "file", file, alias: "Roadmap" }));
+		expect(itemKey({ type: "block", file, blockId: "abc", text: "" })).toBe("block:Notes/Plan.md#^abc");
+		expect(itemKey({ type: "content", file, line: 3, snippet: "x" })).not.toBe(itemKey({ type: "content", file, line: 4, snippet: "x" }));
+	});
+});
@@ -4,6 +4,7 @@ import {
 	parseExcludedPaths,
 	migrateSettings,
 	DEFAULT_SETTINGS,
+	SETTINGS_VERSION,
 } from "../src/settings";
 
 describe("excluded path helpers", () => {
@@ -34,6 +35,64 @@ describe("migrateSettings", () => {
 			fileTypes: { includeHeadings: true },
 		};
   const result = migrateSettings(legacy);
-  expect(result).toEqual({ excludedPaths: [], searchEngine: DEFAULT_SETTINGS.searchEngine, prebuildBothEngines: DEFAULT_SETTINGS.prebuildBothEngines, verboseLogging: DEFAULT_SETTINGS.verboseLogging, maxResults: DEFAULT_SETTINGS.maxResults, forceRebuild: DEFAULT_SETTINGS.forceRebuild });
+  expect(result).toEqual({ settingsVersion: SETTINGS_VERSION, excludedPaths: [], searchEngine: DEFAULT_SETTINGS.searchEngine, prebuildBothEngines: DEFAULT_SETTINGS.prebuildBothEngines, verboseLogging: DEFAULT_SETTINGS.verboseLogging, maxResults: DEFAULT_SETTINGS.maxResults, forceRebuild: DEFAULT_SETTINGS.forceRebuild, aliasWeight: DEFAULT_SETTINGS.aliasWeight, contentMemoryBudgetMB: DEFAULT_SETTINGS.contentMemoryBudgetMB, frecencyWeight: DEFAULT_SETTINGS.frecencyWeight, frecencyHalfLifeDays: DEFAULT_SETTINGS.frecencyHalfLifeDays, showPreview: DEFAULT_SETTINGS.showPreview, newNoteFolder: DEFAULT_SETTINGS.newNoteFolder, newNoteTemplate: DEFAULT_SETTINGS.newNoteTemplate, defaultMode: DEFAULT_SETTINGS.defaultMode, exactMatchBoost: DEFAULT_SETTINGS.exactMatchBoost, prefixMatchBoost: DEFAULT_SETTINGS.prefixMatchBoost, wordStartBoost: DEFAULT_SETTINGS.wordStartBoost, shortNameBoost: DEFAULT_SETTINGS.shortNameBoost });
+	});
+});
+
+describe("forceRebuild", () => {
+	it("drops the old default from settings saved before version 1, once", () => {
+		expect(migrateSettings({ forceRebuild: true }).forceRebuild).toBe(false);
+		const migrated = migrateSettings({ forceRebuild: false });
+		expect(migrateSettings({ ...migrated, forceRebuild: true }).forceRebuild).toBe(true);
+	});
+});
+
+describe("aliasWeight", () => {
+	it("clamps persisted alias weight into range", () => {
+		expect(migrateSettings({ aliasWeight: 3 }).aliasWeight).toBe(1);
+		expect(migrateSettings({ aliasWeight: 0 }).aliasWeight).toBe(0.1);
+		expect(migrateSettings({ aliasWeight: 0.5 }).aliasWeight).toBe(0.5);
+	});
+});
+
+describe("contentMemoryBudgetMB", () => {
+	it("clamps persisted content budget and keeps 0 to disable", () => {
+		expect(migrateSettings({ contentMemoryBudgetMB: 1000 }).contentMemoryBudgetMB).toBe(256);
+		expect(migrateSettings({ contentMemoryBudgetMB: -4 }).contentMemoryBudgetMB).toBe(0);
+		expect(migrateSettings({ contentMemoryBudgetMB: 0 }).contentMemoryBudgetMB).toBe(0);
+	});
+});
+
+describe("frecency settings", () => {
+	it("clamps persisted weight and half-life into range", () => {
+		expect(migrateSettings({ frecencyWeight: 2 }).frecencyWeight).toBe(1);
+		expect(migrateSettings({ frecencyWeight: -1 }).frecencyWeight).toBe(0);
+		expect(migrateSettings({ frecencyHalfLifeDays: 0 }).frecencyHalfLifeDays).toBe(1);
+		expect(migrateSettings({ frecencyHalfLifeDays: 365 }).frecencyHalfLifeDays).toBe(90);
+	});
+});
+
+describe("new note settings", () => {
+	it("trims the folder's surrounding slashes and ignores non-strings", () => {
+		expect(migrateSettings({ newNoteFolder: " /Inbox/Daily/ " }).newNoteFolder).toBe("Inbox/Daily");
+		expect(migrateSettings({ newNoteFolder: 3 }).newNoteFolder).toBe("");
+		expect(migrateSettings({ newNoteTemplate: " Templates/Note.md " }).newNoteTemplate).toBe("Templates/Note.md");
+	});
+});
+
+describe("default mode setting", () => {
+	it("accepts notes or everything and falls back otherwise", () => {
+		expect(migrateSettings({ defaultMode: "everything" }).defaultMode).toBe("everything");
+		expect(migrateSettings({ defaultMode: "headings" }).defaultMode).toBe("files");
+		expect(migrateSettings({}).defaultMode).toBe("files");
+	});
+});
+
+describe("ranking boost settings", () => {
+	it("clamps persisted boosts into 0..1 and keeps 0 to disable", () => {
+		expect(migrateSettings({ exactMatchBoost: 3 }).exactMatchBoost).toBe(1);
+		expect(migrateSettings({ prefixMatchBoost: -1 }).prefixMatchBoost).toBe(0);
+		expect(migrateSettings({ wordStartBoost: 0 }).wordStartBoost).toBe(0);
+		expect(migrateSettings({ shortNameBoost: "high" }).shortNameBoost).toBe(DEFAULT_SETTINGS.shortNameBoost);
 	});
 });
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { initialism, splitWords, tokenizeName } from "../src/search/tokenize";
+
+describe("splitWords", () => {
+	it("splits camelCase, snake_case, kebab-case, digits and dots", () => {
+		expect(splitWords("quarterlyRevenueReport_v2")).toEqual(["quarterly", "revenue", "report", "v", "2"]);
+		expect(splitWords("my-project-notes")).toEqual(["my", "project", "notes"]);
+		expect(splitWords("release.notes.2024")).toEqual(["release", "notes", "2024"]);
+		expect(splitWords("XMLHttpRequest")).toEqual(["xml", "http", "request"]);
+		expect(splitWords("Café résumé")).toEqual(["café", "résumé"]);
+	});
+});
+
+describe("tokenizeName", () => {
+	it("keeps the joined chunk next to its parts", () => {
+		expect(tokenizeName("quarterlyRevenueReport_v2")).toEqual(["quarterly", "revenue", "report", "v", "2", "quarterlyrevenuereportv2"]);
+		expect(tokenizeName("Meeting notes")).toEqual(["meeting", "notes"]);
+	});
+});
+
+describe("initialism", () => {
+	it("takes each word's first letter and whole digit runs", () => {
+		expect(initialism("quarterlyRevenueReport_v2")).toBe("qrrv2");
+		expect(initialism("Getting Started")).toBe("gs");
+		expect(initialism("Q3 planning 2024")).toBe("q3p2024");
+	});
+
+	it("is empty for single words", () => {
+		expect(initialism("Readme")).toBe("");
+	});
+});
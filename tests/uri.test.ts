@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { isUriOpenable, parseOmniSwitchUri } from "../src/uri";
+import type { SearchItem } from "../src/search/types";
+
+describe("parseOmniSwitchUri", () => {
+	it("maps mode and query", () => {
+		expect(parseOmniSwitchUri({ action: "omniswitch", mode: "headings", query: "roadmap" })).toEqual({
+			initialMode: "headings",
+			initialQuery: "roadmap",
+			openFirst: false,
+		});
+	});
+
+	it("accepts mode aliases and ignores unknown modes", () => {
+		expect(parseOmniSwitchUri({ mode: "Notes" }).initialMode).toBe("files");
+		expect(parseOmniSwitchUri({ mode: "folders" }).initialMode).toBe("directories");
+		expect(parseOmniSwitchUri({ mode: "nope", query: "x" })).toEqual({ initialQuery: "x", openFirst: false });
+	});
+
+	it("accepts registered providers by id", () => {
+		const hasProvider = (id: string) => id === "people";
+		expect(parseOmniSwitchUri({ mode: "people" }, hasProvider).initialMode).toBe("provider:people");
+		expect(parseOmniSwitchUri({ mode: "provider:people" }, hasProvider).initialMode).toBe("provider:people");
+		expect(parseOmniSwitchUri({ mode: "jira" }, hasProvider).initialMode).toBeUndefined();
+	});
+
+	it("uses ext as an attachment filter", () => {
+		expect(parseOmniSwitchUri({ ext: ".PDF" })).toEqual({ initialMode: "attachments", extensionFilter: "pdf", openFirst: false });
+		expect(parseOmniSwitchUri({ mode: "headings", ext: "pdf" }).extensionFilter).toBeUndefined();
+	});
+
+	it("turns folder into a directory trail", () => {
+		expect(parseOmniSwitchUri({ folder: "/Projects/2024/" })).toEqual({
+			initialMode: "directories",
+			initialDirectoryTrail: ["Projects", "Projects/2024"],
+			openFirst: false,
+		});
+		expect(parseOmniSwitchUri({ mode: "files", folder: "Projects" }).initialDirectoryTrail).toBeUndefined();
+	});
+
+	it("recognises open=first", () => {
+		expect(parseOmniSwitchUri({ query: "a", open: "first" }).openFirst).toBe(true);
+		expect(parseOmniSwitchUri({ query: "a", open: "modal" }).openFirst).toBe(false);
+	});
+
+	it("never runs commands or provider actions from open=first", () => {
+		expect(parseOmniSwitchUri({ mode: "commands", query: "delete", open: "first" })).toEqual({
+			initialMode: "commands",
+			initialQuery: "delete",
+			openFirst: false,
+		});
+		expect(parseOmniSwitchUri({ mode: "people", open: "first" }, (id) => id === "people").openFirst).toBe(false);
+
+		// Mixed modes (everything) can still surface a command as the top hit
+		const command = { type: "command", command: { id: "app:delete-file", name: "Delete current file" } } as SearchItem;
+		const provider = { type: "provider", providerId: "people" } as unknown as SearchItem;
+		const heading = { type: "heading" } as SearchItem;
+		expect(isUriOpenable(command)).toBe(false);
+		expect(isUriOpenable(provider)).toBe(false);
+		expect(isUriOpenable(heading)).toBe(true);
+	});
+});